@@ -1,46 +1,108 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-
-type Status = 'online' | 'offline';
-
-type SuggestionSeverity = 'critical' | 'warning' | 'info';
-
-type Suggestion = {
-  id: string;
-  severity: SuggestionSeverity;
-  title: string;
-  detail: string;
-  before?: string;
-  after?: string;
-  apply?: (text: string) => string;
-};
-
-type LTReplacement = { value: string };
-type LTMatch = {
-  message: string;
-  shortMessage?: string;
-  offset: number;
-  length: number;
-  replacements: LTReplacement[];
-  rule?: {
-    id?: string;
-    description?: string;
-    issueType?: string; // e.g. "misspelling", "grammar", "style"
-  };
-  context?: {
-    text?: string;
-    offset?: number;
-    length?: number;
-  };
-};
-
-type LTCheckPayload = {
-  ok: boolean;
-  status?: number;
-  error?: string;
-  data?: {
-    matches?: LTMatch[];
-  } | null;
-};
+import type { Editor, JSONContent } from '@tiptap/react';
+import CommandPalette, { Command, ShortcutHelp } from './CommandPalette';
+import CommentThreads from './CommentThreads';
+import DocList from './DocList';
+import HistoryPanel from './HistoryPanel';
+import RichEditor, { CommentMark, RevealRequest, TextRange } from './RichEditor';
+import SettingsPanel from './SettingsPanel';
+import ShareDialog from './ShareDialog';
+import TemplatesPanel from './TemplatesPanel';
+import TonePanel from './TonePanel';
+import {
+  CheckerSettings,
+  checkDocument,
+  createParagraphCache,
+  loadCheckerSettings,
+  saveCheckerSettings,
+} from './checker';
+import {
+  PlacedThread,
+  anchorKey,
+  createThread,
+  deleteThread,
+  fetchThreads,
+  moveAnchor,
+  placeThreads,
+  rebaseThreads,
+  replyToThread,
+  setThreadStatus,
+} from './comments';
+import {
+  CollabSession,
+  CollabUser,
+  Peer,
+  initials,
+  joinSession,
+  leaveSession,
+  loadCollabUser,
+  peersOf,
+  roomText,
+  saveCollabUser,
+  setSessionUser,
+} from './collab';
+import {
+  Dictionaries,
+  DictionaryIds,
+  DictionaryScope,
+  addWord,
+  fetchWords,
+  inDictionary,
+  loadDictionaryIds,
+  loadTeamKey,
+  removeWord,
+  saveDictionaryIds,
+  saveTeamKey,
+} from './dictionary';
+import { Doc, DocSettings, RemoteCopy, createDoc, deleteDoc, listDocs, putDoc } from './docStore';
+import { Version, VersionReason, deleteVersions, saveVersion } from './history';
+import { WritingGoals, goalsOf, languageToolOptions, rulesForGoals, severityFor } from './goals';
+import { SyncResult, applyPatch, queueRemoteDelete, resolveKeepLocal, resolveTakeRemote, syncOnce } from './docSync';
+import { loadOwnerKey, saveOwnerKey } from './owner';
+import {
+  IgnoreScope,
+  IgnoreState,
+  disabledRules,
+  dismiss,
+  ignorableWord,
+  ignoreRule,
+  ignoreWord,
+  isIgnored,
+  loadIgnores,
+  occurrenceFingerprint,
+  saveIgnores,
+  updateList,
+} from './ignores';
+import {
+  DocFormat,
+  FORMAT_LABEL,
+  IMPORT_ACCEPT,
+  commentsAppendixHtml,
+  exportDoc,
+  importFile,
+  printDoc,
+} from './docFiles';
+import { applySuggestionToText, canApply, diffEdit, hasRange, mergeSuggestions, rebaseSuggestions } from './positions';
+import {
+  CustomRuleDef,
+  LocalRule,
+  compileCustomRule,
+  listRules,
+  loadCustomRules,
+  runRules,
+  saveCustomRules,
+} from './rules';
+import { editorContent, projectText, replaceRanges, replaceText, toOffset } from './richText';
+import { Review, fetchReview, proposalIdOf, proposalSuggestions, resolveProposal } from './sharing';
+import { Bindings, SHORTCUT_ACTIONS, ShortcutAction, actionFor, loadBindings, saveBindings } from './shortcuts';
+import { Template, loadTemplates, saveTemplates } from './templates';
+import { ThreadStatus, findMentions } from './functions/lib/commentsApi';
+import type { EngineStatus, HealthReport } from './functions/lib/healthApi';
+import type { LTLanguage, LTMatch, Suggestion, SuggestionSeverity } from './types';
+
+type Status = EngineStatus;
+
+type SyncState = 'idle' | 'syncing' | 'offline';
 
 const SIDEBAR_ITEMS = [
   { key: 'docs', label: 'Docs' },
@@ -49,112 +111,1280 @@ const SIDEBAR_ITEMS = [
   { key: 'settings', label: 'Settings' },
 ] as const;
 
+type NavKey = (typeof SIDEBAR_ITEMS)[number]['key'];
+
+type SeverityFilter = 'all' | SuggestionSeverity;
+
+const SEVERITY_FILTERS: { value: SeverityFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'critical', label: 'Critical' },
+  { value: 'warning', label: 'Warnings' },
+  { value: 'info', label: 'Tips' },
+];
+
+const ACTIVE_DOC_KEY = 'upcube.activeDoc';
+const SYNC_INTERVAL_MS = 20_000;
+// Comment anchors that moved with the text are written back once editing pauses this long.
+const ANCHOR_SAVE_MS = 2000;
+// Pause this long after typing and the document gets an automatic snapshot.
+const IDLE_SNAPSHOT_MS = 30_000;
+// Health polling: steady cadence while online, backoff from RETRY_MIN up to RETRY_MAX otherwise.
+const HEALTH_POLL_MS = 60_000;
+const HEALTH_RETRY_MIN_MS = 5_000;
+const HEALTH_RETRY_MAX_MS = 120_000;
+// Focus and network events re-poll, but not more often than this.
+const HEALTH_MIN_GAP_MS = 3_000;
+
 export default function App() {
-  // Fake engine status (replace with your real backend healthcheck later)
   const [status, setStatus] = useState<Status>('offline');
-
-  const [activeNav, setActiveNav] = useState<(typeof SIDEBAR_ITEMS)[number]['key']>('docs');
+  const [health, setHealth] = useState<HealthReport | null>(null);
+  const [languages, setLanguages] = useState<LTLanguage[]>([]);
+  const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
+
+  const [activeNav, setActiveNav] = useState<NavKey>('docs');
+  const [docs, setDocs] = useState<Doc[]>([]);
+  const [docId, setDocId] = useState<string | null>(null);
+  // The open document's title, plain text and rich content; written back to `docs` on a debounce.
   const [docTitle, setDocTitle] = useState('Untitled doc');
   const [text, setText] = useState('');
+  const [html, setHtml] = useState('');
+  // What the editor loads; a new key remounts it with fresh content and history.
+  const [editorSeed, setEditorSeed] = useState<{ key: number; content: JSONContent | string }>({ key: 0, content: '' });
+  const [syncState, setSyncState] = useState<SyncState>('idle');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  // Open proposals sent through the open document's share links.
+  const [review, setReview] = useState<Review>({ proposals: [], snapshots: {} });
+  const [reveal, setReveal] = useState<RevealRequest | null>(null);
+  // Set by "PDF / print"; the print runs once the editor is on screen.
+  const [printRequested, setPrintRequested] = useState(false);
+  // Live editing: who we are, the open document's room once it has synced, and who else is in it.
+  const [collabUser, setCollabUser] = useState<CollabUser>(loadCollabUser);
+  const [live, setLive] = useState<CollabSession | null>(null);
+  const [peers, setPeers] = useState<Peer[]>([]);
+  // Comment threads on the open document, anchored in `text` and moved with it.
+  const [threads, setThreads] = useState<PlacedThread[]>([]);
+  const [activeThread, setActiveThread] = useState<string | null>(null);
+  const [commentError, setCommentError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<TextRange | null>(null);
+  const [asideTab, setAsideTab] = useState<'suggestions' | 'comments'>('suggestions');
+  // Bumped by the editor's Comment button to open and focus the comment box.
+  const [composeNonce, setComposeNonce] = useState(0);
+  const [exportComments, setExportComments] = useState(false);
 
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+  // The issue the keyboard is on, and which of its replacements is picked.
+  const [focusedIssue, setFocusedIssue] = useState<string | null>(null);
+  const [choice, setChoice] = useState(0);
   const [isChecking, setIsChecking] = useState(false);
+  const [ignores, setIgnores] = useState<IgnoreState>(loadIgnores);
+  const [dictionaryIds, setDictionaryIds] = useState<DictionaryIds>(loadDictionaryIds);
+  const [teamKey, setTeamKey] = useState(loadTeamKey);
+  const [ownerKey, setOwnerKey] = useState(loadOwnerKey);
+  const [dictionaries, setDictionaries] = useState<Dictionaries>({ personal: [], team: [] });
+  const [checkerSettings, setCheckerSettings] = useState<CheckerSettings>(loadCheckerSettings);
+  const [customRules, setCustomRules] = useState<CustomRuleDef[]>(loadCustomRules);
+  const [templates, setTemplates] = useState<Template[]>(loadTemplates);
+  const [bindings, setBindings] = useState<Bindings>(loadBindings);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  // Per-paragraph LanguageTool results, reused while a paragraph is unchanged.
+  const paragraphCache = useRef(createParagraphCache());
+  const checkRevision = useRef(0);
+
+  const editorRef = useRef<Editor | null>(null);
+  // Latest text and content for async callbacks that outlive the render they started in.
+  const textRef = useRef(text);
+  textRef.current = text;
+  const htmlRef = useRef(html);
+  htmlRef.current = html;
+  const docsRef = useRef(docs);
+  docsRef.current = docs;
+
+  // Load the workspace; a first visit starts with one empty document.
+  useEffect(() => {
+    (async () => {
+      let stored: Doc[] = [];
+      try {
+        stored = await listDocs();
+      } catch {
+        // IndexedDB unavailable (private mode etc.): work in memory.
+      }
+      if (stored.length === 0) {
+        const first = createDoc();
+        putDoc(first).catch(() => {});
+        stored = [first];
+      }
+      setDocs(stored);
+      const last = localStorage.getItem(ACTIVE_DOC_KEY);
+      openDoc(stored.find((d) => d.id === last) ?? stored[0]);
+    })();
+  }, []);
 
-  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  // Debounced autosave of the open document.
+  useEffect(() => {
+    const doc = docsRef.current.find((d) => d.id === docId);
+    if (!doc || (doc.body === text && (doc.content ?? '') === html && doc.title === docTitle)) return;
+    const t = window.setTimeout(saveOpenDoc, 400);
+    return () => window.clearTimeout(t);
+  }, [text, html, docTitle, docId]);
 
+  // Automatic snapshot once typing pauses.
   useEffect(() => {
-    // Real healthcheck against our server-side proxy.
+    if (!docId) return;
+    const t = window.setTimeout(() => snapshot('idle'), IDLE_SNAPSHOT_MS);
+    return () => window.clearTimeout(t);
+  }, [text, docId]);
+
+  // Last-chance save when the tab goes away mid-debounce.
+  const saveRef = useRef(saveOpenDoc);
+  saveRef.current = saveOpenDoc;
+  useEffect(() => {
+    const onHide = () => saveRef.current();
+    window.addEventListener('pagehide', onHide);
+    return () => window.removeEventListener('pagehide', onHide);
+  }, []);
+
+  // Background sync with /api/docs: shortly after local changes, and periodically for remote ones.
+  const syncingRef = useRef(false);
+  const applySyncRef = useRef(applySyncResult);
+  applySyncRef.current = applySyncResult;
+  const runSyncRef = useRef(runSync);
+  runSyncRef.current = runSync;
+
+  useEffect(() => {
+    const t = window.setTimeout(() => runSyncRef.current(), 3000);
+    return () => window.clearTimeout(t);
+  }, [docs]);
+
+  // A new sync key means another owner's documents: save it and sync right away.
+  useEffect(() => {
+    saveOwnerKey(ownerKey);
+    runSyncRef.current();
+  }, [ownerKey]);
+
+  useEffect(() => {
+    const t = window.setInterval(() => runSyncRef.current(), SYNC_INTERVAL_MS);
+    return () => window.clearInterval(t);
+  }, []);
+
+  // Join the open document's room. Until it has synced (or when there is no
+  // collab server) the editor keeps working on the local copy.
+  const sessionRef = useRef<CollabSession | null>(null);
+  const collabUserRef = useRef(collabUser);
+  collabUserRef.current = collabUser;
+  const goLiveRef = useRef(goLive);
+  goLiveRef.current = goLive;
+
+  useEffect(() => {
+    setLive(null);
+    setPeers([]);
+    if (!docId) return;
+    const session = joinSession(docId, collabUserRef.current);
+    sessionRef.current = session;
+    const onPeers = () => setPeers(peersOf(session));
+    const onSync = (synced: boolean) => {
+      if (!synced) return;
+      session.provider.off('sync', onSync);
+      goLiveRef.current(session);
+    };
+    session.provider.awareness.on('change', onPeers);
+    session.provider.on('sync', onSync);
+    return () => {
+      session.provider.awareness.off('change', onPeers);
+      session.provider.off('sync', onSync);
+      if (sessionRef.current === session) sessionRef.current = null;
+      leaveSession(session);
+    };
+  }, [docId]);
+
+  // Reviewers' proposals for the open document, refreshed with the sync.
+  useEffect(() => {
+    setReview({ proposals: [], snapshots: {} });
+    if (!docId) return;
+    let cancelled = false;
+    const load = () =>
+      fetchReview(docId).then(
+        (r) => !cancelled && setReview(r),
+        () => {
+          // Offline or sharing not set up: no proposals to show.
+        },
+      );
+    load();
+    const t = window.setInterval(load, SYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(t);
+    };
+  }, [docId]);
+
+  // Comment threads for the open document, refreshed with the sync.
+  // Anchors as last written to the server, by thread id.
+  const savedAnchors = useRef(new Map<string, string>());
+  useEffect(() => {
+    setThreads([]);
+    setActiveThread(null);
+    setCommentError(null);
+    setSelection(null);
+    if (!docId) return;
+    let cancelled = false;
+    const load = () =>
+      fetchThreads(docId).then(
+        (list) => {
+          if (cancelled) return;
+          for (const t of list) savedAnchors.current.set(t.id, anchorKey(t));
+          setThreads((prev) => placeThreads(list, textRef.current, prev));
+        },
+        () => {
+          // Offline or no database: comments wait for the next round.
+        },
+      );
+    load();
+    const t = window.setInterval(load, SYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(t);
+    };
+  }, [docId]);
+
+  // Write back anchors that have moved with the text.
+  useEffect(() => {
+    const moved = threads.filter((t) => !t.detached && savedAnchors.current.get(t.id) !== anchorKey(t));
+    if (!moved.length) return;
+    const timer = window.setTimeout(() => {
+      for (const t of moved) {
+        const anchor = { offset: t.offset, length: t.length, quote: t.quote };
+        moveAnchor(t.id, anchor).then(
+          () => savedAnchors.current.set(t.id, anchorKey(anchor)),
+          () => {
+            // Still differs from what was saved, so the next change tries again.
+          },
+        );
+      }
+    }, ANCHOR_SAVE_MS);
+    return () => window.clearTimeout(timer);
+  }, [threads]);
+
+  useEffect(() => saveIgnores(ignores), [ignores]);
+  useEffect(() => saveDictionaryIds(dictionaryIds), [dictionaryIds]);
+  useEffect(() => saveTeamKey(teamKey), [teamKey]);
+  useEffect(() => saveCheckerSettings(checkerSettings), [checkerSettings]);
+  useEffect(() => saveCustomRules(customRules), [customRules]);
+  useEffect(() => saveTemplates(templates), [templates]);
+  useEffect(() => saveBindings(bindings), [bindings]);
+
+  useEffect(() => {
+    if (status === 'offline') return;
+    let cancelled = false;
     (async () => {
+      const [personal, team] = await Promise.all([
+        fetchWords('personal', dictionaryIds.personal).catch(() => []),
+        fetchWords('team', dictionaryIds.team).catch(() => []),
+      ]);
+      if (!cancelled) setDictionaries({ personal, team });
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [status, dictionaryIds.personal, dictionaryIds.team]);
+
+  // Sent as LanguageTool's disabledRules; the joined key keeps the check effect stable.
+  const disabledRuleIds = useMemo(() => disabledRules(ignores, docId ?? ''), [ignores, docId]);
+  const disabledKey = disabledRuleIds.join(',');
+
+  // Engine health: poll /api/lt/health, backing off while it is degraded or
+  // offline, and re-poll as soon as the tab regains focus or the network returns.
+  useEffect(() => {
+    let timer: number | undefined;
+    let controller: AbortController | null = null;
+    let failures = 0;
+    let lastPollAt = 0;
+
+    async function poll() {
+      window.clearTimeout(timer);
+      controller?.abort();
+      const current = (controller = new AbortController());
+      lastPollAt = Date.now();
+
+      let report: HealthReport | null = null;
       try {
-        const res = await fetch('/api/lt/health', { method: 'GET' });
-        const json = (await res.json().catch(() => null)) as { ok?: boolean } | null;
-        setStatus(json?.ok ? 'online' : 'offline');
+        const res = await fetch('/api/lt/health', { method: 'GET', cache: 'no-store', signal: current.signal });
+        report = (await res.json().catch(() => null)) as HealthReport | null;
       } catch {
-        setStatus('offline');
+        // Network error: treated as offline below.
       }
-    })();
+      if (current.signal.aborted) return;
+
+      const next: Status = report?.status ?? 'offline';
+      setHealth(report);
+      setStatus(next);
+      if (report?.languages?.length) setLanguages(report.languages);
+
+      failures = next === 'online' ? 0 : failures + 1;
+      const delay =
+        next === 'online' ? HEALTH_POLL_MS : Math.min(HEALTH_RETRY_MAX_MS, HEALTH_RETRY_MIN_MS * 2 ** (failures - 1));
+      timer = window.setTimeout(poll, delay);
+    }
+
+    const pollSoon = () => {
+      if (Date.now() - lastPollAt >= HEALTH_MIN_GAP_MS) poll();
+    };
+    const onVisibility = () => document.visibilityState === 'visible' && pollSoon();
+    const onOffline = () => setStatus('offline');
+
+    poll();
+    window.addEventListener('focus', pollSoon);
+    window.addEventListener('online', poll);
+    window.addEventListener('offline', onOffline);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.clearTimeout(timer);
+      controller?.abort();
+      window.removeEventListener('focus', pollSoon);
+      window.removeEventListener('online', poll);
+      window.removeEventListener('offline', onOffline);
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
   }, []);
 
-  // Debounced suggestion fetch. Falls back to local heuristics when offline.
+  const docSettings: DocSettings = docs.find((d) => d.id === docId)?.settings ?? {};
+  const language = docSettings.language || 'auto';
+  const languageKey = [language, docSettings.motherTongue, ...(docSettings.preferredVariants ?? [])].join('|');
+  const goals = goalsOf(docSettings);
+  const goalsKey = [goals.audience, goals.formality, goals.domain, goals.intent].join('|');
+
+  // Built-in and registered rules, tuned to the document's goals, plus the user's own from Settings.
+  const localRules = useMemo<LocalRule[]>(
+    () => [
+      ...rulesForGoals(listRules(), goals),
+      ...customRules.map(compileCustomRule).filter((r): r is LocalRule => !!r),
+    ],
+    [customRules, goalsKey],
+  );
+
+  // Debounced suggestion fetch. Local rules always run; LanguageTool's results
+  // are merged in when it answers, and local rules stand alone when it can't.
+  // Each run is a new revision; a superseded run is aborted and its result dropped.
   useEffect(() => {
-    if (status !== 'online') {
-      setSuggestions(buildSuggestions(text));
+    const revision = ++checkRevision.current;
+    const local = runRules(text, localRules);
+
+    if (status === 'offline') {
+      setIsChecking(false);
+      setSuggestions(local);
       return;
     }
 
-    const trimmed = text.trim();
-    if (!trimmed) {
+    if (!text.trim()) {
+      setIsChecking(false);
       setSuggestions([]);
       return;
     }
 
+    const controller = new AbortController();
+    const isCurrent = () => revision === checkRevision.current && !controller.signal.aborted;
+
     const t = window.setTimeout(async () => {
       setIsChecking(true);
       try {
-        const res = await fetch('/api/lt/check', {
-          method: 'POST',
-          headers: { 'content-type': 'application/json' },
-          body: JSON.stringify({ text: trimmed, language: 'auto' }),
-        });
-        const payload = (await res.json().catch(() => null)) as LTCheckPayload | null;
-
-        if (!payload?.ok || !payload.data?.matches) {
-          setSuggestions(buildSuggestions(text));
+        const result = await checkDocument(
+          text,
+          {
+            language,
+            motherTongue: docSettings.motherTongue,
+            preferredVariants: docSettings.preferredVariants,
+            disabledRules: disabledRuleIds,
+            ...languageToolOptions(goals),
+            dictionaries: dictionaryIds,
+            maxConcurrency: checkerSettings.maxConcurrency,
+          },
+          paragraphCache.current,
+          controller.signal,
+        );
+        if (!isCurrent()) return;
+
+        // Nothing came back at all; a partial result is still worth showing.
+        if (result.total > 0 && result.failed === result.total) {
+          setSuggestions(rebaseSuggestions(local, diffEdit(text, textRef.current)));
           return;
         }
 
-        setSuggestions(mapLanguageToolMatchesToSuggestions(payload.data.matches, text));
+        const detected = result.detectedLanguage;
+        setDetectedLanguage(language === 'auto' ? detected?.name || detected?.code || null : null);
+
+        // The user may have kept typing while the check was in flight.
+        const checked = mergeSuggestions(mapLanguageToolMatchesToSuggestions(result.matches, text, goals), local);
+        setSuggestions(rebaseSuggestions(checked, diffEdit(text, textRef.current)));
       } catch {
-        setSuggestions(buildSuggestions(text));
+        if (isCurrent()) setSuggestions(rebaseSuggestions(local, diffEdit(text, textRef.current)));
       } finally {
-        setIsChecking(false);
+        // A newer run owns the spinner now; clearing it here would flicker.
+        if (revision === checkRevision.current) setIsChecking(false);
       }
     }, 450);
 
-    return () => window.clearTimeout(t);
-  }, [text, status]);
+    return () => {
+      window.clearTimeout(t);
+      controller.abort();
+    };
+  }, [
+    text,
+    status,
+    disabledKey,
+    dictionaryIds.personal,
+    dictionaryIds.team,
+    languageKey,
+    goalsKey,
+    checkerSettings.maxConcurrency,
+    localRules,
+  ]);
+
+  const visibleSuggestions = useMemo(
+    () =>
+      suggestions.filter(
+        (s) =>
+          !isIgnored(s, text, ignores, docId ?? '') &&
+          !(s.issueType === 'misspelling' && inDictionary(s.before, dictionaries)),
+      ),
+    [suggestions, text, ignores, docId, dictionaries],
+  );
+
+  // What the aside lists, in document order; the keyboard steps through the ranged ones.
+  const shownSuggestions = useMemo(() => bySeverity(visibleSuggestions, filter), [visibleSuggestions, filter]);
+  const issues = useMemo(() => shownSuggestions.filter(hasRange), [shownSuggestions]);
+
+  const reviewSuggestions = useMemo(() => proposalSuggestions(review, text), [review, text]);
+
+  const commentMarks = useMemo<CommentMark[]>(
+    () => threads.filter((t) => t.status === 'open' && !t.detached),
+    [threads],
+  );
+  // Names to offer after @: whoever is here and whoever has commented.
+  const people = useMemo(() => {
+    const authors = threads.flatMap((t) => t.comments.map((c) => c.author));
+    const names = [collabUser.name, ...peers.map((p) => p.name), ...authors];
+    return [...new Set(names.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+  }, [collabUser.name, peers, threads]);
+  const printAppendix = useMemo(() => (exportComments ? commentsAppendixHtml(threads) : ''), [exportComments, threads]);
 
   const counts = useMemo(() => {
-    const c = suggestions.filter(s => s.severity === 'critical').length;
-    const w = suggestions.filter(s => s.severity === 'warning').length;
-    const i = suggestions.filter(s => s.severity === 'info').length;
-    return { c, w, i, total: suggestions.length };
-  }, [suggestions]);
-
-  function applySuggestion(s: Suggestion) {
-    if (!s.apply) return;
-    const next = s.apply(text);
+    const c = visibleSuggestions.filter(s => s.severity === 'critical').length;
+    const w = visibleSuggestions.filter(s => s.severity === 'warning').length;
+    const i = visibleSuggestions.filter(s => s.severity === 'info').length;
+    return { c, w, i, total: visibleSuggestions.length };
+  }, [visibleSuggestions]);
+
+  /* ----------------------------- Documents ----------------------------- */
+
+  function saveOpenDoc() {
+    const doc = docsRef.current.find((d) => d.id === docId);
+    const content = htmlRef.current || undefined;
+    if (!doc || (doc.body === textRef.current && doc.content === content && doc.title === docTitle)) return;
+    const next = { ...doc, body: textRef.current, content, title: docTitle, updatedAt: Date.now() };
+    storeDoc(next);
+  }
+
+  // docsRef is updated right away so code running before the next render sees the change.
+  function storeDoc(doc: Doc) {
+    const next = [doc, ...docsRef.current.filter((d) => d.id !== doc.id)];
+    docsRef.current = next;
+    setDocs(next);
+    putDoc(doc).catch(() => {});
+  }
+
+  function openDoc(doc: Doc) {
+    setDocId(doc.id);
+    showDocContent(doc);
+    localStorage.setItem(ACTIVE_DOC_KEY, doc.id);
+  }
+
+  function showDocContent(doc: Doc) {
+    textRef.current = doc.body;
+    htmlRef.current = doc.content ?? '';
+    setDocTitle(doc.title);
+    setText(doc.body);
+    setHtml(doc.content ?? '');
+    setEditorSeed((prev) => ({ key: prev.key + 1, content: editorContent(doc) }));
+    setSuggestions([]);
+    setDetectedLanguage(null);
+  }
+
+  function switchDoc(id: string) {
+    if (id === docId) return;
+    saveOpenDoc();
+    const doc = docsRef.current.find((d) => d.id === id);
+    if (doc) openDoc(doc);
+  }
+
+  function newDoc(fields?: Partial<Pick<Doc, 'title' | 'body' | 'content' | 'settings'>>) {
+    saveOpenDoc();
+    const doc = createDoc(fields);
+    storeDoc(doc);
+    openDoc(doc);
+    setActiveNav('docs');
+  }
+
+  async function importDoc(file: File) {
+    try {
+      newDoc(await importFile(file));
+    } catch {
+      window.alert(`Couldn’t import “${file.name}”. Check that it is a Markdown, text, HTML or Word file.`);
+    }
+  }
+
+  async function exportOpenDoc(format: DocFormat) {
+    try {
+      const doc = { title: docTitle, body: text, content: htmlRef.current || undefined };
+      await exportDoc(format, doc, exportComments ? threads : []);
+    } catch {
+      window.alert('The export failed. Please try again.');
+    }
+  }
+
+  useEffect(() => {
+    if (!printRequested || activeNav !== 'docs') return;
+    setPrintRequested(false);
+    printDoc(docTitle);
+  }, [printRequested, activeNav, docTitle]);
+
+  function printOpenDoc() {
+    setActiveNav('docs');
+    setPrintRequested(true);
+  }
+
+  function renameDoc(id: string, title: string) {
+    if (id === docId) {
+      setDocTitle(title);
+      return;
+    }
+    const doc = docsRef.current.find((d) => d.id === id);
+    if (doc) storeDoc({ ...doc, title, updatedAt: Date.now() });
+  }
+
+  function duplicateDoc(id: string) {
+    const doc = docsRef.current.find((d) => d.id === id);
+    if (!doc) return;
+    const body = id === docId ? text : doc.body;
+    const content = id === docId ? htmlRef.current || undefined : doc.content;
+    const title = id === docId ? docTitle : doc.title;
+    newDoc({ title: `${title} (copy)`, body, content });
+  }
+
+  function removeDoc(id: string) {
+    const doc = docsRef.current.find((d) => d.id === id);
+    if (!doc || !window.confirm(`Delete “${doc.title || 'Untitled doc'}”? This can't be undone.`)) return;
+
+    deleteDoc(id).catch(() => {});
+    deleteVersions(id).catch(() => {});
+    queueRemoteDelete(doc);
+    setIgnores((prev) => {
+      const { [id]: _, ...documents } = prev.documents;
+      return { ...prev, documents };
+    });
+
+    const rest = docsRef.current.filter((d) => d.id !== id);
+    docsRef.current = rest;
+    setDocs(rest);
+    if (id !== docId) return;
+    if (rest.length) {
+      openDoc(rest[0]);
+    } else {
+      const fresh = createDoc();
+      storeDoc(fresh);
+      openDoc(fresh);
+    }
+  }
+
+  async function runSync() {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncState('syncing');
+    try {
+      saveOpenDoc();
+      const result = await syncOnce(docsRef.current);
+      applySyncRef.current(result);
+      setSyncState('idle');
+    } catch {
+      setSyncState('offline');
+    } finally {
+      syncingRef.current = false;
+    }
+  }
+
+  // The room's copy wins over ours; ours is kept as a version if they differ.
+  function goLive(session: CollabSession) {
+    if (session.docId !== docId) return;
+    saveOpenDoc();
+    const remote = roomText(session);
+    if (remote !== null && remote !== textRef.current) snapshot('collab');
+    setLive(session);
+    setEditorSeed((prev) => ({
+      key: prev.key + 1,
+      content: editorContent({ body: textRef.current, content: htmlRef.current || undefined }),
+    }));
+  }
+
+  function renameCollabUser() {
+    const name = window.prompt('Your name, as others see it', collabUser.name)?.trim();
+    if (!name) return;
+    const user = { ...collabUser, name };
+    setCollabUser(user);
+    saveCollabUser(user);
+    if (sessionRef.current) setSessionUser(sessionRef.current, user);
+  }
+
+  function applySyncResult(result: SyncResult) {
+    if (!result.patches.length && !result.created.length && !result.removed.length) return;
+
+    // Edits typed while the sync ran must count as local changes.
+    saveOpenDoc();
+
+    const removed = new Set(result.removed);
+    const patches = new Map(result.patches.map((p) => [p.id, p]));
+    const next: Doc[] = [];
+    for (const doc of docsRef.current) {
+      if (removed.has(doc.id)) {
+        deleteDoc(doc.id).catch(() => {});
+        continue;
+      }
+      const patch = patches.get(doc.id);
+      let updated = patch ? applyPatch(doc, patch) : doc;
+      // In a live session everyone is editing the same text; whoever saves last, nothing is lost.
+      const isLive = updated.id === docId && live?.docId === docId;
+      if (isLive && updated.conflict) updated = resolveKeepLocal(updated);
+      if (updated !== doc) putDoc(updated).catch(() => {});
+      const changed = updated.body !== doc.body || updated.content !== doc.content || updated.title !== doc.title;
+      if (updated.id === docId && changed) {
+        // The room already has the text; only a new title comes through here.
+        if (isLive) setDocTitle(updated.title);
+        else showDocContent(updated);
+      }
+      next.push(updated);
+    }
+    for (const doc of result.created) {
+      putDoc(doc).catch(() => {});
+      next.push(doc);
+    }
+
+    next.sort((a, b) => b.updatedAt - a.updatedAt);
+    docsRef.current = next;
+    setDocs(next);
+
+    if (docId && removed.has(docId)) {
+      const fallback = next[0] ?? createDoc();
+      if (!next.length) storeDoc(fallback);
+      openDoc(fallback);
+    }
+  }
+
+  function resolveConflict(choice: 'local' | 'remote' | 'copy') {
+    saveOpenDoc();
+    const doc = docsRef.current.find((d) => d.id === docId);
+    if (!doc?.conflict) return;
+
+    if (choice === 'remote') {
+      const next = resolveTakeRemote(doc);
+      storeDoc(next);
+      showDocContent(next);
+      return;
+    }
+    if (choice === 'copy') {
+      const { title, body, content } = doc.conflict;
+      storeDoc(createDoc({ title: `${title} (server copy)`, body, content }));
+    }
+    storeDoc(resolveKeepLocal(doc));
+  }
+
+  const openConflict = docs.find((d) => d.id === docId)?.conflict;
+
+  function updateDocSettings(patch: Partial<DocSettings>) {
+    const doc = docsRef.current.find((d) => d.id === docId);
+    if (!doc) return;
+    storeDoc({ ...doc, settings: { ...doc.settings, ...patch }, updatedAt: Date.now() });
+  }
+
+  /* ----------------------------- Editing ----------------------------- */
+
+  // Every change comes from the editor and goes through here so pending
+  // suggestions follow the edit. Undo and redo are the editor's own.
+  function updateText(next: string, nextHtml: string) {
+    htmlRef.current = nextHtml;
+    setHtml(nextHtml);
+    const edit = diffEdit(textRef.current, next);
+    if (!edit) return;
+    textRef.current = next;
+    setSuggestions((prev) => rebaseSuggestions(prev, edit));
+    setThreads((prev) => rebaseThreads(prev, edit, next));
     setText(next);
+  }
+
+  function undoEdit() {
+    editorRef.current?.chain().focus().undo().run();
+  }
+
+  function redoEdit() {
+    editorRef.current?.chain().focus().redo().run();
+  }
+
+  // Jump from a panel (e.g. Tone & style) to a range in the editor.
+  function revealRange(offset: number, length: number) {
+    setActiveNav('docs');
+    setReveal({ offset, length, nonce: Date.now() });
+  }
+
+  function snapshot(reason: VersionReason, name?: string) {
+    if (!docId) return Promise.resolve(null);
+    const content = htmlRef.current || undefined;
+    return saveVersion({ docId, title: docTitle, body: textRef.current, content, reason, name }).catch(() => null);
+  }
+
+  function restoreVersion(v: Version) {
+    snapshot('restore');
+    editorRef.current?.commands.setContent(editorContent(v), true);
+    setHistoryOpen(false);
+  }
+
+  function applySuggestion(s: Suggestion, replacement?: string) {
+    const editor = editorRef.current;
+    const next = applySuggestionToText(text, s, replacement);
+    if (next === null) {
+      // Stale: the text under the suggestion changed since it was computed.
+      setSuggestions((prev) => prev.filter((x) => x.id !== s.id));
+      return;
+    }
+    if (!editor) return;
+    snapshot('apply', `Before “${s.title}”`);
+
+    // The fix lands as one edit in the editor, inside whatever formatting surrounds it.
+    const edit = diffEdit(text, next);
+    if (edit) replaceText(editor, edit.from, edit.to - edit.from, next.slice(edit.from, edit.from + edit.inserted));
+    editor.commands.focus();
+  }
+
+  /** Accept a reviewer's proposal: edits land like any suggestion, comments are marked resolved. */
+  function acceptProposal(s: Suggestion) {
+    if (s.replacements) {
+      if (applySuggestionToText(text, s) === null) return;
+      applySuggestion(s);
+    }
+    settleProposal(s, 'accepted');
+  }
 
-    // Keep cursor usable
-    requestAnimationFrame(() => {
-      textareaRef.current?.focus();
+  function settleProposal(s: Suggestion, status: 'accepted' | 'rejected') {
+    const id = proposalIdOf(s);
+    if (!id) return;
+    setReview((prev) => ({ ...prev, proposals: prev.proposals.filter((p) => p.id !== id) }));
+    resolveProposal(id, status).catch(() => {
+      // Still open on the server; it comes back with the next refresh.
     });
   }
 
+  function dismissSuggestion(s: Suggestion) {
+    const fingerprint = occurrenceFingerprint(s, text);
+    setIgnores((prev) => updateList(prev, 'document', docId ?? '', (l) => dismiss(l, fingerprint)));
+  }
+
+  async function changeDictionary(scope: DictionaryScope, word: string, action: 'add' | 'remove') {
+    try {
+      const id = dictionaryIds[scope];
+      const words =
+        action === 'add' ? await addWord(scope, id, word, teamKey) : await removeWord(scope, id, word, teamKey);
+      setDictionaries((prev) => ({ ...prev, [scope]: words }));
+    } catch (e) {
+      // Offline or no KV binding: the suggestion simply stays visible. Team
+      // lists also refuse changes without the team key, which is worth saying.
+      if (scope === 'team') window.alert((e as Error).message);
+    }
+  }
+
+  function ignoreSuggestion(s: Suggestion, what: 'rule' | 'word', scope: IgnoreScope) {
+    setIgnores((prev) =>
+      updateList(prev, scope, docId ?? '', (l) => {
+        if (what === 'rule') return s.ruleId ? ignoreRule(l, { id: s.ruleId, label: s.title }) : l;
+        const word = ignorableWord(s);
+        return word ? ignoreWord(l, word) : l;
+      }),
+    );
+  }
+
+  /* ----------------------------- Comments ----------------------------- */
+
+  async function addComment(body: string) {
+    if (!docId || !selection) return false;
+    const anchor = { ...selection, quote: text.slice(selection.offset, selection.offset + selection.length) };
+    try {
+      const thread = await createThread(docId, anchor, {
+        author: collabUser.name,
+        body,
+        mentions: findMentions(body, people),
+      });
+      savedAnchors.current.set(thread.id, anchorKey(thread));
+      // The text may have moved on while the request was out.
+      setThreads((prev) => [...prev, ...placeThreads([thread], textRef.current, [])]);
+      setActiveThread(thread.id);
+      setCommentError(null);
+      return true;
+    } catch (e) {
+      setCommentError((e as Error).message);
+      return false;
+    }
+  }
+
+  async function replyToComment(thread: PlacedThread, body: string) {
+    try {
+      const comment = await replyToThread(thread.id, {
+        author: collabUser.name,
+        body,
+        mentions: findMentions(body, people),
+      });
+      // A reply reopens a resolved thread.
+      setThreads((prev) =>
+        prev.map((t) =>
+          t.id === thread.id ? { ...t, status: 'open', resolvedBy: '', comments: [...t.comments, comment] } : t,
+        ),
+      );
+      setCommentError(null);
+      return true;
+    } catch (e) {
+      setCommentError((e as Error).message);
+      return false;
+    }
+  }
+
+  async function changeThreadStatus(thread: PlacedThread, status: ThreadStatus) {
+    try {
+      await setThreadStatus(thread.id, status, collabUser.name);
+      const resolvedBy = status === 'resolved' ? collabUser.name : '';
+      setThreads((prev) => prev.map((t) => (t.id === thread.id ? { ...t, status, resolvedBy } : t)));
+      setCommentError(null);
+    } catch (e) {
+      setCommentError((e as Error).message);
+    }
+  }
+
+  async function removeThread(thread: PlacedThread) {
+    try {
+      await deleteThread(thread.id);
+      savedAnchors.current.delete(thread.id);
+      setThreads((prev) => prev.filter((t) => t.id !== thread.id));
+    } catch (e) {
+      setCommentError((e as Error).message);
+    }
+  }
+
+  function showThread(thread: PlacedThread) {
+    setActiveThread(thread.id);
+    if (!thread.detached) revealRange(thread.offset, thread.length);
+  }
+
+  function openThread(id: string) {
+    setActiveThread(id);
+    setAsideTab('comments');
+  }
+
+  function composeComment() {
+    setAsideTab('comments');
+    setComposeNonce((n) => n + 1);
+  }
+
+  /* ----------------------------- Keyboard ----------------------------- */
+
+  // Plain-text offset of the editor's caret (the start of its selection).
+  function caretOffset() {
+    const editor = editorRef.current;
+    if (!editor || editor.isDestroyed) return 0;
+    return toOffset(projectText(editor.state.doc), editor.state.selection.from);
+  }
+
+  function focusIssue(s: Suggestion, shift = 0) {
+    setFocusedIssue(s.id);
+    setChoice(0);
+    setAsideTab('suggestions');
+    revealRange(s.offset! + shift, s.length!);
+  }
+
+  // Re-checks give issues new ids; then the caret says where the keyboard was.
+  function currentIssue() {
+    const focused = issues.find((s) => s.id === focusedIssue);
+    if (focused) return focused;
+    const caret = caretOffset();
+    return issues.find((s) => s.offset! <= caret && caret <= s.offset! + s.length!) ?? null;
+  }
+
+  function stepIssue(dir: 1 | -1) {
+    if (!issues.length) return;
+    const at = issues.findIndex((s) => s.id === focusedIssue);
+    let next: Suggestion | undefined;
+    if (at !== -1) {
+      next = issues[at + dir];
+    } else {
+      const caret = caretOffset();
+      next = dir === 1 ? issues.find((s) => s.offset! >= caret) : [...issues].reverse().find((s) => s.offset! < caret);
+    }
+    // Past either end, wrap around.
+    focusIssue(next ?? (dir === 1 ? issues[0] : issues[issues.length - 1]));
+  }
+
+  // After handling `s`, move on to the first issue past it. `shift` is how far
+  // the text after `s` moved, since the list hasn't caught up with the edit yet.
+  function focusAfter(s: Suggestion, shift = 0) {
+    const next = issues.find((x) => x.offset! >= s.offset! + s.length! && x.id !== s.id);
+    if (next) focusIssue(next, shift);
+    else setFocusedIssue(null);
+  }
+
+  function choiceFor(s: Suggestion) {
+    return s.id === focusedIssue ? s.replacements?.[choice] : undefined;
+  }
+
+  function applyIssue() {
+    const s = currentIssue();
+    if (!s) return stepIssue(1);
+    if (!canApply(s)) return;
+    const value = choiceFor(s) ?? s.replacements![0];
+    const stale = applySuggestionToText(text, s, value) === null;
+    applySuggestion(s, value);
+    focusAfter(s, stale ? 0 : value.length - s.length!);
+  }
+
+  function cycleReplacement() {
+    const s = currentIssue();
+    if (!s) return stepIssue(1);
+    const count = s.replacements?.length ?? 0;
+    if (count < 2) return;
+    if (s.id === focusedIssue) {
+      setChoice((c) => (c + 1) % count);
+    } else {
+      setFocusedIssue(s.id);
+      setChoice(1);
+    }
+    setAsideTab('suggestions');
+  }
+
+  function dismissIssue() {
+    const s = currentIssue();
+    if (!s) return stepIssue(1);
+    dismissSuggestion(s);
+    focusAfter(s);
+  }
+
+  /**
+   * Apply every listed issue from the same rule as the current one, each with
+   * its top replacement (or the one picked for it), as one undoable edit.
+   */
+  function applyRule() {
+    const s = currentIssue();
+    const editor = editorRef.current;
+    if (!s) return stepIssue(1);
+    if (!editor) return;
+    const key = ruleKey(s);
+    const changes: { offset: number; length: number; value: string }[] = [];
+    let end = -1;
+    for (const x of visibleSuggestions) {
+      if (!hasRange(x) || ruleKey(x) !== key || !x.replacements?.length || x.offset! < end) continue;
+      const value = choiceFor(x) ?? x.replacements[0];
+      if (applySuggestionToText(text, x, value) === null) continue;
+      changes.push({ offset: x.offset!, length: x.length!, value });
+      end = x.offset! + x.length!;
+    }
+    if (!changes.length) return;
+    snapshot('apply', `Before all “${s.title}”`);
+    replaceRanges(editor, changes);
+    editor.commands.focus();
+    setFocusedIssue(null);
+  }
+
+  function runIssueAction(action: ShortcutAction) {
+    if (action === 'nextIssue') stepIssue(1);
+    else if (action === 'prevIssue') stepIssue(-1);
+    else if (action === 'applyTop') applyIssue();
+    else if (action === 'cycleReplacement') cycleReplacement();
+    else if (action === 'dismiss') dismissIssue();
+    else if (action === 'applyAllRule') applyRule();
+  }
+
+  function onShortcut(e: KeyboardEvent) {
+    // The editor or a field already used the key.
+    if (e.defaultPrevented) return;
+    const action = actionFor(bindings, e);
+    if (!action) return;
+    if (action === 'palette') {
+      setHelpOpen(false);
+      setPaletteOpen((v) => !v);
+    } else if (action === 'help') {
+      setPaletteOpen(false);
+      setHelpOpen((v) => !v);
+    } else {
+      // Issue keys work on the editor, so only there and with nothing open over it.
+      if (activeNav !== 'docs' || paletteOpen || helpOpen || historyOpen || shareOpen) return;
+      runIssueAction(action);
+    }
+    e.preventDefault();
+  }
+
+  const shortcutRef = useRef(onShortcut);
+  shortcutRef.current = onShortcut;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  function chooseImport() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = IMPORT_ACCEPT;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) importDoc(file);
+    };
+    input.click();
+  }
+
+  function paletteCommands(): Command[] {
+    const issueActions = SHORTCUT_ACTIONS.filter((a) => a.id !== 'palette' && a.id !== 'help');
+    return [
+      ...SIDEBAR_ITEMS.map((item) => ({
+        id: `nav-${item.key}`,
+        group: 'Go to',
+        label: item.label,
+        run: () => setActiveNav(item.key),
+      })),
+      { id: 'doc-new', group: 'Document', label: 'New document', run: () => newDoc() },
+      {
+        id: 'doc-duplicate',
+        group: 'Document',
+        label: 'Duplicate document',
+        disabled: !docId,
+        run: () => docId && duplicateDoc(docId),
+      },
+      { id: 'doc-import', group: 'Document', label: 'Import file…', run: chooseImport },
+      ...(Object.keys(FORMAT_LABEL) as DocFormat[]).map((format) => ({
+        id: `doc-export-${format}`,
+        group: 'Document',
+        label: `Export as ${FORMAT_LABEL[format]}`,
+        run: () => exportOpenDoc(format),
+      })),
+      { id: 'doc-print', group: 'Document', label: 'PDF / print…', run: printOpenDoc },
+      {
+        id: 'doc-comments',
+        group: 'Document',
+        label: exportComments ? 'Leave comments out of exports' : 'Include comments in exports',
+        run: () => setExportComments((v) => !v),
+      },
+      { id: 'doc-share', group: 'Document', label: 'Share…', disabled: !docId, run: () => setShareOpen(true) },
+      { id: 'doc-history', group: 'Document', label: 'History', disabled: !docId, run: () => setHistoryOpen(true) },
+      {
+        id: 'doc-comment',
+        group: 'Document',
+        label: 'Comment on the selection',
+        disabled: !selection,
+        run: composeComment,
+      },
+      ...SEVERITY_FILTERS.map((f) => ({
+        id: `filter-${f.value}`,
+        group: 'Filter',
+        label: f.value === 'all' ? 'Show all suggestions' : `Show ${f.label.toLowerCase()} only`,
+        run: () => {
+          setFilter(f.value);
+          setActiveNav('docs');
+          setAsideTab('suggestions');
+        },
+      })),
+      ...issueActions.map((a) => ({
+        id: `issue-${a.id}`,
+        group: 'Suggestions',
+        label: a.label,
+        binding: bindings[a.id],
+        disabled: !issues.length || activeNav !== 'docs',
+        run: () => runIssueAction(a.id),
+      })),
+      {
+        id: 'help-shortcuts',
+        group: 'Help',
+        label: 'Keyboard shortcuts',
+        binding: bindings.help,
+        run: () => setHelpOpen(true),
+      },
+      { id: 'help-rebind', group: 'Help', label: 'Change keyboard shortcuts', run: () => setActiveNav('settings') },
+    ];
+  }
+
   return (
-    <div className="h-screen w-screen bg-app flex flex-col text-ink">
+    <div className="h-screen w-screen bg-app flex flex-col text-ink print:block print:h-auto print:w-auto print:bg-white">
       <TopBar
         title={docTitle}
         onTitleChange={setDocTitle}
         status={status}
+        health={health}
+        syncState={syncState}
         counts={counts}
+        languages={languages}
+        language={language}
+        detectedLanguage={detectedLanguage}
+        onLanguageChange={(code) => updateDocSettings({ language: code })}
+        onImport={importDoc}
+        onExport={exportOpenDoc}
+        onPrint={printOpenDoc}
+        onShare={docId ? () => setShareOpen(true) : undefined}
+        includeComments={exportComments}
+        onIncludeCommentsChange={setExportComments}
+        peers={peers}
+        onRename={renameCollabUser}
       />
 
-      <div className="flex flex-1 overflow-hidden">
-        <Sidebar active={activeNav} onChange={setActiveNav} />
+      <div className="flex flex-1 overflow-hidden print:block print:overflow-visible">
+        <Sidebar active={activeNav} onChange={setActiveNav}>
+          {activeNav === 'docs' && (
+            <DocList
+              docs={docs}
+              activeId={docId}
+              onOpen={switchDoc}
+              onCreate={() => newDoc()}
+              onRename={renameDoc}
+              onDuplicate={duplicateDoc}
+              onDelete={removeDoc}
+            />
+          )}
+        </Sidebar>
         <MainShell>
-          <EditorAndSuggestions
-            status={status}
-            text={text}
-            setText={setText}
-            textareaRef={textareaRef}
-            suggestions={suggestions}
-            isChecking={isChecking}
-            onApply={applySuggestion}
-          />
+          {activeNav === 'settings' ? (
+            <SettingsPanel
+              ignores={ignores}
+              docId={docId ?? ''}
+              onIgnoresChange={setIgnores}
+              dictionaryIds={dictionaryIds}
+              onDictionaryIdsChange={setDictionaryIds}
+              teamKey={teamKey}
+              onTeamKeyChange={setTeamKey}
+              ownerKey={ownerKey}
+              onOwnerKeyChange={setOwnerKey}
+              dictionaries={dictionaries}
+              onRemoveWord={(scope, word) => changeDictionary(scope, word, 'remove')}
+              languages={languages}
+              docSettings={docSettings}
+              onDocSettingsChange={updateDocSettings}
+              customRules={customRules}
+              onCustomRulesChange={setCustomRules}
+              checkerSettings={checkerSettings}
+              onCheckerSettingsChange={setCheckerSettings}
+              bindings={bindings}
+              onBindingsChange={setBindings}
+              onShowShortcuts={() => setHelpOpen(true)}
+              health={health}
+            />
+          ) : activeNav === 'templates' ? (
+            <TemplatesPanel
+              templates={templates}
+              onTemplatesChange={setTemplates}
+              openDoc={
+                docId ? { title: docTitle, body: text, content: html || undefined, settings: docSettings } : null
+              }
+              onCreate={newDoc}
+            />
+          ) : activeNav === 'tone' ? (
+            <TonePanel text={text} onReveal={revealRange} />
+          ) : (
+            <EditorAndSuggestions
+              title={docTitle}
+              status={status}
+              text={text}
+              onTextChange={updateText}
+              editorSeed={editorSeed}
+              editorRef={editorRef}
+              collab={live && live.docId === docId ? { session: live, user: collabUser } : undefined}
+              commentMarks={commentMarks}
+              activeComment={activeThread}
+              onCommentClick={openThread}
+              onSelectionChange={setSelection}
+              onComment={composeComment}
+              asideTab={asideTab}
+              onAsideTabChange={setAsideTab}
+              openComments={commentMarks.length}
+              printAppendix={printAppendix}
+              comments={
+                <CommentThreads
+                  threads={threads}
+                  me={collabUser.name}
+                  people={people}
+                  selection={selection && text.slice(selection.offset, selection.offset + selection.length)}
+                  composeNonce={composeNonce}
+                  activeId={activeThread}
+                  error={commentError}
+                  onActivate={showThread}
+                  onCreate={addComment}
+                  onReply={replyToComment}
+                  onSetStatus={changeThreadStatus}
+                  onDelete={removeThread}
+                />
+              }
+              suggestions={visibleSuggestions}
+              shown={shownSuggestions}
+              filter={filter}
+              onFilterChange={setFilter}
+              focusedId={focusedIssue}
+              choice={choice}
+              reviews={reviewSuggestions}
+              onAcceptReview={acceptProposal}
+              onRejectReview={(s) => settleProposal(s, 'rejected')}
+              isChecking={isChecking}
+              onApply={applySuggestion}
+              onDismiss={dismissSuggestion}
+              onIgnore={ignoreSuggestion}
+              onAddToDictionary={(s, scope) => s.before && changeDictionary(scope, s.before, 'add')}
+              conflict={openConflict}
+              onResolveConflict={resolveConflict}
+              reveal={reveal}
+              onRevealed={() => setReveal(null)}
+              toolbar={
+                <>
+                  <button
+                    className="btn-ghost"
+                    onClick={undoEdit}
+                    disabled={!editorRef.current?.can().undo()}
+                    title="Undo (Ctrl+Z)"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    className="btn-ghost"
+                    onClick={redoEdit}
+                    disabled={!editorRef.current?.can().redo()}
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    Redo
+                  </button>
+                  <button className="btn-ghost" onClick={() => setHistoryOpen(true)} disabled={!docId}>
+                    History
+                  </button>
+                </>
+              }
+            />
+          )}
         </MainShell>
       </div>
+
+      {historyOpen && docId && (
+        <HistoryPanel
+          docId={docId}
+          currentText={text}
+          onSaveVersion={(name) => snapshot('manual', name)}
+          onRestore={restoreVersion}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {shareOpen && docId && (
+        <ShareDialog
+          doc={{ docId, title: docTitle, body: text, content: html || undefined }}
+          onClose={() => setShareOpen(false)}
+        />
+      )}
+
+      {paletteOpen && <CommandPalette commands={paletteCommands()} onClose={() => setPaletteOpen(false)} />}
+
+      {helpOpen && <ShortcutHelp bindings={bindings} onClose={() => setHelpOpen(false)} />}
     </div>
   );
 }
@@ -165,15 +1395,43 @@ function TopBar({
   title,
   onTitleChange,
   status,
+  health,
+  syncState,
   counts,
+  languages,
+  language,
+  detectedLanguage,
+  onLanguageChange,
+  onImport,
+  onExport,
+  onPrint,
+  onShare,
+  includeComments,
+  onIncludeCommentsChange,
+  peers,
+  onRename,
 }: {
   title: string;
   onTitleChange: (v: string) => void;
   status: Status;
+  health: HealthReport | null;
+  syncState: SyncState;
   counts: { c: number; w: number; i: number; total: number };
+  languages: LTLanguage[];
+  language: string;
+  detectedLanguage: string | null;
+  onLanguageChange: (code: string) => void;
+  onImport: (file: File) => void;
+  onExport: (format: DocFormat) => void;
+  onPrint: () => void;
+  onShare?: () => void;
+  includeComments: boolean;
+  onIncludeCommentsChange: (v: boolean) => void;
+  peers: Peer[];
+  onRename: () => void;
 }) {
   return (
-    <header className="h-12 bg-surface border-b border-line flex items-center px-4 md:px-6 gap-3">
+    <header className="h-12 bg-surface border-b border-line flex items-center px-4 md:px-6 gap-3 print:hidden">
       <div className="flex items-center gap-2 min-w-0">
         <div className="h-7 w-7 rounded-md bg-neutral-100 border border-line" />
         <input
@@ -184,24 +1442,191 @@ function TopBar({
       </div>
 
       <div className="ml-auto flex items-center gap-2">
-        <StatusPill status={status} />
+        <span className="hidden lg:inline text-[12px] text-muted">
+          {syncState === 'syncing' ? 'Syncing…' : syncState === 'offline' ? 'Saved locally' : 'Saved'}
+        </span>
+        <LanguagePicker
+          languages={languages}
+          value={language}
+          detected={detectedLanguage}
+          onChange={onLanguageChange}
+        />
+        <StatusPill status={status} health={health} />
         <MiniCounts counts={counts} />
 
-        <button className="btn-ghost hidden sm:inline-flex">Docs</button>
-        <button className="btn-primary hidden sm:inline-flex">Share</button>
+        <DocsMenu
+          onImport={onImport}
+          onExport={onExport}
+          onPrint={onPrint}
+          includeComments={includeComments}
+          onIncludeCommentsChange={onIncludeCommentsChange}
+        />
+        <button className="btn-primary hidden sm:inline-flex" onClick={onShare} disabled={!onShare}>
+          Share
+        </button>
 
-        <div className="h-8 w-8 rounded-full bg-neutral-100 border border-line" />
+        <PresenceAvatars peers={peers} onRename={onRename} />
       </div>
     </header>
   );
 }
 
-function StatusPill({ status }: { status: Status }) {
-  const isOnline = status === 'online';
+// Everyone with the document open, this tab first. Without a live session
+// there is no one to show but an empty circle.
+function PresenceAvatars({ peers, onRename }: { peers: Peer[]; onRename: () => void }) {
+  const shown = peers.slice(0, 4);
+  const more = peers.length - shown.length;
+  if (!shown.length) return <div className="h-8 w-8 rounded-full bg-neutral-100 border border-line" />;
+
   return (
-    <div className={`pill ${isOnline ? 'pill-online' : 'pill-offline'}`}>
-      <span className={`dot ${isOnline ? 'dot-online' : 'dot-offline'}`} />
-      <span className="text-[12px] font-medium">{isOnline ? 'online' : 'offline'}</span>
+    <div className="flex items-center -space-x-2">
+      {shown.map((p) => (
+        <button
+          key={p.clientId}
+          title={p.self ? `${p.name} (you) · click to rename` : p.name}
+          onClick={p.self ? onRename : undefined}
+          className={`h-8 w-8 rounded-full border-2 border-surface text-white text-[11px] font-semibold grid place-items-center ${
+            p.self ? 'cursor-pointer' : 'cursor-default'
+          }`}
+          style={{ backgroundColor: p.color }}
+        >
+          {initials(p.name)}
+        </button>
+      ))}
+      {more > 0 && (
+        <div
+          title={peers.slice(4).map((p) => p.name).join(', ')}
+          className="h-8 w-8 rounded-full border-2 border-surface bg-neutral-100 text-muted text-[11px] font-semibold grid place-items-center"
+        >
+          +{more}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LanguagePicker({
+  languages,
+  value,
+  detected,
+  onChange,
+}: {
+  languages: LTLanguage[];
+  value: string;
+  detected: string | null;
+  onChange: (code: string) => void;
+}) {
+  const options = useMemo(() => {
+    const byCode = new Map<string, LTLanguage>();
+    for (const l of languages) if (!byCode.has(l.longCode)) byCode.set(l.longCode, l);
+    return [...byCode.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [languages]);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      title="Document language"
+      className="hidden md:block max-w-[12rem] text-[12px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+    >
+      <option value="auto">{detected ? `Auto · ${detected}` : 'Auto-detect'}</option>
+      {options.map((l) => (
+        <option key={l.longCode} value={l.longCode}>
+          {l.name}
+        </option>
+      ))}
+      {value !== 'auto' && !options.some((l) => l.longCode === value) && <option value={value}>{value}</option>}
+    </select>
+  );
+}
+
+function DocsMenu({
+  onImport,
+  onExport,
+  onPrint,
+  includeComments,
+  onIncludeCommentsChange,
+}: {
+  onImport: (file: File) => void;
+  onExport: (format: DocFormat) => void;
+  onPrint: () => void;
+  // Exports and prints end with an appendix of the comment threads.
+  includeComments: boolean;
+  onIncludeCommentsChange: (v: boolean) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  function choose(run: () => void) {
+    setOpen(false);
+    run();
+  }
+
+  return (
+    <div className="relative hidden sm:block">
+      <button className="btn-ghost" onClick={() => setOpen((v) => !v)} aria-expanded={open}>
+        Docs
+      </button>
+      {open && (
+        <div className="card absolute right-0 top-full mt-1 z-10 w-52 py-1" onMouseLeave={() => setOpen(false)}>
+          <MenuItem onClick={() => choose(() => fileInput.current?.click())}>Import file…</MenuItem>
+          <div className="my-1 border-t border-line" />
+          {(Object.keys(FORMAT_LABEL) as DocFormat[]).map((format) => (
+            <MenuItem key={format} onClick={() => choose(() => onExport(format))}>
+              Export as {FORMAT_LABEL[format]}
+            </MenuItem>
+          ))}
+          <MenuItem onClick={() => choose(onPrint)}>PDF / print…</MenuItem>
+          <div className="my-1 border-t border-line" />
+          <label className="flex items-center gap-2 px-3 py-1.5 text-[12.5px] text-ink hover:bg-neutral-50">
+            <input
+              type="checkbox"
+              checked={includeComments}
+              onChange={(e) => onIncludeCommentsChange(e.target.checked)}
+            />
+            Include comments
+          </label>
+        </div>
+      )}
+      <input
+        ref={fileInput}
+        type="file"
+        accept={IMPORT_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+    </div>
+  );
+}
+
+// Spelled out so Tailwind keeps the component classes.
+const STATUS_CLASS: Record<Status, { pill: string; dot: string }> = {
+  online: { pill: 'pill-online', dot: 'dot-online' },
+  degraded: { pill: 'pill-degraded', dot: 'dot-degraded' },
+  offline: { pill: 'pill-offline', dot: 'dot-offline' },
+};
+
+function StatusPill({ status, health }: { status: Status; health?: HealthReport | null }) {
+  const details = health
+    ? [
+        health.latencyMs !== null && `${health.latencyMs} ms`,
+        health.version && `LanguageTool ${health.version}`,
+        health.mode === 'premium' ? 'Premium' : 'Free',
+        health.languageCount > 0 && `${health.languageCount} languages`,
+        health.error,
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    : undefined;
+
+  return (
+    <div className={`pill ${STATUS_CLASS[status].pill}`} title={details}>
+      <span className={`dot ${STATUS_CLASS[status].dot}`} />
+      <span className="text-[12px] font-medium">{status}</span>
     </div>
   );
 }
@@ -237,12 +1662,14 @@ function Badge({
 function Sidebar({
   active,
   onChange,
+  children,
 }: {
-  active: string;
-  onChange: (k: string) => void;
+  active: NavKey;
+  onChange: (k: NavKey) => void;
+  children?: React.ReactNode;
 }) {
   return (
-    <aside className="w-60 bg-surface border-r border-line px-3 py-5 hidden md:flex flex-col">
+    <aside className="w-60 bg-surface border-r border-line px-3 py-5 hidden md:flex flex-col print:hidden">
       <div className="px-2 pb-4">
         <div className="text-[12px] text-muted font-medium">Docs</div>
       </div>
@@ -264,6 +1691,8 @@ function Sidebar({
         ))}
       </nav>
 
+      {children}
+
       <div className="mt-auto pt-6 px-2">
         <div className="text-[11px] text-muted">Powered by UpCube Language Engine</div>
       </div>
@@ -273,8 +1702,8 @@ function Sidebar({
 
 function MainShell({ children }: { children: React.ReactNode }) {
   return (
-    <div className="flex-1 overflow-hidden">
-      <div className="h-full overflow-hidden">{children}</div>
+    <div className="flex-1 overflow-hidden print:overflow-visible">
+      <div className="h-full overflow-hidden print:h-auto print:overflow-visible">{children}</div>
     </div>
   );
 }
@@ -282,109 +1711,238 @@ function MainShell({ children }: { children: React.ReactNode }) {
 /* ----------------------------- Editor + Suggestions ----------------------------- */
 
 function EditorAndSuggestions({
+  title,
   status,
   text,
-  setText,
-  textareaRef,
+  onTextChange,
+  editorSeed,
+  editorRef,
+  collab,
+  commentMarks,
+  activeComment,
+  onCommentClick,
+  onSelectionChange,
+  onComment,
+  asideTab,
+  onAsideTabChange,
+  openComments,
+  printAppendix,
+  comments,
   suggestions,
+  shown,
+  filter,
+  onFilterChange,
+  focusedId,
+  choice,
+  reviews,
+  onAcceptReview,
+  onRejectReview,
   isChecking,
   onApply,
+  onDismiss,
+  onIgnore,
+  onAddToDictionary,
+  conflict,
+  onResolveConflict,
+  reveal,
+  onRevealed,
+  toolbar,
 }: {
+  title: string;
   status: Status;
   text: string;
-  setText: (v: string) => void;
-  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  onTextChange: (text: string, html: string) => void;
+  editorSeed: { key: number; content: JSONContent | string };
+  editorRef: React.MutableRefObject<Editor | null>;
+  // The live session when the document is being edited together.
+  collab?: { session: CollabSession; user: CollabUser };
+  commentMarks: CommentMark[];
+  activeComment: string | null;
+  onCommentClick: (id: string) => void;
+  onSelectionChange: (range: TextRange | null) => void;
+  onComment: () => void;
+  // The aside shows either the suggestions or the comment threads.
+  asideTab: 'suggestions' | 'comments';
+  onAsideTabChange: (tab: 'suggestions' | 'comments') => void;
+  openComments: number;
+  // Comment appendix HTML for the printed page; '' to leave it out.
+  printAppendix: string;
+  comments: React.ReactNode;
+  // All of them are marked in the editor; the aside lists `shown`, the ones passing `filter`.
   suggestions: Suggestion[];
+  shown: Suggestion[];
+  filter: SeverityFilter;
+  onFilterChange: (filter: SeverityFilter) => void;
+  // The issue the keyboard is on and the index of its picked replacement.
+  focusedId: string | null;
+  choice: number;
+  // Proposals from share-link reviewers, listed above the engine's suggestions.
+  reviews: Suggestion[];
+  onAcceptReview: (s: Suggestion) => void;
+  onRejectReview: (s: Suggestion) => void;
   isChecking: boolean;
-  onApply: (s: Suggestion) => void;
+  onApply: (s: Suggestion, replacement?: string) => void;
+  onDismiss: (s: Suggestion) => void;
+  onIgnore: (s: Suggestion, what: 'rule' | 'word', scope: IgnoreScope) => void;
+  onAddToDictionary: (s: Suggestion, scope: DictionaryScope) => void;
+  conflict?: RemoteCopy;
+  onResolveConflict: (choice: 'local' | 'remote' | 'copy') => void;
+  reveal: RevealRequest | null;
+  onRevealed: () => void;
+  toolbar?: React.ReactNode;
 }) {
-  const [filter, setFilter] = useState<'all' | SuggestionSeverity>('all');
-
-  const filtered = useMemo(() => {
-    if (filter === 'all') return suggestions;
-    return suggestions.filter((s) => s.severity === filter);
-  }, [filter, suggestions]);
+  // Keep the card the keyboard is on in view.
+  useEffect(() => {
+    if (focusedId) document.getElementById(`suggestion-${focusedId}`)?.scrollIntoView({ block: 'nearest' });
+  }, [focusedId, choice]);
 
   return (
-    <div className="flex h-full overflow-hidden">
+    <div className="flex h-full overflow-hidden print:block print:h-auto print:overflow-visible">
       {/* Editor column */}
-      <main className="flex-1 overflow-y-auto px-4 sm:px-8 lg:px-12 py-6 lg:py-8">
-        <div className="mx-auto max-w-editor">
+      <main className="flex-1 overflow-y-auto px-4 sm:px-8 lg:px-12 py-6 lg:py-8 print:overflow-visible print:p-0">
+        <div className="mx-auto max-w-editor print:max-w-none">
+          {/* Printed documents get their title and none of the surrounding UI. */}
+          <h1 className="hidden print:block text-[24px] font-semibold mb-4">{title}</h1>
+
           {/* Header line */}
-          <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center justify-between mb-4 print:hidden">
             <div>
               <div className="text-[13px] font-semibold">Your writing</div>
               <div className="text-[12px] text-muted">Write, refine, and apply suggestions.</div>
             </div>
 
-            {/* Mobile status pill */}
-            <div className="md:hidden">
-              <StatusPill status={status} />
+            <div className="flex items-center gap-1">
+              {toolbar}
+
+              {/* Mobile status pill */}
+              <div className="md:hidden">
+                <StatusPill status={status} />
+              </div>
             </div>
           </div>
 
+          {conflict && <ConflictBanner conflict={conflict} onResolve={onResolveConflict} />}
+
           {/* Editor card */}
-          <div className="card p-5 sm:p-6">
-            <textarea
-              ref={textareaRef}
-              value={text}
-              onChange={(e) => setText(e.target.value)}
+          <div className="card p-5 sm:p-6 print:border-0 print:shadow-none print:p-0">
+            <RichEditor
+              key={editorSeed.key}
+              content={editorSeed.content}
+              text={text}
+              onChange={onTextChange}
+              suggestions={suggestions}
+              onApply={onApply}
+              editorRef={editorRef}
               placeholder="Start typing or paste your text here..."
-              className="w-full min-h-[340px] resize-none outline-none bg-transparent text-[15px] leading-relaxed placeholder:text-neutral-400"
+              reveal={reveal}
+              onRevealed={onRevealed}
+              collab={collab}
+              comments={commentMarks}
+              activeComment={activeComment}
+              onCommentClick={onCommentClick}
+              onSelectionChange={onSelectionChange}
+              onComment={onComment}
             />
           </div>
 
+          {printAppendix && (
+            <div className="rich-editor hidden print:block mt-6" dangerouslySetInnerHTML={{ __html: printAppendix }} />
+          )}
+
           {/* Footer helper */}
-          <div className="mt-3 text-[12px] text-muted">
+          <div className="mt-3 text-[12px] text-muted print:hidden">
             Tip: paste a paragraph to see structured suggestions.
           </div>
 
           {/* Offline banner like your screenshot */}
           {status === 'offline' && (
-            <div className="mt-6 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-[13px] text-red-700">
+            <div className="mt-6 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-[13px] text-red-700 print:hidden">
               Your language engine is offline. The editor still works, but suggestions may be limited until the backend is reachable.
             </div>
           )}
         </div>
       </main>
 
-      {/* Suggestions column */}
-      <aside className="w-80 lg:w-96 border-l border-line bg-surface hidden sm:flex flex-col">
+      {/* Suggestions and comments column */}
+      <aside className="w-80 lg:w-96 border-l border-line bg-surface hidden sm:flex flex-col print:hidden">
         <div className="px-4 py-4 border-b border-line">
           <div className="flex items-center justify-between">
             <div>
-              <div className="text-[13px] font-semibold">Suggestions</div>
-              <div className="text-[12px] text-muted">Clear, actionable edits.</div>
+              <div className="flex items-center gap-3 text-[13px] font-semibold">
+                {(['suggestions', 'comments'] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => onAsideTabChange(tab)}
+                    className={asideTab === tab ? 'text-ink' : 'text-muted hover:text-ink'}
+                  >
+                    {tab === 'suggestions' ? 'Suggestions' : `Comments${openComments ? ` (${openComments})` : ''}`}
+                  </button>
+                ))}
+              </div>
+              <div className="text-[12px] text-muted">
+                {asideTab === 'suggestions' ? 'Clear, actionable edits.' : 'Discuss passages with your team.'}
+              </div>
             </div>
 
-            <div className="flex items-center gap-2">
+            <div className={`flex items-center gap-2 ${asideTab === 'suggestions' ? '' : 'hidden'}`}>
               <select
                 value={filter}
-                onChange={(e) => setFilter(e.target.value as any)}
+                onChange={(e) => onFilterChange(e.target.value as SeverityFilter)}
                 className="text-[12px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
               >
-                <option value="all">All</option>
-                <option value="critical">Critical</option>
-                <option value="warning">Warnings</option>
-                <option value="info">Tips</option>
+                {SEVERITY_FILTERS.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.label}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
         </div>
 
         <div className="flex-1 overflow-y-auto px-4 py-4">
-          {filtered.length === 0 ? (
-            isChecking ? (
-              <div className="text-[12.5px] text-muted">Checking…</div>
-            ) : (
-              <EmptySuggestions />
-            )
+          {asideTab === 'comments' ? (
+            comments
           ) : (
-            <div className="space-y-3">
-              {filtered.map((s) => (
-                <SuggestionCard key={s.id} s={s} onApply={() => onApply(s)} />
-              ))}
-            </div>
+            <>
+              {reviews.length > 0 && (
+                <div className="mb-4 space-y-3">
+                  <div className="text-[12px] font-medium text-muted">From reviewers</div>
+                  {reviews.map((s) => (
+                    <SuggestionCard
+                      key={s.id}
+                      s={s}
+                      proposal
+                      onApply={() => onAcceptReview(s)}
+                      onDismiss={() => onRejectReview(s)}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {shown.length === 0 ? (
+                isChecking ? (
+                  <div className="text-[12.5px] text-muted">Checking…</div>
+                ) : reviews.length ? null : (
+                  <EmptySuggestions />
+                )
+              ) : (
+                <div className="space-y-3">
+                  {shown.map((s) => (
+                    <SuggestionCard
+                      key={s.id}
+                      s={s}
+                      focused={s.id === focusedId}
+                      choice={s.id === focusedId ? choice : 0}
+                      onApply={() => onApply(s, s.id === focusedId ? s.replacements?.[choice] : undefined)}
+                      onDismiss={() => onDismiss(s)}
+                      onIgnore={(what, scope) => onIgnore(s, what, scope)}
+                      onAddToDictionary={(scope) => onAddToDictionary(s, scope)}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
           )}
         </div>
       </aside>
@@ -392,7 +1950,45 @@ function EditorAndSuggestions({
   );
 }
 
-function mapLanguageToolMatchesToSuggestions(matches: LTMatch[], fullText: string): Suggestion[] {
+function ConflictBanner({
+  conflict,
+  onResolve,
+}: {
+  conflict: RemoteCopy;
+  onResolve: (choice: 'local' | 'remote' | 'copy') => void;
+}) {
+  return (
+    <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-[13px] text-amber-800 print:hidden">
+      <div className="font-medium mb-1">This document was changed somewhere else.</div>
+      <div className="text-[12.5px] mb-3">
+        The server has a different version from {new Date(conflict.updatedAt).toLocaleString()}. Your changes are
+        kept here until you choose.
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button className="btn-warn" onClick={() => onResolve('local')}>
+          Keep mine
+        </button>
+        <button className="btn-ghost" onClick={() => onResolve('remote')}>
+          Use server version
+        </button>
+        <button className="btn-ghost" onClick={() => onResolve('copy')}>
+          Keep both
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function bySeverity(suggestions: Suggestion[], filter: SeverityFilter) {
+  return filter === 'all' ? suggestions : suggestions.filter((s) => s.severity === filter);
+}
+
+// Issues from the same check: by rule id, or by engine and title for rules without one.
+function ruleKey(s: Suggestion) {
+  return s.ruleId ?? `${s.source ?? ''}:${s.title}`;
+}
+
+function mapLanguageToolMatchesToSuggestions(matches: LTMatch[], fullText: string, goals: WritingGoals): Suggestion[] {
   // Keep stable ordering: earliest match first.
   const sorted = [...matches].sort((a, b) => a.offset - b.offset);
 
@@ -400,33 +1996,74 @@ function mapLanguageToolMatchesToSuggestions(matches: LTMatch[], fullText: strin
     const id = `${m.rule?.id || 'match'}-${m.offset}-${m.length}-${idx}`;
     const issueType = (m.rule?.issueType || '').toLowerCase();
 
-    const severity: SuggestionSeverity =
-      issueType === 'misspelling' || issueType === 'grammar'
-        ? 'critical'
-        : issueType === 'style'
-        ? 'warning'
-        : 'info';
+    const severity = severityFor(issueType, m.rule?.category?.id, goals);
 
     const title = m.shortMessage || m.rule?.description || m.rule?.id || 'Suggestion';
     const detail = m.message || 'Possible improvement.';
 
     const before = fullText.slice(m.offset, m.offset + m.length);
-    const bestReplacement = m.replacements?.[0]?.value;
+    const replacements = (m.replacements || []).map((r) => r.value);
+    const bestReplacement = replacements[0];
     const after = bestReplacement || undefined;
 
-    const apply = bestReplacement
-      ? (current: string) => current.slice(0, m.offset) + bestReplacement + current.slice(m.offset + m.length)
-      : undefined;
-
-    return { id, severity, title, detail, before, after, apply };
+    // No apply closure: ranged suggestions go through applySuggestionToText,
+    // which uses the rebased offsets and checks `before` is still there.
+    return {
+      id,
+      severity,
+      source: 'languagetool',
+      title,
+      detail,
+      ruleId: m.rule?.id,
+      issueType: issueType || undefined,
+      before,
+      after,
+      offset: m.offset,
+      length: m.length,
+      replacements,
+    };
   });
 }
 
 /* ----------------------------- Suggestion Cards ----------------------------- */
 
-function SuggestionCard({ s, onApply }: { s: Suggestion; onApply: () => void }) {
-  const severityLabel =
-    s.severity === 'critical' ? 'Critical' : s.severity === 'warning' ? 'Warning' : 'Tip';
+function SuggestionCard({
+  s,
+  proposal,
+  focused,
+  choice = 0,
+  onApply,
+  onDismiss,
+  onIgnore = () => {},
+  onAddToDictionary = () => {},
+}: {
+  s: Suggestion;
+  // A reviewer's proposal: Accept/Reject instead of Apply/Dismiss, nothing to ignore.
+  proposal?: boolean;
+  // The keyboard is on this card; `choice` is the replacement picked for it.
+  focused?: boolean;
+  choice?: number;
+  onApply: () => void;
+  onDismiss: () => void;
+  onIgnore?: (what: 'rule' | 'word', scope: IgnoreScope) => void;
+  onAddToDictionary?: (scope: DictionaryScope) => void;
+}) {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const word = proposal ? null : ignorableWord(s);
+  const isMisspelling = s.issueType === 'misspelling' && !!word;
+  // A comment has nothing to apply; accepting it just resolves it.
+  const applicable = proposal && !s.replacements ? true : canApply(s);
+  const after = s.replacements?.[choice] ?? s.after;
+
+  const severityLabel = proposal
+    ? s.replacements
+      ? 'Edit'
+      : 'Comment'
+    : s.severity === 'critical'
+    ? 'Critical'
+    : s.severity === 'warning'
+    ? 'Warning'
+    : 'Tip';
 
   const toneCls =
     s.severity === 'critical'
@@ -436,7 +2073,7 @@ function SuggestionCard({ s, onApply }: { s: Suggestion; onApply: () => void })
       : 'border-blue-200 bg-blue-50 text-blue-700';
 
   return (
-    <div className="card p-4">
+    <div id={`suggestion-${s.id}`} className={`card p-4 ${focused ? 'ring-2 ring-focus' : ''}`}>
       <div className="flex items-start justify-between gap-3">
         <div className="min-w-0">
           <div className="flex items-center gap-2 mb-1">
@@ -445,11 +2082,16 @@ function SuggestionCard({ s, onApply }: { s: Suggestion; onApply: () => void })
             </span>
             <span className="text-[13px] font-semibold text-ink truncate">{s.title}</span>
           </div>
+          {s.source && (
+            <div className="text-[11px] text-muted mb-1">
+              {s.source === 'languagetool' ? 'LanguageTool' : s.source === 'reviewer' ? 'Share link' : 'Local rule'}
+            </div>
+          )}
           <div className="text-[12.5px] text-muted leading-snug">{s.detail}</div>
         </div>
       </div>
 
-      {(s.before || s.after) && (
+      {(s.before || after) && (
         <div className="mt-3 rounded-md border border-line bg-white p-3 text-[12px]">
           {s.before && (
             <div className="mb-2">
@@ -457,17 +2099,58 @@ function SuggestionCard({ s, onApply }: { s: Suggestion; onApply: () => void })
               <div className="text-ink">{s.before}</div>
             </div>
           )}
-          {s.after && (
+          {after && (
             <div>
-              <div className="text-[11px] text-muted mb-1">After</div>
-              <div className="text-ink">{s.after}</div>
+              <div className="text-[11px] text-muted mb-1">
+                After
+                {focused && s.replacements && s.replacements.length > 1 && (
+                  <span>
+                    {' '}
+                    · {choice + 1} of {s.replacements.length}
+                  </span>
+                )}
+              </div>
+              <div className="text-ink">{after}</div>
             </div>
           )}
         </div>
       )}
 
       <div className="mt-3 flex items-center justify-end gap-2">
-        <button className="btn-ghost">Dismiss</button>
+        {(s.ruleId || word) && (
+          <div className="relative mr-auto">
+            <button className="btn-ghost" onClick={() => setMenuOpen((v) => !v)} aria-expanded={menuOpen}>
+              Ignore…
+            </button>
+            {menuOpen && (
+              <div className="card absolute left-0 bottom-full mb-1 z-10 w-52 py-1" onMouseLeave={() => setMenuOpen(false)}>
+                {s.ruleId && (
+                  <>
+                    <MenuItem onClick={() => onIgnore('rule', 'document')}>Ignore this rule in this doc</MenuItem>
+                    <MenuItem onClick={() => onIgnore('rule', 'global')}>Ignore this rule everywhere</MenuItem>
+                  </>
+                )}
+                {word && (
+                  <>
+                    <MenuItem onClick={() => onIgnore('word', 'document')}>Ignore “{word}” in this doc</MenuItem>
+                    <MenuItem onClick={() => onIgnore('word', 'global')}>Ignore “{word}” everywhere</MenuItem>
+                  </>
+                )}
+                {isMisspelling && (
+                  <MenuItem onClick={() => onAddToDictionary('team')}>Add “{word}” to team dictionary</MenuItem>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        {isMisspelling && (
+          <button className="btn-ghost" onClick={() => onAddToDictionary('personal')}>
+            Add to dictionary
+          </button>
+        )}
+        <button className="btn-ghost" onClick={onDismiss}>
+          {proposal ? 'Reject' : 'Dismiss'}
+        </button>
         <button
           className={`btn ${
             s.severity === 'critical'
@@ -477,16 +2160,27 @@ function SuggestionCard({ s, onApply }: { s: Suggestion; onApply: () => void })
               : 'btn-primary'
           }`}
           onClick={onApply}
-          disabled={!s.apply}
-          title={!s.apply ? 'No automatic apply available' : 'Apply this change'}
+          disabled={!applicable}
+          title={!applicable ? 'No automatic apply available' : proposal ? 'Accept this proposal' : 'Apply this change'}
         >
-          Apply
+          {proposal ? 'Accept' : 'Apply'}
         </button>
       </div>
     </div>
   );
 }
 
+function MenuItem({ onClick, children }: { onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className="w-full text-left px-3 py-1.5 text-[12.5px] text-ink hover:bg-neutral-50 truncate"
+    >
+      {children}
+    </button>
+  );
+}
+
 function EmptySuggestions() {
   return (
     <div className="pt-6">
@@ -513,100 +2207,3 @@ function EmptySuggestions() {
     </div>
   );
 }
-
-/* ----------------------------- Simple “AI” Suggestion Engine ----------------------------- */
-/**
- * This is intentionally lightweight and deterministic.
- * Replace later with your real backend.
- */
-function buildSuggestions(text: string): Suggestion[] {
-  const t = text ?? '';
-  const out: Suggestion[] = [];
-
-  const hasText = t.trim().length > 0;
-  if (!hasText) return out;
-
-  // 1) Common quick wins: capitalization of "i"
-  if (/\bi\b/.test(t)) {
-    out.push({
-      id: 'cap-i',
-      severity: 'warning',
-      title: 'Capitalize “I”',
-      detail: 'Capitalizing the first-person pronoun improves professionalism and readability.',
-      before: 'i am working on this...',
-      after: 'I am working on this...',
-      apply: (s) => s.replace(/\bi\b/g, 'I'),
-    });
-  }
-
-  // 2) Double spaces
-  if (/ {2,}/.test(t)) {
-    out.push({
-      id: 'double-space',
-      severity: 'info',
-      title: 'Remove extra spaces',
-      detail: 'Extra spaces can make your writing feel uneven.',
-      before: 'This  has  extra spaces.',
-      after: 'This has extra spaces.',
-      apply: (s) => s.replace(/ {2,}/g, ' '),
-    });
-  }
-
-  // 3) Very long sentence heuristic
-  const longSent = t.split(/[.!?]\s/).find((s) => s.trim().split(/\s+/).length > 30);
-  if (longSent) {
-    out.push({
-      id: 'long-sentence',
-      severity: 'warning',
-      title: 'Consider splitting a long sentence',
-      detail: 'Long sentences can be harder to follow. Split it into two clear thoughts.',
-      before: truncate(longSent.trim(), 110),
-      after: 'Split into two shorter sentences for clarity.',
-    });
-  }
-
-  // 4) Weak opener heuristic
-  if (/^(so|okay|ok|well)\b/i.test(t.trim())) {
-    out.push({
-      id: 'opener',
-      severity: 'info',
-      title: 'Strengthen your opening line',
-      detail: 'Starting with a direct statement sets a confident tone.',
-      before: truncate(t.trim(), 80),
-      after: 'Try opening with the core point you want to convey.',
-    });
-  }
-
-  // 5) “im” -> “I’m”
-  if (/\bim\b/i.test(t)) {
-    out.push({
-      id: 'im-contraction',
-      severity: 'critical',
-      title: 'Fix contraction “I’m”',
-      detail: 'Correct contractions improve clarity and reduce friction for readers.',
-      before: 'im working on it',
-      after: 'I’m working on it',
-      apply: (s) => s.replace(/\bim\b/gi, "I'm"),
-    });
-  }
-
-  // 6) Too many exclamation marks
-  if (/!{2,}/.test(t)) {
-    out.push({
-      id: 'exclaim',
-      severity: 'warning',
-      title: 'Reduce repeated exclamation marks',
-      detail: 'A single exclamation mark is usually enough.',
-      before: 'This is amazing!!!',
-      after: 'This is amazing!',
-      apply: (s) => s.replace(/!{2,}/g, '!'),
-    });
-  }
-
-  return out.slice(0, 10);
-}
-
-function truncate(s: string, n: number) {
-  if (s.length <= n) return s;
-  return s.slice(0, n - 1) + '…';
-}
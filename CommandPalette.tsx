@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bindings, EDITOR_SHORTCUTS, SHORTCUT_ACTIONS, formatBinding } from './shortcuts';
+
+/** Something the palette can run. `binding` is shown next to it, if it has one. */
+export type Command = {
+  id: string;
+  group: string;
+  label: string;
+  binding?: string;
+  disabled?: boolean;
+  run: () => void;
+};
+
+/**
+ * Cmd/Ctrl-K: every command in one list, narrowed by typing. Each typed word
+ * must appear in the command's group or label; arrows move, Enter runs.
+ */
+export default function CommandPalette({ commands, onClose }: { commands: Command[]; onClose: () => void }) {
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const shown = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter((c) => {
+      if (c.disabled) return false;
+      const haystack = `${c.group} ${c.label}`.toLowerCase();
+      return words.every((w) => haystack.includes(w));
+    });
+  }, [commands, query]);
+
+  useEffect(() => setIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${index}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [index]);
+
+  function run(command: Command | undefined) {
+    if (!command) return;
+    onClose();
+    command.run();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/20 flex items-start justify-center p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Command palette"
+        className="card w-full max-w-lg max-h-[60vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowDown') {
+              e.preventDefault();
+              setIndex((i) => Math.min(i + 1, shown.length - 1));
+            } else if (e.key === 'ArrowUp') {
+              e.preventDefault();
+              setIndex((i) => Math.max(i - 1, 0));
+            } else if (e.key === 'Enter') {
+              e.preventDefault();
+              run(shown[index]);
+            } else if (e.key === 'Escape') {
+              e.preventDefault();
+              onClose();
+            }
+          }}
+          placeholder="Type a command…"
+          className="w-full px-4 py-3 text-[13px] border-b border-line outline-none"
+        />
+        <div ref={listRef} className="flex-1 overflow-y-auto py-1">
+          {shown.length === 0 ? (
+            <div className="px-4 py-3 text-[12.5px] text-muted">No matching commands.</div>
+          ) : (
+            shown.map((c, i) => (
+              <button
+                key={c.id}
+                data-index={i}
+                onMouseMove={() => setIndex(i)}
+                onClick={() => run(c)}
+                className={`w-full flex items-center gap-3 px-4 py-2 text-left text-[12.5px] ${
+                  i === index ? 'bg-neutral-100' : ''
+                }`}
+              >
+                <span className="text-muted w-24 shrink-0 truncate">{c.group}</span>
+                <span className="text-ink flex-1 truncate">{c.label}</span>
+                {c.binding && <Keys binding={c.binding} />}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Every shortcut: the rebindable ones as currently bound, then the editor's own. */
+export function ShortcutHelp({ bindings, onClose }: { bindings: Bindings; onClose: () => void }) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const rows = (list: { label: string; binding: string }[]) =>
+    list.map((r) => (
+      <div key={r.label} className="flex items-center justify-between py-1.5 text-[12.5px]">
+        <span className="text-ink">{r.label}</span>
+        <Keys binding={r.binding} />
+      </div>
+    ));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        className="card w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-line flex items-center justify-between">
+          <div className="text-[13px] font-semibold">Keyboard shortcuts</div>
+          <button className="btn-ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          <div className="text-[11px] text-muted font-medium mt-1">Suggestions and commands</div>
+          {rows(SHORTCUT_ACTIONS.map((a) => ({ label: a.label, binding: bindings[a.id] })))}
+          <div className="text-[11px] text-muted font-medium mt-3">Editor</div>
+          {rows(EDITOR_SHORTCUTS)}
+          <div className="text-[11px] text-muted font-medium mt-3">Comments</div>
+          {rows([{ label: 'Send a comment or reply', binding: 'Mod+Enter' }])}
+          <div className="mt-3 text-[12px] text-muted">Change them in Settings → Keyboard shortcuts.</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function Keys({ binding }: { binding: string }) {
+  return (
+    <kbd className="shrink-0 rounded border border-line bg-neutral-50 px-1.5 py-0.5 font-sans text-[11px] text-muted">
+      {formatBinding(binding)}
+    </kbd>
+  );
+}
@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PlacedThread, mentionParts } from './comments';
+import { ThreadStatus, isMentioned } from './functions/lib/commentsApi';
+
+type Filter = 'open' | 'resolved' | 'mentions';
+
+const FILTER_LABEL: Record<Filter, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  mentions: 'Mentioning me',
+};
+
+/**
+ * The Comments side of the aside: a box for commenting on the selected
+ * passage, then the threads, each with its replies, resolve/reopen and a
+ * reply box. Typing @ offers the names of people around the document.
+ */
+export default function CommentThreads({
+  threads,
+  me,
+  people,
+  selection,
+  composeNonce,
+  activeId,
+  error,
+  onActivate,
+  onCreate,
+  onReply,
+  onSetStatus,
+  onDelete,
+}: {
+  threads: PlacedThread[];
+  // The name comments are signed with.
+  me: string;
+  // Names offered after @.
+  people: string[];
+  // The passage selected in the editor, if any.
+  selection: string | null;
+  // Changes when the editor's Comment button asks for the comment box.
+  composeNonce: number;
+  activeId: string | null;
+  error: string | null;
+  onActivate: (t: PlacedThread) => void;
+  onCreate: (body: string) => Promise<boolean>;
+  onReply: (t: PlacedThread, body: string) => Promise<boolean>;
+  onSetStatus: (t: PlacedThread, status: ThreadStatus) => void;
+  onDelete: (t: PlacedThread) => void;
+}) {
+  const [filter, setFilter] = useState<Filter>('open');
+
+  const shown = useMemo(() => {
+    const list =
+      filter === 'mentions'
+        ? threads.filter((t) => isMentioned(t, me))
+        : threads.filter((t) => t.status === filter);
+    // In reading order; detached threads go last.
+    return [...list].sort((a, b) => Number(a.detached) - Number(b.detached) || a.offset - b.offset);
+  }, [threads, filter, me]);
+
+  // Bring the thread clicked in the editor into view.
+  useEffect(() => {
+    if (!activeId) return;
+    const thread = threads.find((t) => t.id === activeId);
+    if (thread && thread.status === 'resolved' && filter === 'open') setFilter('resolved');
+    document.getElementById(`thread-${activeId}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeId]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-[12px] font-medium text-muted">
+          {threads.filter((t) => t.status === 'open').length} open
+        </div>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as Filter)}
+          className="text-[12px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+        >
+          {(Object.keys(FILTER_LABEL) as Filter[]).map((f) => (
+            <option key={f} value={f}>
+              {FILTER_LABEL[f]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selection ? (
+        <div className="card p-4">
+          <div className="text-[11px] text-muted mb-1">Comment on</div>
+          <div className="text-[12.5px] text-ink line-clamp-3 mb-2">“{selection}”</div>
+          <MentionBox
+            key={composeNonce}
+            autoFocus={composeNonce > 0}
+            people={people}
+            placeholder="Write a comment. Use @ to mention someone."
+            submitLabel="Comment"
+            onSubmit={onCreate}
+          />
+        </div>
+      ) : (
+        <div className="text-[12px] text-muted">Select text in the document to comment on it.</div>
+      )}
+
+      {error && <div className="text-[12px] text-red-700">{error}</div>}
+
+      {shown.length === 0 ? (
+        <div className="text-[12.5px] text-muted">
+          {filter === 'open' ? 'No open comments.' : filter === 'resolved' ? 'Nothing resolved yet.' : 'No mentions.'}
+        </div>
+      ) : (
+        shown.map((t) => (
+          <ThreadCard
+            key={t.id}
+            thread={t}
+            me={me}
+            people={people}
+            active={t.id === activeId}
+            onActivate={() => onActivate(t)}
+            onReply={(body) => onReply(t, body)}
+            onSetStatus={(status) => onSetStatus(t, status)}
+            onDelete={() => onDelete(t)}
+          />
+        ))
+      )}
+    </div>
+  );
+}
+
+function ThreadCard({
+  thread,
+  me,
+  people,
+  active,
+  onActivate,
+  onReply,
+  onSetStatus,
+  onDelete,
+}: {
+  thread: PlacedThread;
+  me: string;
+  people: string[];
+  active: boolean;
+  onActivate: () => void;
+  onReply: (body: string) => Promise<boolean>;
+  onSetStatus: (status: ThreadStatus) => void;
+  onDelete: () => void;
+}) {
+  const [replying, setReplying] = useState(false);
+  const resolved = thread.status === 'resolved';
+
+  return (
+    <div
+      id={`thread-${thread.id}`}
+      className={`card p-4 ${active ? 'ring-2 ring-focus' : ''} ${resolved ? 'opacity-80' : ''}`}
+    >
+      <button
+        className="block w-full text-left mb-2"
+        onClick={onActivate}
+        disabled={thread.detached}
+        title={thread.detached ? undefined : 'Show in the document'}
+      >
+        {thread.detached ? (
+          <span className="text-[11px] text-muted">The commented text was removed: “{thread.quote}”</span>
+        ) : (
+          <span className="text-[12px] text-muted italic line-clamp-2 border-l-2 border-amber-300 pl-2">
+            {thread.quote}
+          </span>
+        )}
+      </button>
+
+      <div className="space-y-2">
+        {thread.comments.map((c) => (
+          <div key={c.id} className="text-[12.5px]">
+            <div className="flex items-baseline gap-2">
+              <span className="font-semibold text-ink">{c.author || 'Someone'}</span>
+              <span className="text-[11px] text-muted">{new Date(c.createdAt).toLocaleString()}</span>
+            </div>
+            <div className="text-ink whitespace-pre-wrap break-words">
+              {mentionParts(c.body, c.mentions).map((p, i) =>
+                p.mention ? (
+                  <span key={i} className="rounded bg-blue-50 px-0.5 text-blue-700">
+                    {p.text}
+                  </span>
+                ) : (
+                  <React.Fragment key={i}>{p.text}</React.Fragment>
+                ),
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {resolved && (
+        <div className="mt-2 text-[11px] text-muted">Resolved{thread.resolvedBy && ` by ${thread.resolvedBy}`}</div>
+      )}
+      {isMentioned(thread, me) && !resolved && <div className="mt-2 pill text-[11px]">Mentions you</div>}
+
+      {replying ? (
+        <div className="mt-3">
+          <MentionBox
+            autoFocus
+            people={people}
+            placeholder={resolved ? 'Reply and reopen' : 'Reply'}
+            submitLabel="Reply"
+            onSubmit={async (body) => {
+              const sent = await onReply(body);
+              if (sent) setReplying(false);
+              return sent;
+            }}
+            onCancel={() => setReplying(false)}
+          />
+        </div>
+      ) : (
+        <div className="mt-3 flex items-center gap-2">
+          <button className="btn-ghost" onClick={() => setReplying(true)}>
+            Reply
+          </button>
+          <button className="btn-ghost" onClick={() => onSetStatus(resolved ? 'open' : 'resolved')}>
+            {resolved ? 'Reopen' : 'Resolve'}
+          </button>
+          <button
+            className="btn-ghost ml-auto"
+            onClick={() => window.confirm('Delete this thread and all its replies?') && onDelete()}
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A comment box. Typing @ and the start of a name lists the matching people;
+ * picking one writes the whole name. Ctrl/Cmd+Enter sends.
+ */
+function MentionBox({
+  people,
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  people: string[];
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  // Resolves to whether it was sent; the box empties only then.
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState('');
+  const [caret, setCaret] = useState(0);
+  const [sending, setSending] = useState(false);
+  const ref = useRef<HTMLTextAreaElement | null>(null);
+
+  // The "@partial name" just before the caret, if any.
+  const query = body.slice(0, caret).match(/(?:^|[^\p{L}\p{N}_])@([\p{L}\p{N}_][\p{L}\p{N}_. -]{0,30})?$/u);
+  const typed = query ? query[1] ?? '' : null;
+  const matches =
+    typed === null
+      ? []
+      : people
+          .filter((p) => p.toLowerCase().startsWith(typed.toLowerCase()) && p.toLowerCase() !== typed.toLowerCase())
+          .slice(0, 5);
+
+  function pick(name: string) {
+    const start = caret - (typed?.length ?? 0);
+    const next = `${body.slice(0, start)}${name} ${body.slice(caret)}`;
+    setBody(next);
+    const at = start + name.length + 1;
+    setCaret(at);
+    requestAnimationFrame(() => {
+      ref.current?.focus();
+      ref.current?.setSelectionRange(at, at);
+    });
+  }
+
+  async function submit() {
+    if (!body.trim() || sending) return;
+    setSending(true);
+    const sent = await onSubmit(body.trim());
+    setSending(false);
+    if (sent) setBody('');
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={ref}
+        autoFocus={autoFocus}
+        value={body}
+        rows={3}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setBody(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          } else if (e.key === 'Escape') {
+            onCancel?.();
+          }
+        }}
+        className="w-full text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+      />
+      {matches.length > 0 && (
+        <div className="card absolute left-0 right-0 z-10 py-1">
+          {matches.map((name) => (
+            <button
+              key={name}
+              className="block w-full text-left px-3 py-1.5 text-[12.5px] text-ink hover:bg-neutral-50"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(name)}
+            >
+              @{name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="mt-2 flex justify-end gap-2">
+        {onCancel && (
+          <button className="btn-ghost" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+        <button className="btn-primary" onClick={submit} disabled={!body.trim() || sending}>
+          {sending ? 'Sending…' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
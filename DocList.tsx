@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import type { Doc } from './docStore';
+
+/** Document switcher shown under the Docs nav item. */
+export default function DocList({
+  docs,
+  activeId,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  docs: Doc[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return docs;
+    return docs.filter((d) => d.title.toLowerCase().includes(q) || d.body.toLowerCase().includes(q));
+  }, [docs, query]);
+
+  return (
+    <div className="mt-4 flex flex-col min-h-0">
+      <div className="flex items-center gap-2 px-1 mb-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search docs"
+          className="min-w-0 flex-1 text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+        />
+        <button className="btn-ghost px-2" onClick={onCreate} title="New document">
+          New
+        </button>
+      </div>
+
+      <ul className="overflow-y-auto space-y-0.5">
+        {filtered.map((d) => (
+          <li key={d.id}>
+            {renaming === d.id ? (
+              <input
+                autoFocus
+                defaultValue={d.title}
+                onBlur={(e) => {
+                  onRename(d.id, e.target.value.trim() || d.title);
+                  setRenaming(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setRenaming(null);
+                }}
+                className="w-full text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+              />
+            ) : (
+              <div
+                className={[
+                  'group flex items-center gap-1 rounded-md px-2 py-1.5 cursor-pointer',
+                  d.id === activeId ? 'bg-neutral-100' : 'hover:bg-neutral-50',
+                ].join(' ')}
+                onClick={() => onOpen(d.id)}
+                onDoubleClick={() => setRenaming(d.id)}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="text-[12.5px] text-ink truncate">{d.title || 'Untitled doc'}</div>
+                  <div className="text-[11px] text-muted">{relativeTime(d.updatedAt)}</div>
+                </div>
+                <div className="hidden group-hover:flex items-center">
+                  <RowAction label="Rename" glyph="✎" onClick={() => setRenaming(d.id)} />
+                  <RowAction label="Duplicate" glyph="⧉" onClick={() => onDuplicate(d.id)} />
+                  <RowAction label="Delete" glyph="×" onClick={() => onDelete(d.id)} />
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+        {filtered.length === 0 && <li className="px-2 py-1.5 text-[12px] text-muted">No matching docs.</li>}
+      </ul>
+    </div>
+  );
+}
+
+function RowAction({ label, glyph, onClick }: { label: string; glyph: string; onClick: () => void }) {
+  return (
+    <button
+      title={label}
+      aria-label={label}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="px-1 text-[12px] text-muted hover:text-ink"
+    >
+      {glyph}
+    </button>
+  );
+}
+
+function relativeTime(ts: number) {
+  const s = Math.round((Date.now() - ts) / 1000);
+  if (s < 60) return 'just now';
+  if (s < 3600) return `${Math.floor(s / 60)} min ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)} h ago`;
+  return new Date(ts).toLocaleDateString();
+}
@@ -1,4 +1,9 @@
-import React, { useCallback, useEffect, useRef, useState } from "react"
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { Editor as TiptapEditor } from "@tiptap/react"
+import RichEditor from "./RichEditor"
+import type { CheckRequest, CheckResponse } from "./functions/lib/checkApi"
+import { replaceText } from "./richText"
+import type { Suggestion } from "./types"
 
 type Match = {
   message: string
@@ -14,16 +19,18 @@ type Match = {
 }
 
 interface Props {
-  apiBase: string
+  // Endpoint speaking the /api/v1/check contract.
+  apiBase?: string
+  language?: string
 }
 
-export default function Editor({ apiBase }: Props) {
+export default function Editor({ apiBase = "/api/v1/check", language = "auto" }: Props) {
   const [text, setText] = useState("")
   const [matches, setMatches] = useState<Match[]>([])
   const [checking, setChecking] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+  const editorRef = useRef<TiptapEditor | null>(null)
 
   const checkText = useCallback(
     async (content: string) => {
@@ -36,25 +43,33 @@ export default function Editor({ apiBase }: Props) {
       setError(null)
 
       try {
-        const body = new URLSearchParams({
-          text: content,
-          language: "en-US",
-        })
+        const body: CheckRequest = { text: content, language }
 
         const res = await fetch(apiBase, {
           method: "POST",
           headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
+            "Content-Type": "application/json",
           },
-          body: body.toString(),
+          body: JSON.stringify(body),
         })
 
-        if (!res.ok) {
-          throw new Error("Language engine error")
+        const data = (await res.json()) as CheckResponse
+        if (!data.ok) {
+          throw new Error(data.error.message)
         }
 
-        const data = await res.json()
-        setMatches(data.matches || [])
+        setMatches(data.matches.map((m) => ({
+          message: m.message,
+          shortMessage: m.shortMessage ?? "",
+          offset: m.offset,
+          length: m.length,
+          replacements: m.replacements,
+          rule: {
+            id: m.rule?.id ?? "",
+            description: m.rule?.description ?? "",
+            issueType: m.rule?.issueType ?? "",
+          },
+        })))
       } catch (e) {
         setError("Could not connect to language engine")
         setMatches([])
@@ -62,7 +77,7 @@ export default function Editor({ apiBase }: Props) {
         setChecking(false)
       }
     },
-    [apiBase]
+    [apiBase, language]
   )
 
   useEffect(() => {
@@ -73,50 +88,35 @@ export default function Editor({ apiBase }: Props) {
     return () => clearTimeout(timer)
   }, [text, checkText])
 
+  // Matches are offsets into the editor's plain text, so they map onto the document as is.
+  const suggestions = useMemo<Suggestion[]>(
+    () =>
+      matches.map((m) => ({
+        id: `${m.rule.id || "match"}-${m.offset}-${m.length}`,
+        severity: m.rule.issueType === "misspelling" || m.rule.issueType === "grammar" ? "critical" : "warning",
+        title: m.shortMessage || m.rule.description || "Suggestion",
+        detail: m.message,
+        ruleId: m.rule.id,
+        issueType: m.rule.issueType,
+        before: text.slice(m.offset, m.offset + m.length),
+        offset: m.offset,
+        length: m.length,
+        replacements: m.replacements.map((r) => r.value),
+      })),
+    [matches]
+  )
+
   const applyReplacement = (match: Match, replacement: string) => {
-    const before = text.slice(0, match.offset)
-    const after = text.slice(match.offset + match.length)
+    const editor = editorRef.current
+    if (!editor) return
 
-    const newText = before + replacement + after
-    setText(newText)
+    replaceText(editor, match.offset, match.length, replacement)
 
     setMatches((prev) =>
       prev.filter((m) => m.offset !== match.offset || m.length !== match.length)
     )
 
-    textareaRef.current?.focus()
-  }
-
-  const renderHighlightedText = () => {
-    if (!matches.length) return text
-
-    let lastIndex = 0
-    const parts: React.ReactNode[] = []
-
-    const sorted = [...matches].sort((a, b) => a.offset - b.offset)
-
-    sorted.forEach((m, i) => {
-      const before = text.slice(lastIndex, m.offset)
-      const highlight = text.slice(m.offset, m.offset + m.length)
-
-      parts.push(before)
-
-      parts.push(
-        <mark
-          key={i}
-          className="rounded bg-amber-200 px-0.5 hover:bg-amber-300 cursor-pointer"
-          title={m.message}
-        >
-          {highlight}
-        </mark>
-      )
-
-      lastIndex = m.offset + m.length
-    })
-
-    parts.push(text.slice(lastIndex))
-
-    return parts
+    editor.commands.focus()
   }
 
   return (
@@ -133,13 +133,19 @@ export default function Editor({ apiBase }: Props) {
           )}
         </div>
 
-        <div className="relative">
-          <textarea
-            ref={textareaRef}
-            className="w-full min-h-[360px] resize-none rounded-xl border border-slate-200 bg-white p-4 text-sm leading-relaxed text-slate-900 shadow-sm focus:border-indigo-400 focus:ring focus:ring-indigo-200 focus:ring-opacity-40 outline-none"
+        <div className="relative rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <RichEditor
+            content=""
+            text={text}
+            onChange={(next) => setText(next)}
+            suggestions={suggestions}
+            onApply={(s, replacement) => {
+              const match = matches.find((m) => m.offset === s.offset && m.length === s.length)
+              const value = replacement ?? s.replacements?.[0]
+              if (match && value !== undefined) applyReplacement(match, value)
+            }}
+            editorRef={editorRef}
             placeholder="Start typing or paste your text here..."
-            value={text}
-            onChange={(e) => setText(e.target.value)}
           />
 
           {text && (
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Version, diffWords, listVersions } from './history';
+
+const CURRENT = 'current';
+
+const REASON_LABEL: Record<Version['reason'], string> = {
+  idle: 'Autosave',
+  apply: 'Before applying a suggestion',
+  manual: 'Named version',
+  restore: 'Before restore',
+  collab: 'Before live editing',
+};
+
+/**
+ * Version history for one document: pick any two versions (or the current
+ * text) to see a word-level diff, and restore an older one.
+ */
+export default function HistoryPanel({
+  docId,
+  currentText,
+  onSaveVersion,
+  onRestore,
+  onClose,
+}: {
+  docId: string;
+  currentText: string;
+  onSaveVersion: (name: string) => Promise<unknown>;
+  onRestore: (v: Version) => void;
+  onClose: () => void;
+}) {
+  const [versions, setVersions] = useState<Version[] | null>(null);
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string>(CURRENT);
+  const [name, setName] = useState('');
+
+  async function reload() {
+    const list = await listVersions(docId).catch(() => []);
+    setVersions(list);
+    setFrom((prev) => prev ?? list[0]?.id ?? null);
+  }
+
+  useEffect(() => {
+    setFrom(null);
+    setTo(CURRENT);
+    reload();
+  }, [docId]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const bodyOf = (id: string | null) =>
+    id === CURRENT ? currentText : versions?.find((v) => v.id === id)?.body ?? null;
+
+  const diff = useMemo(() => {
+    const a = bodyOf(from);
+    const b = bodyOf(to);
+    return a === null || b === null ? null : diffWords(a, b);
+  }, [from, to, versions, currentText]);
+
+  const restorable = versions?.find((v) => v.id === from);
+
+  async function saveNamed() {
+    const n = name.trim();
+    if (!n) return;
+    await onSaveVersion(n);
+    setName('');
+    reload();
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Version history"
+        className="card w-full max-w-5xl h-[80vh] flex overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-72 border-r border-line flex flex-col">
+          <div className="px-4 py-3 border-b border-line">
+            <div className="text-[13px] font-semibold">Version history</div>
+            <div className="mt-2 flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveNamed()}
+                placeholder="Name this version"
+                className="min-w-0 flex-1 text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+              />
+              <button className="btn-primary" onClick={saveNamed} disabled={!name.trim()}>
+                Save
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto py-2">
+            <VersionRow
+              label="Current text"
+              hint="Now"
+              isFrom={from === CURRENT}
+              isTo={to === CURRENT}
+              onFrom={() => setFrom(CURRENT)}
+              onTo={() => setTo(CURRENT)}
+            />
+            {versions?.map((v) => (
+              <VersionRow
+                key={v.id}
+                label={v.name || REASON_LABEL[v.reason]}
+                hint={new Date(v.createdAt).toLocaleString()}
+                isFrom={from === v.id}
+                isTo={to === v.id}
+                onFrom={() => setFrom(v.id)}
+                onTo={() => setTo(v.id)}
+              />
+            ))}
+            {versions?.length === 0 && (
+              <div className="px-4 py-2 text-[12px] text-muted">
+                No versions yet. They are saved when you pause, before each applied suggestion, and when you name one.
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="px-4 py-3 border-b border-line flex items-center gap-2">
+            <div className="text-[12px] text-muted">
+              <span className="inline-block px-1.5 rounded bg-red-50 text-red-700 mr-1">A</span>→
+              <span className="inline-block px-1.5 rounded bg-emerald-50 text-emerald-700 mx-1">B</span>
+              Pick A and B on the left to compare.
+            </div>
+            <div className="ml-auto flex gap-2">
+              <button className="btn-primary" disabled={!restorable} onClick={() => restorable && onRestore(restorable)}>
+                Restore A
+              </button>
+              <button className="btn-ghost" onClick={onClose}>
+                Close
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-5 text-[14px] leading-relaxed whitespace-pre-wrap break-words">
+            {diff === null ? (
+              <div className="text-[12.5px] text-muted">Select two versions.</div>
+            ) : (
+              diff.map((p, i) =>
+                p.type === 'same' ? (
+                  <span key={i}>{p.text}</span>
+                ) : p.type === 'added' ? (
+                  <ins key={i} className="no-underline bg-emerald-100 text-emerald-900">
+                    {p.text}
+                  </ins>
+                ) : (
+                  <del key={i} className="bg-red-100 text-red-800">
+                    {p.text}
+                  </del>
+                ),
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function VersionRow({
+  label,
+  hint,
+  isFrom,
+  isTo,
+  onFrom,
+  onTo,
+}: {
+  label: string;
+  hint: string;
+  isFrom: boolean;
+  isTo: boolean;
+  onFrom: () => void;
+  onTo: () => void;
+}) {
+  const pick = (active: boolean, tone: string) =>
+    `h-6 w-6 rounded-md border text-[11px] font-medium ${active ? tone : 'border-line text-muted hover:bg-neutral-50'}`;
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 hover:bg-neutral-50">
+      <div className="min-w-0 flex-1">
+        <div className="text-[12.5px] text-ink truncate">{label}</div>
+        <div className="text-[11px] text-muted">{hint}</div>
+      </div>
+      <button className={pick(isFrom, 'border-red-200 bg-red-50 text-red-700')} onClick={onFrom} title="Compare from">
+        A
+      </button>
+      <button className={pick(isTo, 'border-emerald-200 bg-emerald-50 text-emerald-700')} onClick={onTo} title="Compare to">
+        B
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,455 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Editor, EditorContent, Extension, JSONContent, createDocument, useEditor } from '@tiptap/react';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCursor from '@tiptap/extension-collaboration-cursor';
+import { COLLAB_FIELD, CollabSession, CollabUser, seedRoom } from './collab';
+import { canApply } from './positions';
+import { EDITOR_EXTENSIONS, documentExtensions, projectText, toOffset, toPos } from './richText';
+import type { Suggestion } from './types';
+
+type Popover = { id: string; pinned: boolean; top: number; left: number };
+
+/** Select and scroll to a range; a new `nonce` repeats the same range. */
+export type RevealRequest = { offset: number; length: number; nonce: number };
+
+/** A commented passage to highlight, in plain-text offsets like suggestions. */
+export type CommentMark = { id: string; offset: number; length: number };
+
+export type TextRange = { offset: number; length: number };
+
+// A stable default: the highlights are redrawn whenever `comments` changes identity.
+const NO_COMMENTS: CommentMark[] = [];
+
+const highlightKey = new PluginKey<DecorationSet>('suggestionHighlights');
+
+// Suggestion underlines as decorations. They are rebuilt whenever the
+// suggestions change and mapped through edits in between, so they follow the
+// text while a new check is on its way.
+const SuggestionHighlights = Extension.create({
+  name: 'suggestionHighlights',
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: highlightKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr, set) => tr.getMeta(highlightKey) ?? set.map(tr.mapping, tr.doc),
+        },
+        props: {
+          decorations: (state) => highlightKey.getState(state),
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * The TipTap editor: headings, lists, bold/italic and links, with every
+ * suggestion underlined in place. Suggestions and `onChange` speak plain-text
+ * offsets (see richText.ts); formatting never reaches the checker.
+ *
+ * `content` is only read on mount; give the component a new key to load
+ * different content.
+ *
+ * With `collab`, the document lives in the session's Yjs doc instead: edits
+ * (applied suggestions included) go out as Yjs updates, other people's cursors
+ * are drawn in place, and undo only takes back this tab's own changes.
+ * `content` then only seeds a room that is still empty.
+ *
+ * Commented passages get a highlight of their own (`comments`); clicking one
+ * reports its thread, and `onSelectionChange` tells the comment box what is
+ * selected.
+ */
+export default function RichEditor({
+  content,
+  text,
+  onChange,
+  suggestions,
+  onApply,
+  editorRef,
+  placeholder,
+  reveal,
+  onRevealed,
+  collab,
+  comments = NO_COMMENTS,
+  activeComment,
+  onCommentClick,
+  onSelectionChange,
+  onComment,
+}: {
+  content: JSONContent | string;
+  // The current plain text, as last reported through `onChange`.
+  text: string;
+  onChange: (text: string, html: string) => void;
+  suggestions: Suggestion[];
+  onApply: (s: Suggestion, replacement?: string) => void;
+  editorRef: React.MutableRefObject<Editor | null>;
+  placeholder?: string;
+  reveal?: RevealRequest | null;
+  onRevealed?: () => void;
+  collab?: { session: CollabSession; user: CollabUser };
+  comments?: CommentMark[];
+  activeComment?: string | null;
+  onCommentClick?: (id: string) => void;
+  onSelectionChange?: (range: TextRange | null) => void;
+  // Shows a Comment button in the format bar.
+  onComment?: () => void;
+}) {
+  const wrapRef = useRef<HTMLDivElement | null>(null);
+  const closeTimer = useRef<number | null>(null);
+  const [popover, setPopover] = useState<Popover | null>(null);
+
+  // useEditor keeps the callbacks it was created with.
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const textRef = useRef(text);
+  textRef.current = text;
+  const onSelectionRef = useRef(onSelectionChange);
+  onSelectionRef.current = onSelectionChange;
+
+  function reportSelection(editor: Editor) {
+    const { from, to } = editor.state.selection;
+    if (from === to) return onSelectionRef.current?.(null);
+    const projection = projectText(editor.state.doc);
+    const offset = toOffset(projection, from);
+    const length = toOffset(projection, to) - offset;
+    onSelectionRef.current?.(length > 0 ? { offset, length } : null);
+  }
+
+  const editor = useEditor({
+    extensions: collab
+      ? [
+          // Collaboration brings its own undo history.
+          ...documentExtensions({ history: false }),
+          Collaboration.configure({ document: collab.session.ydoc, field: COLLAB_FIELD }),
+          CollaborationCursor.configure({ provider: collab.session.provider, user: collab.user }),
+          SuggestionHighlights,
+        ]
+      : [...EDITOR_EXTENSIONS, SuggestionHighlights],
+    content: collab ? undefined : content,
+    editorProps: { attributes: { class: 'rich-editor' } },
+    onCreate: ({ editor }) => {
+      // The first one into a room brings the document with them.
+      if (collab) seedRoom(collab.session, createDocument(content, editor.schema));
+      // Content written elsewhere may project slightly differently; the editor's reading wins.
+      const projected = projectText(editor.state.doc).text;
+      if (projected !== textRef.current) onChangeRef.current(projected, editor.getHTML());
+    },
+    onUpdate: ({ editor }) => onChangeRef.current(projectText(editor.state.doc).text, editor.getHTML()),
+    onSelectionUpdate: ({ editor }) => reportSelection(editor),
+  });
+
+  useEffect(() => {
+    editorRef.current = editor;
+    return () => {
+      if (editorRef.current === editor) editorRef.current = null;
+    };
+  }, [editor]);
+
+  const ranged = useMemo(() => rangedSuggestions(suggestions, text.length), [suggestions, text.length]);
+  const active = popover ? ranged.find((s) => s.id === popover.id) : undefined;
+
+  // Drop the popover once its suggestion goes away.
+  useLayoutEffect(() => {
+    if (popover && !active) setPopover(null);
+  }, [popover, active]);
+
+  // Redraw the underlines. Suggestions are in plain-text offsets of `text`;
+  // if the editor is already ahead of it, the mapped set stays until the
+  // suggestions catch up.
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    const projection = projectText(editor.state.doc);
+    if (projection.text !== text) return;
+
+    const decorations = underlineSegments(ranged).map(({ s, start, end }) => {
+      const from = toPos(projection, start);
+      const to = toPos(projection, end);
+      const attrs = {
+        class: `hl-mark hl-${s.severity}${s.id === popover?.id ? ' hl-active' : ''}`,
+        'data-sid': s.id,
+      };
+      if (to > from) return Decoration.inline(from, to, attrs);
+      // Zero-length ranges (e.g. a missing comma) still need something to underline.
+      return Decoration.widget(from, () => markerFor(attrs), { key: `${s.id}:${attrs.class}` });
+    });
+    for (const c of comments) {
+      if (c.length <= 0 || c.offset + c.length > projection.text.length) continue;
+      decorations.push(
+        Decoration.inline(toPos(projection, c.offset), toPos(projection, c.offset + c.length), {
+          class: `cm-mark${c.id === activeComment ? ' cm-active' : ''}`,
+          'data-cid': c.id,
+        }),
+      );
+    }
+    const tr = editor.state.tr
+      .setMeta(highlightKey, DecorationSet.create(editor.state.doc, decorations))
+      .setMeta('addToHistory', false);
+    editor.view.dispatch(tr);
+  }, [editor, ranged, comments, activeComment, text, popover?.id]);
+
+  // Select the requested range and bring it into view.
+  useEffect(() => {
+    if (!reveal || !editor || editor.isDestroyed) return;
+    const projection = projectText(editor.state.doc);
+    const from = toPos(projection, Math.min(reveal.offset, projection.text.length));
+    const to = toPos(projection, Math.min(reveal.offset + reveal.length, projection.text.length));
+    editor.chain().focus().setTextSelection({ from, to }).scrollIntoView().run();
+    onRevealed?.();
+  }, [reveal?.nonce, editor]);
+
+  function markAt(target: EventTarget, x: number, y: number) {
+    const mark = (target as HTMLElement).closest?.<HTMLElement>('[data-sid]');
+    if (!mark) return null;
+    const rects = Array.from(mark.getClientRects());
+    const rect = rects.find((r) => x >= r.left && x <= r.right && y >= r.top && y <= r.bottom) ?? rects[0];
+    return rect ? { mark, rect } : null;
+  }
+
+  function openFor(id: string, rect: DOMRect, pinned: boolean) {
+    const wrap = wrapRef.current?.getBoundingClientRect();
+    if (!wrap) return;
+    cancelClose();
+    setPopover({ id, pinned, top: rect.bottom - wrap.top + 6, left: Math.max(0, rect.left - wrap.left) });
+  }
+
+  function cancelClose() {
+    if (closeTimer.current !== null) window.clearTimeout(closeTimer.current);
+    closeTimer.current = null;
+  }
+
+  function scheduleClose() {
+    cancelClose();
+    closeTimer.current = window.setTimeout(() => {
+      setPopover((p) => (p?.pinned ? p : null));
+    }, 180);
+  }
+
+  function onMouseMove(e: React.MouseEvent) {
+    const hit = markAt(e.target, e.clientX, e.clientY);
+    if (hit) {
+      if (popover?.id !== hit.mark.dataset.sid && !popover?.pinned) openFor(hit.mark.dataset.sid!, hit.rect, false);
+      else cancelClose();
+    } else if (popover && !popover.pinned) {
+      scheduleClose();
+    }
+  }
+
+  function onClick(e: React.MouseEvent) {
+    const comment = (e.target as HTMLElement).closest?.<HTMLElement>('[data-cid]');
+    if (comment) onCommentClick?.(comment.dataset.cid!);
+    const hit = markAt(e.target, e.clientX, e.clientY);
+    if (hit) openFor(hit.mark.dataset.sid!, hit.rect, true);
+    else setPopover(null);
+  }
+
+  function apply(s: Suggestion, replacement?: string) {
+    setPopover(null);
+    onApply(s, replacement);
+  }
+
+  return (
+    <div ref={wrapRef} className="relative" onMouseLeave={() => popover && !popover.pinned && scheduleClose()}>
+      {editor && <FormatBar editor={editor} onComment={onComment} />}
+
+      <div
+        className="relative"
+        onMouseMove={onMouseMove}
+        onClick={onClick}
+        onKeyDown={(e) => e.key === 'Escape' && setPopover(null)}
+      >
+        {!text && placeholder && (
+          <div className="rich-editor absolute inset-x-0 top-0 pointer-events-none text-neutral-400">{placeholder}</div>
+        )}
+        <EditorContent editor={editor} />
+      </div>
+
+      {popover && active && (
+        <SuggestionPopover
+          s={active}
+          top={popover.top}
+          left={popover.left}
+          onEnter={cancelClose}
+          onLeave={() => !popover.pinned && scheduleClose()}
+          onApply={apply}
+        />
+      )}
+    </div>
+  );
+}
+
+function FormatBar({ editor, onComment }: { editor: Editor; onComment?: () => void }) {
+  function editLink() {
+    const previous = editor.getAttributes('link').href as string | undefined;
+    const href = window.prompt('Link address (leave empty to remove the link)', previous ?? 'https://');
+    if (href === null) return;
+    const chain = editor.chain().focus().extendMarkRange('link');
+    if (href.trim()) chain.setLink({ href: href.trim() }).run();
+    else chain.unsetLink().run();
+  }
+
+  const button = (label: string, title: string, isActive: boolean, run: () => void) => (
+    <button
+      key={title}
+      type="button"
+      title={title}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={run}
+      className={`h-7 min-w-7 px-1.5 rounded-md text-[12.5px] transition ${
+        isActive ? 'bg-neutral-100 text-ink' : 'text-muted hover:bg-neutral-50 hover:text-ink'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-1 border-b border-line pb-2 print:hidden">
+      {button('H1', 'Heading 1', editor.isActive('heading', { level: 1 }), () =>
+        editor.chain().focus().toggleHeading({ level: 1 }).run(),
+      )}
+      {button('H2', 'Heading 2', editor.isActive('heading', { level: 2 }), () =>
+        editor.chain().focus().toggleHeading({ level: 2 }).run(),
+      )}
+      {button('H3', 'Heading 3', editor.isActive('heading', { level: 3 }), () =>
+        editor.chain().focus().toggleHeading({ level: 3 }).run(),
+      )}
+      <span className="mx-1 h-4 w-px bg-line" />
+      {button('B', 'Bold (Ctrl+B)', editor.isActive('bold'), () => editor.chain().focus().toggleBold().run())}
+      {button('I', 'Italic (Ctrl+I)', editor.isActive('italic'), () => editor.chain().focus().toggleItalic().run())}
+      {button('Link', 'Link', editor.isActive('link'), editLink)}
+      <span className="mx-1 h-4 w-px bg-line" />
+      {button('• List', 'Bulleted list', editor.isActive('bulletList'), () =>
+        editor.chain().focus().toggleBulletList().run(),
+      )}
+      {button('1. List', 'Numbered list', editor.isActive('orderedList'), () =>
+        editor.chain().focus().toggleOrderedList().run(),
+      )}
+      {onComment && (
+        <>
+          <span className="mx-1 h-4 w-px bg-line" />
+          {button('Comment', 'Comment on the selection', false, onComment)}
+        </>
+      )}
+    </div>
+  );
+}
+
+function SuggestionPopover({
+  s,
+  top,
+  left,
+  onEnter,
+  onLeave,
+  onApply,
+}: {
+  s: Suggestion;
+  top: number;
+  left: number;
+  onEnter: () => void;
+  onLeave: () => void;
+  onApply: (s: Suggestion, replacement?: string) => void;
+}) {
+  const options = s.replacements?.length ? s.replacements.slice(0, 5) : [];
+
+  return (
+    <div
+      role="dialog"
+      className="card absolute z-20 w-72 p-3"
+      style={{ top, left }}
+      onMouseEnter={onEnter}
+      onMouseLeave={onLeave}
+    >
+      <div className="text-[13px] font-semibold text-ink mb-1">{s.title}</div>
+      <div className="text-[12.5px] text-muted leading-snug">{s.detail}</div>
+
+      {options.length > 0 ? (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {options.map((r, i) => (
+            <button
+              key={`${r}-${i}`}
+              onClick={() => onApply(s, r)}
+              className="rounded-md bg-blue-50 border border-blue-200 px-2.5 py-1 text-[12px] text-blue-700 hover:bg-blue-100 transition"
+            >
+              {r || '(remove)'}
+            </button>
+          ))}
+        </div>
+      ) : (
+        canApply(s) && (
+          <div className="mt-3 flex justify-end">
+            <button className="btn-primary" onClick={() => onApply(s)}>
+              Apply
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * Suggestions that carry a usable range, earliest first. Fixes never overlap
+ * each other; flag-only notes (a long sentence, say) may cover them.
+ */
+function rangedSuggestions(suggestions: Suggestion[], textLength: number) {
+  const withRange = suggestions
+    .filter((s) => typeof s.offset === 'number' && typeof s.length === 'number')
+    .filter((s) => s.offset! >= 0 && s.offset! + s.length! <= textLength)
+    .sort((a, b) => a.offset! - b.offset! || b.length! - a.length!);
+
+  const out: Suggestion[] = [];
+  let end = -1;
+  for (const s of withRange) {
+    if (!s.replacements?.length) {
+      out.push(s);
+      continue;
+    }
+    if (s.offset! < end) continue;
+    out.push(s);
+    end = s.offset! + Math.max(s.length!, 1);
+  }
+  return out;
+}
+
+/**
+ * The stretches of text each suggestion underlines. Fixes get their whole
+ * range; a flag-only note only the parts no fix or narrower note covers, so
+ * nothing is drawn twice and hovering a word inside a long sentence opens
+ * that word's suggestion.
+ */
+function underlineSegments(ranged: Suggestion[]) {
+  const isFix = (s: Suggestion) => !!s.replacements?.length;
+  const order = [...ranged].sort((a, b) => Number(isFix(b)) - Number(isFix(a)) || a.length! - b.length!);
+
+  const taken: { start: number; end: number }[] = [];
+  const out: { s: Suggestion; start: number; end: number }[] = [];
+  for (const s of order) {
+    let pieces = [{ start: s.offset!, end: s.offset! + s.length! }];
+    if (!isFix(s) && s.length! > 0) {
+      for (const t of taken) {
+        pieces = pieces.flatMap((p) =>
+          t.end <= p.start || t.start >= p.end
+            ? [p]
+            : [
+                { start: p.start, end: t.start },
+                { start: t.end, end: p.end },
+              ].filter((q) => q.end > q.start),
+        );
+      }
+    }
+    for (const p of pieces) out.push({ s, ...p });
+    taken.push(...pieces.filter((p) => p.end > p.start));
+  }
+  return out;
+}
+
+function markerFor(attrs: { class: string; 'data-sid': string }) {
+  const el = document.createElement('span');
+  el.className = attrs.class;
+  el.dataset.sid = attrs['data-sid'];
+  el.textContent = '\u200b';
+  return el;
+}
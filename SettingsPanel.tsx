@@ -0,0 +1,672 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Keys } from './CommandPalette';
+import { CheckerSettings, MAX_CONCURRENCY_LIMIT, clampConcurrency } from './checker';
+import type { Dictionaries, DictionaryIds, DictionaryScope } from './dictionary';
+import type { DocSettings } from './docStore';
+import type { HealthReport } from './functions/lib/healthApi';
+import { GOAL_OPTIONS, WritingGoals, goalsOf } from './goals';
+import { IgnoreList, IgnoreScope, IgnoreState, listFor, updateList } from './ignores';
+import { isValidOwnerKey } from './owner';
+import { CustomRuleDef, patternError } from './rules';
+import {
+  Bindings,
+  DEFAULT_BINDINGS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  conflictingActions,
+  eventToBinding,
+} from './shortcuts';
+import type { LTLanguage, SuggestionSeverity } from './types';
+
+/**
+ * Settings: review and restore everything the user told the checker to
+ * ignore, for the current document and everywhere, manage dictionaries and
+ * the current document's language preferences, write custom rules, rebind
+ * keyboard shortcuts, move documents between devices, and tune how checks run.
+ */
+export default function SettingsPanel({
+  ignores,
+  docId,
+  onIgnoresChange,
+  dictionaryIds,
+  onDictionaryIdsChange,
+  teamKey,
+  onTeamKeyChange,
+  ownerKey,
+  onOwnerKeyChange,
+  dictionaries,
+  onRemoveWord,
+  languages,
+  docSettings,
+  onDocSettingsChange,
+  customRules,
+  onCustomRulesChange,
+  checkerSettings,
+  onCheckerSettingsChange,
+  bindings,
+  onBindingsChange,
+  onShowShortcuts,
+  health,
+}: {
+  ignores: IgnoreState;
+  docId: string;
+  onIgnoresChange: (next: IgnoreState) => void;
+  dictionaryIds: DictionaryIds;
+  onDictionaryIdsChange: (next: DictionaryIds) => void;
+  teamKey: string;
+  onTeamKeyChange: (key: string) => void;
+  ownerKey: string;
+  onOwnerKeyChange: (key: string) => void;
+  dictionaries: Dictionaries;
+  onRemoveWord: (scope: DictionaryScope, word: string) => void;
+  languages: LTLanguage[];
+  docSettings: DocSettings;
+  onDocSettingsChange: (patch: Partial<DocSettings>) => void;
+  customRules: CustomRuleDef[];
+  onCustomRulesChange: (next: CustomRuleDef[]) => void;
+  checkerSettings: CheckerSettings;
+  onCheckerSettingsChange: (next: CheckerSettings) => void;
+  bindings: Bindings;
+  onBindingsChange: (next: Bindings) => void;
+  onShowShortcuts: () => void;
+  health: HealthReport | null;
+}) {
+  function edit(scope: IgnoreScope, update: (list: IgnoreList) => IgnoreList) {
+    onIgnoresChange(updateList(ignores, scope, docId, update));
+  }
+
+  return (
+    <div className="h-full overflow-y-auto px-4 sm:px-8 lg:px-12 py-6 lg:py-8">
+      <div className="mx-auto max-w-editor space-y-6">
+        <div>
+          <div className="text-[13px] font-semibold">Settings</div>
+          <div className="text-[12px] text-muted">Review what you've ignored and bring it back.</div>
+        </div>
+
+        <LanguageSection languages={languages} settings={docSettings} onChange={onDocSettingsChange} />
+
+        <GoalsSection settings={docSettings} onChange={onDocSettingsChange} />
+
+        <IgnoreSection
+          title="This document"
+          list={listFor(ignores, 'document', docId)}
+          onChange={(update) => edit('document', update)}
+        />
+        <IgnoreSection title="All documents" list={ignores.global} onChange={(update) => edit('global', update)} />
+
+        <DictionarySection
+          ids={dictionaryIds}
+          onIdsChange={onDictionaryIdsChange}
+          teamKey={teamKey}
+          onTeamKeyChange={onTeamKeyChange}
+          dictionaries={dictionaries}
+          onRemoveWord={onRemoveWord}
+        />
+
+        <SyncSection ownerKey={ownerKey} onChange={onOwnerKeyChange} />
+
+        <CustomRulesSection rules={customRules} onChange={onCustomRulesChange} />
+
+        <ShortcutsSection bindings={bindings} onChange={onBindingsChange} onShowAll={onShowShortcuts} />
+
+        <CheckingSection settings={checkerSettings} onChange={onCheckerSettingsChange} health={health} />
+      </div>
+    </div>
+  );
+}
+
+function IgnoreSection({
+  title,
+  list,
+  onChange,
+}: {
+  title: string;
+  list: IgnoreList;
+  onChange: (update: (list: IgnoreList) => IgnoreList) => void;
+}) {
+  const isEmpty = list.rules.length === 0 && list.words.length === 0 && list.dismissed.length === 0;
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">{title}</div>
+
+      {isEmpty ? (
+        <div className="text-[12.5px] text-muted">Nothing ignored.</div>
+      ) : (
+        <div className="space-y-4">
+          {list.rules.length > 0 && (
+            <div>
+              <div className="text-[11px] text-muted mb-1">Ignored rules</div>
+              <ul className="divide-y divide-line">
+                {list.rules.map((r) => (
+                  <IgnoredRow
+                    key={r.id}
+                    label={r.label}
+                    hint={r.id}
+                    onRestore={() => onChange((l) => ({ ...l, rules: l.rules.filter((x) => x.id !== r.id) }))}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {list.words.length > 0 && (
+            <div>
+              <div className="text-[11px] text-muted mb-1">Ignored words</div>
+              <ul className="divide-y divide-line">
+                {list.words.map((w) => (
+                  <IgnoredRow
+                    key={w}
+                    label={w}
+                    onRestore={() => onChange((l) => ({ ...l, words: l.words.filter((x) => x !== w) }))}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {list.dismissed.length > 0 && (
+            <div className="flex items-center justify-between">
+              <div className="text-[12.5px] text-ink">
+                {list.dismissed.length} dismissed suggestion{list.dismissed.length > 1 ? 's' : ''}
+              </div>
+              <button className="btn-ghost" onClick={() => onChange((l) => ({ ...l, dismissed: [] }))}>
+                Restore all
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function LanguageSection({
+  languages,
+  settings,
+  onChange,
+}: {
+  languages: LTLanguage[];
+  settings: DocSettings;
+  onChange: (patch: Partial<DocSettings>) => void;
+}) {
+  // Languages with regional variants (English, German, Portuguese, ...), for variant preferences.
+  const variantGroups = useMemo(() => {
+    const groups = new Map<string, LTLanguage[]>();
+    for (const l of languages) {
+      if (!l.longCode.includes('-')) continue;
+      const list = groups.get(l.code) ?? [];
+      if (!list.some((x) => x.longCode === l.longCode)) list.push(l);
+      groups.set(l.code, list);
+    }
+    return [...groups.entries()].filter(([, list]) => list.length > 1);
+  }, [languages]);
+
+  const baseLanguages = useMemo(() => {
+    const byCode = new Map<string, LTLanguage>();
+    for (const l of languages) if (!byCode.has(l.code) || l.longCode === l.code) byCode.set(l.code, l);
+    return [...byCode.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [languages]);
+
+  const preferred = settings.preferredVariants ?? [];
+
+  function setVariant(code: string, longCode: string) {
+    const rest = preferred.filter((v) => v.split('-')[0] !== code);
+    onChange({ preferredVariants: longCode ? [...rest, longCode] : rest });
+  }
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-1">Language for this document</div>
+      <div className="text-[12px] text-muted mb-4">
+        Pick the language itself from the top bar. These refine how checks behave.
+      </div>
+
+      {languages.length === 0 ? (
+        <div className="text-[12.5px] text-muted">Language list unavailable while the engine is offline.</div>
+      ) : (
+        <div className="space-y-3">
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-[12.5px] text-ink">Native language</span>
+            <select
+              value={settings.motherTongue ?? ''}
+              onChange={(e) => onChange({ motherTongue: e.target.value || undefined })}
+              className="text-[12px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+            >
+              <option value="">Not set</option>
+              {baseLanguages.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {variantGroups.map(([code, variants]) => (
+            <label key={code} className="flex items-center justify-between gap-3">
+              <span className="text-[12.5px] text-ink">Preferred {code} variant when auto-detecting</span>
+              <select
+                value={preferred.find((v) => v.split('-')[0] === code) ?? ''}
+                onChange={(e) => setVariant(code, e.target.value)}
+                className="text-[12px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+              >
+                <option value="">No preference</option>
+                {variants.map((v) => (
+                  <option key={v.longCode} value={v.longCode}>
+                    {v.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+const GOAL_LABEL: Record<keyof WritingGoals, string> = {
+  audience: 'Audience',
+  formality: 'Formality',
+  domain: 'Domain',
+  intent: 'Intent',
+};
+
+function GoalsSection({
+  settings,
+  onChange,
+}: {
+  settings: DocSettings;
+  onChange: (patch: Partial<DocSettings>) => void;
+}) {
+  const goals = goalsOf(settings);
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-1">Goals for this document</div>
+      <div className="text-[12px] text-muted mb-4">
+        Who you're writing for and how it should sound. Stricter goals surface more style advice.
+      </div>
+
+      <div className="space-y-3">
+        {(Object.keys(GOAL_LABEL) as (keyof WritingGoals)[]).map((key) => (
+          <label key={key} className="flex items-center justify-between gap-3">
+            <span className="text-[12.5px] text-ink">{GOAL_LABEL[key]}</span>
+            <select
+              value={goals[key]}
+              onChange={(e) => onChange({ goals: { ...settings.goals, [key]: e.target.value } })}
+              className="text-[12px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+            >
+              {GOAL_OPTIONS[key].map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function DictionarySection({
+  ids,
+  onIdsChange,
+  teamKey,
+  onTeamKeyChange,
+  dictionaries,
+  onRemoveWord,
+}: {
+  ids: DictionaryIds;
+  onIdsChange: (next: DictionaryIds) => void;
+  // Needed to add or remove team words; without it the team list is read-only here.
+  teamKey: string;
+  onTeamKeyChange: (key: string) => void;
+  dictionaries: Dictionaries;
+  onRemoveWord: (scope: DictionaryScope, word: string) => void;
+}) {
+  const [team, setTeam] = useState(ids.team);
+  useEffect(() => setTeam(ids.team), [ids.team]);
+
+  const teamValid = /^[A-Za-z0-9_-]{1,64}$/.test(team);
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">Dictionaries</div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <label className="text-[12px] text-muted" htmlFor="team-dictionary">
+          Team
+        </label>
+        <input
+          id="team-dictionary"
+          value={team}
+          onChange={(e) => setTeam(e.target.value.trim())}
+          className="flex-1 text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+        />
+        <button
+          className="btn-ghost"
+          disabled={!teamValid || team === ids.team}
+          onClick={() => onIdsChange({ ...ids, team })}
+        >
+          Switch
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <label className="text-[12px] text-muted" htmlFor="team-dictionary-key">
+          Team key
+        </label>
+        <input
+          id="team-dictionary-key"
+          type="password"
+          autoComplete="off"
+          value={teamKey}
+          placeholder="Ask whoever runs your workspace"
+          onChange={(e) => onTeamKeyChange(e.target.value.trim())}
+          className="flex-1 text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+        />
+      </div>
+
+      {(['personal', 'team'] as const).map((scope) => (
+        <div key={scope} className="mb-3 last:mb-0">
+          <div className="text-[11px] text-muted mb-1">{scope === 'personal' ? 'Personal words' : 'Team words'}</div>
+          {dictionaries[scope].length === 0 ? (
+            <div className="text-[12.5px] text-muted">No words yet.</div>
+          ) : (
+            <ul className="divide-y divide-line">
+              {dictionaries[scope].map((w) =>
+                scope === 'team' && !teamKey ? (
+                  <li key={w} className="py-2 text-[12.5px] text-ink truncate">
+                    {w}
+                  </li>
+                ) : (
+                  <IgnoredRow key={w} label={w} action="Remove" onRestore={() => onRemoveWord(scope, w)} />
+                ),
+              )}
+            </ul>
+          )}
+        </div>
+      ))}
+    </section>
+  );
+}
+
+/** The sync key is the owner key (owner.ts): the same key on two devices shows the same documents. */
+function SyncSection({ ownerKey, onChange }: { ownerKey: string; onChange: (key: string) => void }) {
+  const [draft, setDraft] = useState(ownerKey);
+  useEffect(() => setDraft(ownerKey), [ownerKey]);
+
+  const valid = isValidOwnerKey(draft);
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-1">Sync</div>
+      <div className="text-[12px] text-muted mb-3">
+        Your documents are stored under this key. Paste it on another device to see them there, and keep it private:
+        anyone with it can read and change them.
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="text-[12px] text-muted" htmlFor="sync-key">
+          Sync key
+        </label>
+        <input
+          id="sync-key"
+          autoComplete="off"
+          spellCheck={false}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value.trim())}
+          className="flex-1 font-mono text-[12px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+        />
+        <button className="btn-ghost" disabled={!valid || draft === ownerKey} onClick={() => onChange(draft)}>
+          Switch
+        </button>
+      </div>
+    </section>
+  );
+}
+
+const EMPTY_RULE = { title: '', pattern: '', replacement: '', matchCase: false, severity: 'warning' as SuggestionSeverity };
+
+function CustomRulesSection({ rules, onChange }: { rules: CustomRuleDef[]; onChange: (next: CustomRuleDef[]) => void }) {
+  const [draft, setDraft] = useState(EMPTY_RULE);
+  const flags = draft.matchCase ? '' : 'i';
+  const error = draft.pattern ? patternError(draft.pattern, flags) : null;
+
+  function add() {
+    if (!draft.pattern || error) return;
+    const rule: CustomRuleDef = {
+      id: `custom-${Date.now().toString(36)}`,
+      title: draft.title.trim() || draft.pattern,
+      pattern: draft.pattern,
+      flags,
+      replacement: draft.replacement,
+      severity: draft.severity,
+    };
+    onChange([...rules, rule]);
+    setDraft(EMPTY_RULE);
+  }
+
+  const input =
+    'text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus';
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">Custom rules</div>
+
+      {rules.length === 0 ? (
+        <div className="text-[12.5px] text-muted mb-4">No custom rules yet.</div>
+      ) : (
+        <ul className="divide-y divide-line mb-4">
+          {rules.map((r) => (
+            <IgnoredRow
+              key={r.id}
+              label={r.title}
+              hint={`/${r.pattern}/${r.flags}${r.replacement ? ` → ${r.replacement}` : ''}`}
+              action="Remove"
+              onRestore={() => onChange(rules.filter((x) => x.id !== r.id))}
+            />
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          placeholder="Title, e.g. Use “sign in”"
+          className={`${input} col-span-2`}
+        />
+        <input
+          value={draft.pattern}
+          onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+          placeholder="Pattern (regex), e.g. \blog ?in\b"
+          className={`${input} font-mono`}
+        />
+        <input
+          value={draft.replacement}
+          onChange={(e) => setDraft({ ...draft, replacement: e.target.value })}
+          placeholder="Replacement (optional)"
+          className={input}
+        />
+      </div>
+      <div className="mt-2 flex items-center gap-3">
+        <label className="flex items-center gap-1.5 text-[12px] text-muted">
+          <input
+            type="checkbox"
+            checked={draft.matchCase}
+            onChange={(e) => setDraft({ ...draft, matchCase: e.target.checked })}
+          />
+          Match case
+        </label>
+        <select
+          value={draft.severity}
+          onChange={(e) => setDraft({ ...draft, severity: e.target.value as SuggestionSeverity })}
+          className={input}
+        >
+          <option value="critical">Critical</option>
+          <option value="warning">Warning</option>
+          <option value="info">Tip</option>
+        </select>
+        <button className="btn-primary ml-auto" disabled={!draft.pattern || !!error} onClick={add}>
+          Add rule
+        </button>
+      </div>
+      {error && <div className="mt-2 text-[11px] text-red-700">{error}</div>}
+    </section>
+  );
+}
+
+function ShortcutsSection({
+  bindings,
+  onChange,
+  onShowAll,
+}: {
+  bindings: Bindings;
+  onChange: (next: Bindings) => void;
+  onShowAll: () => void;
+}) {
+  // The action waiting for its new key combination.
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const conflicts = useMemo(() => conflictingActions(bindings), [bindings]);
+  const isDefault = SHORTCUT_ACTIONS.every((a) => bindings[a.id] === DEFAULT_BINDINGS[a.id]);
+
+  function record(e: React.KeyboardEvent, action: ShortcutAction) {
+    // Nothing else should act on the keys being recorded.
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') return setRecording(null);
+    const binding = eventToBinding(e);
+    if (!binding) return;
+    onChange({ ...bindings, [action]: binding });
+    setRecording(null);
+  }
+
+  return (
+    <section className="card p-5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[13px] font-semibold text-ink">Keyboard shortcuts</div>
+        <button className="btn-ghost" onClick={onShowAll}>
+          Show all
+        </button>
+      </div>
+      <ul className="divide-y divide-line">
+        {SHORTCUT_ACTIONS.map((a) => (
+          <li key={a.id} className="flex items-center justify-between gap-3 py-2">
+            <div className="min-w-0">
+              <div className="text-[12.5px] text-ink truncate">{a.label}</div>
+              {conflicts.has(a.id) && <div className="text-[11px] text-red-700">Also bound to another action</div>}
+            </div>
+            <div className="flex items-center gap-2">
+              {recording === a.id ? (
+                <button
+                  autoFocus
+                  className="btn-ghost"
+                  onKeyDown={(e) => record(e, a.id)}
+                  onBlur={() => setRecording(null)}
+                >
+                  Press keys… (Esc to cancel)
+                </button>
+              ) : (
+                <>
+                  <Keys binding={bindings[a.id]} />
+                  <button className="btn-ghost" onClick={() => setRecording(a.id)}>
+                    Change
+                  </button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <div className="text-[11px] text-muted">Issue shortcuts work while the editor is open.</div>
+        <button className="btn-ghost" onClick={() => onChange({ ...DEFAULT_BINDINGS })} disabled={isDefault}>
+          Reset to defaults
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function CheckingSection({
+  settings,
+  onChange,
+  health,
+}: {
+  settings: CheckerSettings;
+  onChange: (next: CheckerSettings) => void;
+  health: HealthReport | null;
+}) {
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">Checking</div>
+      <div className="flex items-center gap-3">
+        <label className="text-[12px] text-muted" htmlFor="check-concurrency">
+          Parallel requests
+        </label>
+        <input
+          id="check-concurrency"
+          type="number"
+          min={1}
+          max={MAX_CONCURRENCY_LIMIT}
+          value={settings.maxConcurrency}
+          onChange={(e) => onChange({ ...settings, maxConcurrency: clampConcurrency(e.target.valueAsNumber) })}
+          className="w-16 text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+        />
+      </div>
+      <div className="mt-2 text-[11px] text-muted">
+        Long documents are checked paragraph by paragraph; this caps how many paragraphs are checked at once.
+      </div>
+
+      <div className="mt-4 text-[11px] text-muted mb-1">Language engine</div>
+      {health ? (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-[12.5px]">
+          <dt className="text-muted">Status</dt>
+          <dd className="text-ink">{health.status}</dd>
+          <dt className="text-muted">Latency</dt>
+          <dd className="text-ink">{health.latencyMs === null ? '—' : `${health.latencyMs} ms`}</dd>
+          <dt className="text-muted">Version</dt>
+          <dd className="text-ink">{health.version ?? '—'}</dd>
+          <dt className="text-muted">Mode</dt>
+          <dd className="text-ink">{health.mode === 'premium' ? 'Premium' : 'Free'}</dd>
+          <dt className="text-muted">Languages</dt>
+          <dd className="text-ink">{health.languageCount}</dd>
+          {health.error && (
+            <>
+              <dt className="text-muted">Last error</dt>
+              <dd className="text-ink break-words">{health.error}</dd>
+            </>
+          )}
+        </dl>
+      ) : (
+        <div className="text-[12.5px] text-muted">Not reachable yet.</div>
+      )}
+    </section>
+  );
+}
+
+function IgnoredRow({
+  label,
+  hint,
+  action = 'Restore',
+  onRestore,
+}: {
+  label: string;
+  hint?: string;
+  action?: string;
+  onRestore: () => void;
+}) {
+  return (
+    <li className="flex items-center justify-between gap-3 py-2">
+      <div className="min-w-0">
+        <div className="text-[12.5px] text-ink truncate">{label}</div>
+        {hint && hint !== label && <div className="text-[11px] text-muted truncate">{hint}</div>}
+      </div>
+      <button className="btn-ghost" onClick={onRestore}>
+        {action}
+      </button>
+    </li>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { PERMISSION_LABEL, createShare, listShares, revokeShare, shareUrl } from './sharing';
+import { DEFAULT_SHARE_DAYS, SHARE_PERMISSIONS, SharePermission, ShareLink } from './functions/lib/shareApi';
+
+const PERMISSION_HINT: Record<SharePermission, string> = {
+  view: 'Read the document, nothing else.',
+  comment: 'Read and leave comments on passages.',
+  suggest: 'Edit a copy; the edits come back to you as suggestions.',
+};
+
+const EXPIRY_DAYS = [1, 7, 30, 90];
+
+/**
+ * Share links for the open document. Each link is a snapshot of the document
+ * as it is now, with its own permission and expiry; comments and suggested
+ * edits sent through it show up next to the editor's suggestions.
+ */
+export default function ShareDialog({
+  doc,
+  onClose,
+}: {
+  doc: { docId: string; title: string; body: string; content?: string };
+  onClose: () => void;
+}) {
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [permission, setPermission] = useState<SharePermission>('view');
+  const [days, setDays] = useState(DEFAULT_SHARE_DAYS);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    listShares(doc.docId)
+      .then(setLinks)
+      .catch((e: Error) => {
+        setLinks([]);
+        setError(e.message);
+      });
+  }, [doc.docId]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  async function create() {
+    setBusy(true);
+    setError(null);
+    try {
+      const link = await createShare(doc, permission, days);
+      setLinks((prev) => [link, ...(prev ?? [])]);
+      copy(link);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revoke(link: ShareLink) {
+    try {
+      await revokeShare(link.id);
+      setLinks((prev) => prev?.filter((l) => l.id !== link.id) ?? null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function copy(link: ShareLink) {
+    navigator.clipboard?.writeText(shareUrl(link.token)).then(
+      () => setCopied(link.id),
+      () => {
+        // Clipboard blocked: the link is still there to select by hand.
+      },
+    );
+  }
+
+  const select =
+    'text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus';
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Share"
+        className="card w-full max-w-xl max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-line">
+          <div className="flex items-center justify-between">
+            <div className="text-[13px] font-semibold">Share “{doc.title || 'Untitled doc'}”</div>
+            <button className="btn-ghost" onClick={onClose}>
+              Close
+            </button>
+          </div>
+          <div className="text-[12px] text-muted">
+            Links share the document as it is now. Later edits stay private until you make a new link.
+          </div>
+
+          <div className="mt-4 flex items-center gap-2">
+            <select
+              value={permission}
+              onChange={(e) => setPermission(e.target.value as SharePermission)}
+              className={select}
+            >
+              {SHARE_PERMISSIONS.map((p) => (
+                <option key={p} value={p}>
+                  {PERMISSION_LABEL[p]}
+                </option>
+              ))}
+            </select>
+            <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={select}>
+              {EXPIRY_DAYS.map((d) => (
+                <option key={d} value={d}>
+                  Expires in {d} day{d === 1 ? '' : 's'}
+                </option>
+              ))}
+            </select>
+            <button className="btn-primary ml-auto" onClick={create} disabled={busy}>
+              {busy ? 'Creating…' : 'Create link'}
+            </button>
+          </div>
+          <div className="mt-2 text-[12px] text-muted">{PERMISSION_HINT[permission]}</div>
+          {error && <div className="mt-2 text-[12px] text-red-700">{error}</div>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          {links === null ? (
+            <div className="text-[12.5px] text-muted">Loading links…</div>
+          ) : links.length === 0 ? (
+            <div className="text-[12.5px] text-muted">No active links for this document.</div>
+          ) : (
+            <ul className="divide-y divide-line">
+              {links.map((link) => (
+                <li key={link.id} className="py-3">
+                  <div className="flex items-center gap-2">
+                    <span className="pill text-[11px]">{PERMISSION_LABEL[link.permission]}</span>
+                    <span className="text-[11px] text-muted">
+                      Expires {new Date(link.expiresAt).toLocaleDateString()}
+                    </span>
+                    <button className="btn-ghost ml-auto" onClick={() => copy(link)}>
+                      {copied === link.id ? 'Copied' : 'Copy link'}
+                    </button>
+                    <button className="btn-ghost" onClick={() => revoke(link)}>
+                      Revoke
+                    </button>
+                  </div>
+                  <input
+                    readOnly
+                    value={shareUrl(link.token)}
+                    onFocus={(e) => e.target.select()}
+                    className={`mt-2 w-full text-muted ${select}`}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EditorContent, useEditor } from '@tiptap/react';
+import { EDITOR_EXTENSIONS, editorContent, projectText, toOffset } from './richText';
+import {
+  PERMISSION_LABEL,
+  editProposals,
+  fetchShared,
+  loadReviewerName,
+  rangeInBase,
+  saveReviewerName,
+  sendProposals,
+} from './sharing';
+import {
+  MAX_PROPOSALS,
+  ProposalInput,
+  ProposalStatus,
+  SentProposal,
+  SharedDoc,
+  allowedKinds,
+} from './functions/lib/shareApi';
+
+const STATUS_LABEL: Record<ProposalStatus, string> = {
+  open: 'Waiting',
+  accepted: 'Accepted',
+  rejected: 'Declined',
+};
+
+/**
+ * The public viewer at /share/<token>. View links show the document; comment
+ * links add comments on selected passages; suggest links also make the
+ * document editable and send the edits back as proposals for the owner.
+ */
+export default function SharedView({ token }: { token: string }) {
+  const [shared, setShared] = useState<{ doc: SharedDoc; proposals: SentProposal[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShared(token).then(setShared, (e: Error) => setError(e.message));
+  }, [token]);
+
+  useEffect(() => {
+    if (shared) document.title = `${shared.doc.title || 'Untitled doc'} · UpCube Write`;
+  }, [shared]);
+
+  return (
+    <div className="min-h-screen bg-app flex flex-col text-ink">
+      <header className="h-12 bg-surface border-b border-line flex items-center px-4 md:px-6 gap-3 print:hidden">
+        <div className="h-7 w-7 rounded-md bg-neutral-100 border border-line" />
+        <div className="min-w-0 truncate font-semibold text-sm md:text-[13.5px]">
+          {shared ? shared.doc.title || 'Untitled doc' : 'Shared document'}
+        </div>
+        {shared && (
+          <div className="ml-auto flex items-center gap-2">
+            <span className="hidden sm:inline text-[12px] text-muted">
+              Link expires {new Date(shared.doc.expiresAt).toLocaleDateString()}
+            </span>
+            <span className="pill text-[12px]">{PERMISSION_LABEL[shared.doc.permission]}</span>
+          </div>
+        )}
+      </header>
+
+      {error ? (
+        <div className="mx-auto max-w-editor w-full px-4 py-10">
+          <div className="card p-5">
+            <div className="text-[13px] font-semibold text-ink mb-1">This link can’t be opened</div>
+            <div className="text-[12.5px] text-muted">{error}. Ask the owner for a new link.</div>
+          </div>
+        </div>
+      ) : !shared ? (
+        <div className="px-4 py-10 text-center text-[12.5px] text-muted">Loading…</div>
+      ) : (
+        <SharedDocument token={token} doc={shared.doc} initialProposals={shared.proposals} />
+      )}
+    </div>
+  );
+}
+
+function SharedDocument({
+  token,
+  doc,
+  initialProposals,
+}: {
+  token: string;
+  doc: SharedDoc;
+  initialProposals: SentProposal[];
+}) {
+  const kinds = allowedKinds(doc.permission);
+  const canSuggest = kinds.includes('edit');
+  const canComment = kinds.includes('comment');
+
+  const [edited, setEdited] = useState(doc.body);
+  // The selected passage, as offsets in the text on screen.
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+  const [note, setNote] = useState('');
+  const [comments, setComments] = useState<ProposalInput[]>([]);
+  const [author, setAuthor] = useState(loadReviewerName);
+  const [sent, setSent] = useState<SentProposal[]>(initialProposals);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editor = useEditor({
+    extensions: EDITOR_EXTENSIONS,
+    content: editorContent(doc),
+    editable: canSuggest,
+    editorProps: { attributes: { class: 'rich-editor' } },
+    onUpdate: ({ editor }) => setEdited(projectText(editor.state.doc).text),
+  });
+
+  const edits = useMemo(() => (canSuggest ? editProposals(doc.body, edited) : []), [canSuggest, doc.body, edited]);
+
+  // Read-only documents don't track a selection of their own, so read the page's.
+  function readSelection() {
+    const sel = window.getSelection();
+    const dom = editor?.view.dom;
+    if (!editor || !dom || !sel || sel.isCollapsed || !sel.anchorNode || !sel.focusNode) return setSelection(null);
+    if (!dom.contains(sel.anchorNode) || !dom.contains(sel.focusNode)) return setSelection(null);
+    const a = editor.view.posAtDOM(sel.anchorNode, sel.anchorOffset);
+    const b = editor.view.posAtDOM(sel.focusNode, sel.focusOffset);
+    const projection = projectText(editor.state.doc);
+    const from = toOffset(projection, Math.min(a, b));
+    const to = toOffset(projection, Math.max(a, b));
+    setSelection(to > from ? { from, to } : null);
+  }
+
+  function addComment() {
+    if (!selection || !note.trim()) return;
+    // Comments point into the snapshot, whatever the reviewer has edited since.
+    const range = canSuggest
+      ? rangeInBase(doc.body, edited, selection.from, selection.to)
+      : { offset: selection.from, length: selection.to - selection.from };
+    const original = doc.body.slice(range.offset, range.offset + range.length);
+    setComments((prev) => [...prev, { kind: 'comment', ...range, original, note: note.trim() }]);
+    setNote('');
+    setSelection(null);
+  }
+
+  async function send() {
+    const proposals = [...edits, ...comments];
+    if (!proposals.length) return;
+    if (proposals.length > MAX_PROPOSALS) {
+      setError(`That’s more than ${MAX_PROPOSALS} changes. Send some of them first.`);
+      return;
+    }
+    setSending(true);
+    setError(null);
+    try {
+      const stored = await sendProposals(token, author.trim(), proposals);
+      saveReviewerName(author.trim());
+      setSent((prev) => [...prev, ...stored]);
+      setComments([]);
+      // The edits are with the owner now; start again from the snapshot.
+      if (edits.length && editor) {
+        editor.commands.setContent(editorContent(doc));
+        setEdited(doc.body);
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const pending = edits.length + comments.length;
+  const selected = selection ? edited.slice(selection.from, selection.to) : '';
+
+  return (
+    <div className="flex flex-1">
+      <main className="flex-1 px-4 sm:px-8 lg:px-12 py-6 lg:py-8 print:p-0">
+        <div className="mx-auto max-w-editor">
+          {canSuggest && (
+            <div className="mb-3 text-[12px] text-muted print:hidden">
+              Edit the text directly. Your changes are sent to the owner as suggestions.
+            </div>
+          )}
+          <div
+            className="card p-5 sm:p-6 print:border-0 print:shadow-none print:p-0"
+            onMouseUp={readSelection}
+            onKeyUp={readSelection}
+          >
+            <EditorContent editor={editor} />
+          </div>
+        </div>
+      </main>
+
+      {canComment && (
+        <aside className="w-80 lg:w-96 border-l border-line bg-surface hidden sm:flex flex-col print:hidden">
+          <div className="px-4 py-4 border-b border-line">
+            <div className="text-[13px] font-semibold">Your review</div>
+            <div className="text-[12px] text-muted">
+              {canSuggest ? 'Edit the text or select a passage to comment.' : 'Select a passage to comment on it.'}
+            </div>
+            <input
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              placeholder="Your name"
+              className="mt-3 w-full text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+            />
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+            {selection && (
+              <div className="card p-4">
+                <div className="text-[11px] text-muted mb-1">Comment on</div>
+                <div className="text-[12.5px] text-ink line-clamp-3 mb-2">“{selected}”</div>
+                <textarea
+                  autoFocus
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                  placeholder="Write a comment"
+                  className="w-full text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+                />
+                <div className="mt-2 flex justify-end gap-2">
+                  <button className="btn-ghost" onClick={() => setSelection(null)}>
+                    Cancel
+                  </button>
+                  <button className="btn-primary" onClick={addComment} disabled={!note.trim()}>
+                    Add comment
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {edits.map((p, i) => (
+              <ReviewItem key={`edit-${i}`} label="Your edit" before={p.original} after={p.replacement || '(delete)'} />
+            ))}
+            {comments.map((p, i) => (
+              <ReviewItem
+                key={`comment-${i}`}
+                label="Your comment"
+                before={p.original}
+                note={p.note}
+                onRemove={() => setComments((prev) => prev.filter((_, j) => j !== i))}
+              />
+            ))}
+
+            {error && <div className="text-[12px] text-red-700">{error}</div>}
+            <button className="btn-primary w-full" onClick={send} disabled={!pending || sending}>
+              {sending ? 'Sending…' : pending ? `Send ${pending} to the owner` : 'Nothing to send yet'}
+            </button>
+
+            {sent.length > 0 && (
+              <div className="pt-3">
+                <div className="text-[12px] font-medium text-muted mb-2">Sent</div>
+                <div className="space-y-2">
+                  {sent.map((p) => (
+                    <ReviewItem
+                      key={p.id}
+                      label={`${p.kind === 'edit' ? 'Edit' : 'Comment'} · ${STATUS_LABEL[p.status]}`}
+                      before={p.original}
+                      after={p.kind === 'edit' ? p.replacement || '(delete)' : undefined}
+                      note={p.note}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </aside>
+      )}
+    </div>
+  );
+}
+
+function ReviewItem({
+  label,
+  before,
+  after,
+  note,
+  onRemove,
+}: {
+  label: string;
+  before: string;
+  after?: string;
+  note?: string;
+  onRemove?: () => void;
+}) {
+  return (
+    <div className="rounded-md border border-line bg-white p-3 text-[12px]">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-[11px] text-muted">{label}</span>
+        {onRemove && (
+          <button className="text-[11px] text-muted hover:text-ink" onClick={onRemove}>
+            Remove
+          </button>
+        )}
+      </div>
+      {before && <div className={after !== undefined ? 'text-red-700 line-through' : 'text-ink'}>{before}</div>}
+      {after !== undefined && <div className="text-emerald-700">{after}</div>}
+      {note && <div className="mt-1 text-ink">{note}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import type { DocSettings } from './docStore';
+import { GOAL_OPTIONS, WritingGoals, goalsOf } from './goals';
+import { BUILTIN_TEMPLATES, Template, fieldLabel, fillTemplate, placeholders, templateFromDoc } from './templates';
+
+/**
+ * Templates: start a document from a built-in or saved template, filling in
+ * its `{{fields}}` first, or save the open document as a new template.
+ */
+export default function TemplatesPanel({
+  templates,
+  onTemplatesChange,
+  openDoc,
+  onCreate,
+}: {
+  templates: Template[];
+  onTemplatesChange: (next: Template[]) => void;
+  openDoc: { title: string; body: string; content?: string; settings?: DocSettings } | null;
+  onCreate: (fields: { title: string; body: string; content?: string; settings?: DocSettings }) => void;
+}) {
+  const [selected, setSelected] = useState<Template | null>(null);
+
+  function use(template: Template) {
+    if (placeholders(template).length) setSelected(template);
+    else create(template, {});
+  }
+
+  function create(template: Template, values: Record<string, string>) {
+    const settings = template.settings ? { ...template.settings } : undefined;
+    onCreate({ ...fillTemplate(template, values), settings });
+    setSelected(null);
+  }
+
+  function remove(template: Template) {
+    if (!window.confirm(`Delete the template “${template.name}”?`)) return;
+    onTemplatesChange(templates.filter((t) => t.id !== template.id));
+    if (selected?.id === template.id) setSelected(null);
+  }
+
+  return (
+    <div className="h-full overflow-y-auto px-4 sm:px-8 lg:px-12 py-6 lg:py-8">
+      <div className="mx-auto max-w-editor space-y-6">
+        <div>
+          <div className="text-[13px] font-semibold">Templates</div>
+          <div className="text-[12px] text-muted">Start a new document from a template.</div>
+        </div>
+
+        {selected && (
+          <FillSection
+            key={selected.id}
+            template={selected}
+            onCreate={(values) => create(selected, values)}
+            onCancel={() => setSelected(null)}
+          />
+        )}
+
+        <TemplateList title="Built-in" templates={BUILTIN_TEMPLATES} onUse={use} />
+        <TemplateList
+          title="Your templates"
+          templates={templates}
+          empty="Save a document below to reuse it as a template."
+          onUse={use}
+          onRemove={remove}
+        />
+
+        <SaveSection openDoc={openDoc} onSave={(t) => onTemplatesChange([...templates, t])} />
+      </div>
+    </div>
+  );
+}
+
+function TemplateList({
+  title,
+  templates,
+  empty,
+  onUse,
+  onRemove,
+}: {
+  title: string;
+  templates: Template[];
+  empty?: string;
+  onUse: (t: Template) => void;
+  onRemove?: (t: Template) => void;
+}) {
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">{title}</div>
+      {templates.length === 0 ? (
+        <div className="text-[12.5px] text-muted">{empty}</div>
+      ) : (
+        <ul className="divide-y divide-line">
+          {templates.map((t) => {
+            const fields = placeholders(t).length;
+            const defaults = describeSettings(t.settings);
+            return (
+              <li key={t.id} className="py-3 flex items-start gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="text-[12.5px] font-medium text-ink">{t.name}</div>
+                  {t.description && <div className="text-[12px] text-muted">{t.description}</div>}
+                  <div className="mt-1 text-[11px] text-muted">
+                    {fields ? `${fields} field${fields === 1 ? '' : 's'}` : 'No fields'}
+                    {defaults && ` · ${defaults}`}
+                  </div>
+                </div>
+                {onRemove && (
+                  <button className="btn-ghost" onClick={() => onRemove(t)}>
+                    Delete
+                  </button>
+                )}
+                <button className="btn-primary" onClick={() => onUse(t)}>
+                  Use
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function FillSection({
+  template,
+  onCreate,
+  onCancel,
+}: {
+  template: Template;
+  onCreate: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}) {
+  const fields = placeholders(template);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-1">New document from “{template.name}”</div>
+      <div className="text-[12px] text-muted mb-4">Fields left blank stay in the text as placeholders.</div>
+
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onCreate(values);
+        }}
+      >
+        {fields.map((field, i) => (
+          <label key={field} className="flex items-center justify-between gap-3">
+            <span className="text-[12.5px] text-ink">{fieldLabel(field)}</span>
+            <input
+              autoFocus={i === 0}
+              value={values[field] ?? ''}
+              onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+              className="w-64 text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus"
+            />
+          </label>
+        ))}
+        <div className="flex justify-end gap-2 pt-1">
+          <button type="button" className="btn-ghost" onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="submit" className="btn-primary">
+            Create document
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
+
+function SaveSection({
+  openDoc,
+  onSave,
+}: {
+  openDoc: { title: string; body: string; content?: string; settings?: DocSettings } | null;
+  onSave: (t: Template) => void;
+}) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [keepSettings, setKeepSettings] = useState(true);
+
+  function save() {
+    if (!openDoc) return;
+    onSave(templateFromDoc(openDoc, name, description, keepSettings));
+    setName('');
+    setDescription('');
+  }
+
+  const input =
+    'text-[12.5px] bg-white border border-line rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-focus';
+
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-1">Save the open document as a template</div>
+      <div className="text-[12px] text-muted mb-4">
+        Write <span className="font-mono">{'{{field}}'}</span> where each new document should ask for a value.
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={openDoc?.title || 'Template name'}
+          className={input}
+        />
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className={input}
+        />
+      </div>
+      <div className="mt-2 flex items-center gap-3">
+        <label className="flex items-center gap-1.5 text-[12px] text-muted">
+          <input type="checkbox" checked={keepSettings} onChange={(e) => setKeepSettings(e.target.checked)} />
+          Keep its language and goals
+          {openDoc && describeSettings(openDoc.settings) && ` (${describeSettings(openDoc.settings)})`}
+        </label>
+        <button className="btn-primary ml-auto" disabled={!openDoc} onClick={save}>
+          Save template
+        </button>
+      </div>
+    </section>
+  );
+}
+
+/** "de-DE · Formal · Business", or '' when nothing is set. */
+function describeSettings(settings: DocSettings | undefined) {
+  if (!settings) return '';
+  const parts: string[] = [];
+  if (settings.language && settings.language !== 'auto') parts.push(settings.language);
+  if (settings.goals) {
+    const goals = goalsOf(settings);
+    for (const key of Object.keys(settings.goals) as (keyof WritingGoals)[]) {
+      const option = (GOAL_OPTIONS[key] as readonly (readonly [string, string])[]).find(([v]) => v === goals[key]);
+      if (option) parts.push(option[1]);
+    }
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,188 @@
+import React, { useMemo } from 'react';
+import { FlagReason, LONG_SENTENCE_WORDS, StyleReport, Tone, analyzeStyle } from './style';
+
+const REASON_LABEL: Record<FlagReason, string> = {
+  long: 'Long',
+  'very-long': 'Very long',
+  passive: 'Passive voice',
+  hedging: 'Hedging',
+  adverbs: 'Adverb-heavy',
+};
+
+const TONE_LABEL: Record<Tone, string> = {
+  formal: 'Formal',
+  casual: 'Casual',
+  confident: 'Confident',
+  hesitant: 'Hesitant',
+};
+
+/**
+ * Tone & style: readability scores, sentence and word habits, and a rough
+ * tone read for the open document. Flagged sentences and repeated words jump
+ * to their place in the editor.
+ */
+export default function TonePanel({
+  text,
+  onReveal,
+}: {
+  text: string;
+  onReveal: (offset: number, length: number) => void;
+}) {
+  const report = useMemo(() => analyzeStyle(text), [text]);
+
+  return (
+    <div className="h-full overflow-y-auto px-4 sm:px-8 lg:px-12 py-6 lg:py-8">
+      <div className="mx-auto max-w-editor space-y-6">
+        <div>
+          <div className="text-[13px] font-semibold">Tone &amp; style</div>
+          <div className="text-[12px] text-muted">
+            {report.words} words · {report.sentences} sentences
+          </div>
+        </div>
+
+        {report.words === 0 ? (
+          <div className="card p-5 text-[12.5px] text-muted">Write something in the editor to see how it reads.</div>
+        ) : (
+          <>
+            <ReadabilitySection report={report} />
+            <HabitsSection report={report} />
+            <ToneSection report={report} />
+            <RepeatedSection report={report} onReveal={onReveal} />
+            <FlaggedSection report={report} onReveal={onReveal} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReadabilitySection({ report }: { report: StyleReport }) {
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">Readability</div>
+      <div className="grid grid-cols-3 gap-3">
+        <Metric label="Flesch reading ease" value={report.fleschReadingEase} hint={easeHint(report.fleschReadingEase)} />
+        <Metric label="Flesch-Kincaid grade" value={report.fleschKincaidGrade} hint="US school grade" />
+        <Metric label="Gunning Fog" value={report.gunningFog} hint="Years of schooling" />
+      </div>
+    </section>
+  );
+}
+
+function HabitsSection({ report }: { report: StyleReport }) {
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">Sentences &amp; words</div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <Metric label="Avg. sentence" value={report.avgSentenceLength} hint="words" />
+        <Metric label="Long sentences" value={report.longSentences} hint={`over ${LONG_SENTENCE_WORDS} words`} />
+        <Metric label="Passive voice" value={report.passiveCount} hint="uses" />
+        <Metric label="Adverbs" value={report.adverbDensity} hint={`per 100 words (${report.adverbCount})`} />
+      </div>
+    </section>
+  );
+}
+
+function ToneSection({ report }: { report: StyleReport }) {
+  const max = Math.max(1, ...Object.values(report.toneScores));
+
+  return (
+    <section className="card p-5">
+      <div className="flex items-baseline justify-between mb-3">
+        <div className="text-[13px] font-semibold text-ink">Tone</div>
+        <div className="text-[12px] text-muted">
+          {report.tone ? `Mostly ${TONE_LABEL[report.tone].toLowerCase()}` : 'Neutral'}
+        </div>
+      </div>
+      <div className="space-y-2">
+        {(Object.keys(TONE_LABEL) as Tone[]).map((tone) => (
+          <div key={tone} className="flex items-center gap-3">
+            <div className="w-20 text-[12px] text-muted">{TONE_LABEL[tone]}</div>
+            <div className="flex-1 h-1.5 rounded-full bg-neutral-100 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${tone === report.tone ? 'bg-ink' : 'bg-neutral-300'}`}
+                style={{ width: `${(report.toneScores[tone] / max) * 100}%` }}
+              />
+            </div>
+            <div className="w-10 text-right text-[11px] text-muted">{report.toneScores[tone]}</div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 text-[11px] text-muted">Marker words per 100 words.</div>
+    </section>
+  );
+}
+
+function RepeatedSection({ report, onReveal }: { report: StyleReport; onReveal: (offset: number, length: number) => void }) {
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">Repeated words</div>
+      {report.repeated.length === 0 ? (
+        <div className="text-[12.5px] text-muted">No word stands out.</div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {report.repeated.map((r) => (
+            <button
+              key={r.word}
+              className="pill hover:bg-neutral-50"
+              onClick={() => onReveal(r.offsets[0], r.word.length)}
+              title="Show the first use"
+            >
+              <span className="text-[12px] text-ink">{r.word}</span>
+              <span className="text-[11px]">×{r.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function FlaggedSection({ report, onReveal }: { report: StyleReport; onReveal: (offset: number, length: number) => void }) {
+  return (
+    <section className="card p-5">
+      <div className="text-[13px] font-semibold text-ink mb-3">Sentences to look at</div>
+      {report.flagged.length === 0 ? (
+        <div className="text-[12.5px] text-muted">Nothing flagged.</div>
+      ) : (
+        <ul className="divide-y divide-line">
+          {report.flagged.map((s) => (
+            <li key={s.offset}>
+              <button
+                className="w-full text-left py-2 px-1 -mx-1 rounded-md hover:bg-neutral-50"
+                onClick={() => onReveal(s.offset, s.length)}
+              >
+                <div className="flex flex-wrap gap-1 mb-1">
+                  {s.reasons.map((r) => (
+                    <span key={r} className="inline-flex px-1.5 rounded bg-neutral-100 text-[11px] text-muted">
+                      {REASON_LABEL[r]}
+                    </span>
+                  ))}
+                  <span className="text-[11px] text-muted">{s.words} words</span>
+                </div>
+                <div className="text-[12.5px] text-ink line-clamp-2">{s.text}</div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function Metric({ label, value, hint }: { label: string; value: number; hint: string }) {
+  return (
+    <div className="rounded-md border border-line bg-white p-3">
+      <div className="text-[11px] text-muted">{label}</div>
+      <div className="text-[18px] font-semibold text-ink">{value}</div>
+      <div className="text-[11px] text-muted">{hint}</div>
+    </div>
+  );
+}
+
+function easeHint(score: number) {
+  if (score >= 80) return 'Very easy';
+  if (score >= 60) return 'Plain English';
+  if (score >= 40) return 'Fairly difficult';
+  return 'Difficult';
+}
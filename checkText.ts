@@ -0,0 +1,134 @@
+import type { LTMatch } from './types';
+
+/**
+ * Text as it is sent to LanguageTool, plus what is needed to translate the
+ * offsets that come back into document coordinates.
+ *
+ * The sent text differs from the document in two ways:
+ * - leading/trailing whitespace is trimmed (`leading` chars dropped up front);
+ * - CRLF line endings are sent as LF (`droppedCR` holds the sent offsets
+ *   that had a `\r` removed right before them).
+ */
+export type PreparedCheck = {
+  text: string;
+  leading: number;
+  droppedCR: number[];
+};
+
+export function prepareCheckText(doc: string): PreparedCheck {
+  const leading = doc.length - doc.trimStart().length;
+  const trimmed = doc.trim();
+
+  const droppedCR: number[] = [];
+  let text = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === '\r' && trimmed[i + 1] === '\n') {
+      droppedCR.push(text.length);
+      continue;
+    }
+    text += ch;
+  }
+
+  return { text, leading, droppedCR };
+}
+
+/** Sent-text offset (UTF-16) → document offset. */
+export function toDocumentOffset(prepared: PreparedCheck, sentOffset: number) {
+  let crs = 0;
+  // droppedCR is ascending; a `\r` sits before the `\n` at that sent offset.
+  for (const at of prepared.droppedCR) {
+    if (at >= sentOffset) break;
+    crs++;
+  }
+  return prepared.leading + sentOffset + crs;
+}
+
+/**
+ * Translate LanguageTool matches for `prepared.text` into document offsets.
+ *
+ * LanguageTool itself counts UTF-16 code units like JavaScript does, but some
+ * compatible servers count code points instead, which drifts after every
+ * emoji or other astral character. When the text has any, we score both
+ * readings against each match's context snippet and word boundaries and go
+ * with the better one for the whole response. Matches that still don't fit
+ * are dropped rather than underlining the wrong text.
+ */
+export function toDocumentMatches(matches: LTMatch[], prepared: PreparedCheck): LTMatch[] {
+  const codePoints = hasAstral(prepared.text) ? codePointToUtf16(prepared.text) : null;
+  const unit = codePoints ? detectUnit(matches, prepared.text, codePoints) : 'utf16';
+
+  const out: LTMatch[] = [];
+  for (const m of matches) {
+    const range = resolve(m, prepared.text, unit, codePoints);
+    if (!range) continue;
+
+    const docStart = toDocumentOffset(prepared, range.start);
+    const docEnd = toDocumentOffset(prepared, range.end);
+    out.push({ ...m, offset: docStart, length: docEnd - docStart });
+  }
+
+  return out;
+}
+
+type OffsetUnit = 'utf16' | 'codepoint';
+
+function resolve(m: LTMatch, text: string, unit: OffsetUnit, codePoints: number[] | null) {
+  const start = unit === 'codepoint' ? codePoints?.[m.offset] : m.offset;
+  const end = unit === 'codepoint' ? codePoints?.[m.offset + m.length] : m.offset + m.length;
+  if (start === undefined || end === undefined) return null;
+  if (!fitsContext(text, start, end, m, unit)) return null;
+  return { start, end };
+}
+
+function detectUnit(matches: LTMatch[], text: string, codePoints: number[]): OffsetUnit {
+  let score = 0;
+  for (const m of matches) {
+    score += fitScore(resolve(m, text, 'codepoint', codePoints), text);
+    score -= fitScore(resolve(m, text, 'utf16', codePoints), text);
+  }
+  return score > 0 ? 'codepoint' : 'utf16';
+}
+
+// LanguageTool flags whole tokens, so a range that cuts a word is suspect.
+function fitScore(range: { start: number; end: number } | null, text: string) {
+  if (!range) return 0;
+  let score = 1;
+  if (!(isWordChar(text[range.start - 1]) && isWordChar(text[range.start]))) score++;
+  if (!(isWordChar(text[range.end - 1]) && isWordChar(text[range.end]))) score++;
+  return score;
+}
+
+function isWordChar(ch: string | undefined) {
+  return !!ch && /[\p{L}\p{N}]/u.test(ch);
+}
+
+function fitsContext(text: string, start: number, end: number, m: LTMatch, unit: OffsetUnit) {
+  if (start < 0 || end > text.length || end < start) return false;
+
+  const ctx = m.context;
+  if (!ctx?.text || typeof ctx.offset !== 'number' || typeof ctx.length !== 'number') return true;
+
+  // The context snippet may be shortened with "..." but the flagged part is intact.
+  const flagged =
+    unit === 'utf16'
+      ? ctx.text.slice(ctx.offset, ctx.offset + ctx.length)
+      : Array.from(ctx.text).slice(ctx.offset, ctx.offset + ctx.length).join('');
+  return text.slice(start, end) === flagged;
+}
+
+function hasAstral(text: string) {
+  return /[\uD800-\uDBFF]/.test(text);
+}
+
+/** Index i holds the UTF-16 offset of code point i (plus one past the end). */
+function codePointToUtf16(text: string) {
+  const map: number[] = [];
+  let i = 0;
+  for (const ch of text) {
+    map.push(i);
+    i += ch.length;
+  }
+  map.push(i);
+  return map;
+}
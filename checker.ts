@@ -0,0 +1,293 @@
+import { prepareCheckText, toDocumentMatches } from './checkText';
+import type { CheckRequest, CheckResponse } from './functions/lib/checkApi';
+import type { LTMatch } from './types';
+
+/**
+ * Chunked checking for /api/v1/check.
+ *
+ * The document's paragraphs are grouped into chunks of a few paragraphs each,
+ * and each chunk is checked on its own and cached by a hash of its content
+ * plus the check options. Typing in one paragraph therefore only re-checks
+ * its chunk, a long document is a handful of requests rather than one per
+ * line, and nothing goes to LanguageTool as one oversized request.
+ *
+ * When the server says the rate limit is used up, checks pause for as long
+ * as it asks; until then only cached chunks count.
+ */
+
+export type CheckOptions = {
+  language: string;
+  motherTongue?: string;
+  preferredVariants?: string[];
+  disabledRules: string[];
+  level?: CheckRequest['level'];
+  enabledCategories?: string[];
+  disabledCategories?: string[];
+  dictionaries: { personal: string; team: string };
+  maxConcurrency: number;
+};
+
+export type CheckResult = {
+  // In document offsets, sorted by offset.
+  matches: LTMatch[];
+  detectedLanguage: { name?: string; code?: string } | null;
+  failed: number;
+  total: number;
+};
+
+type Paragraph = { start: number; text: string };
+
+type CachedParagraph = {
+  matches: LTMatch[];
+  detected: { name?: string; code?: string } | null;
+};
+
+// Chunks never grow past this; a longer paragraph is cut at sentence ends.
+const MAX_CHUNK_LENGTH = 6000;
+// About one paragraph in this many ends a chunk, see splitChunks.
+const PARAGRAPHS_PER_CHUNK = 8;
+const MAX_CACHE_ENTRIES = 2000;
+// Used when a rate-limited answer doesn't say how long to wait.
+const DEFAULT_BACKOFF_MS = 30_000;
+
+// Date.now() until which checks are paused after a rate-limited answer.
+let pausedUntil = 0;
+
+/* ----------------------------- Settings ----------------------------- */
+
+export type CheckerSettings = { maxConcurrency: number };
+
+export const MAX_CONCURRENCY_LIMIT = 8;
+const SETTINGS_KEY = 'upcube.checker.v1';
+const DEFAULT_SETTINGS: CheckerSettings = { maxConcurrency: 3 };
+
+export function loadCheckerSettings(): CheckerSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<CheckerSettings>) : {};
+    return { maxConcurrency: clampConcurrency(parsed.maxConcurrency ?? DEFAULT_SETTINGS.maxConcurrency) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveCheckerSettings(settings: CheckerSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Not fatal: the default applies next time.
+  }
+}
+
+export function clampConcurrency(n: number) {
+  if (!Number.isFinite(n)) return DEFAULT_SETTINGS.maxConcurrency;
+  return Math.min(MAX_CONCURRENCY_LIMIT, Math.max(1, Math.round(n)));
+}
+
+/* ----------------------------- Checking ----------------------------- */
+
+export type ParagraphCache = Map<string, CachedParagraph>;
+
+export function createParagraphCache(): ParagraphCache {
+  return new Map();
+}
+
+export async function checkDocument(
+  text: string,
+  options: CheckOptions,
+  cache: ParagraphCache,
+  signal?: AbortSignal,
+): Promise<CheckResult> {
+  const chunks = splitChunks(text);
+  const optionsKey = JSON.stringify([
+    options.language,
+    options.motherTongue,
+    options.preferredVariants,
+    options.disabledRules,
+    options.level,
+    options.enabledCategories,
+    options.disabledCategories,
+    options.dictionaries,
+  ]);
+
+  let failed = 0;
+  const results = await mapWithConcurrency(chunks, clampConcurrency(options.maxConcurrency), async (chunk) => {
+    const key = `${hashString(chunk.text)}:${chunk.text.length}:${optionsKey}`;
+    const hit = cache.get(key);
+    if (hit) {
+      // Refresh recency so the eviction below drops the stalest entries.
+      cache.delete(key);
+      cache.set(key, hit);
+      return { chunk, result: hit };
+    }
+
+    if (Date.now() < pausedUntil) {
+      failed++;
+      return null;
+    }
+    try {
+      const result = await checkChunk(chunk.text, options, signal);
+      if (!result) {
+        failed++;
+        return null;
+      }
+      cache.set(key, result);
+      return { chunk, result };
+    } catch (err) {
+      // An abort ends the whole check; anything else only loses this chunk.
+      if (signal?.aborted) throw err;
+      failed++;
+      return null;
+    }
+  });
+
+  while (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+
+  const matches: LTMatch[] = [];
+  const detectedVotes = new Map<string, { lang: { name?: string; code?: string }; weight: number }>();
+  for (const r of results) {
+    if (!r) continue;
+    for (const m of r.result.matches) matches.push({ ...m, offset: m.offset + r.chunk.start });
+    const d = r.result.detected;
+    if (d?.code) {
+      const vote = detectedVotes.get(d.code) ?? { lang: d, weight: 0 };
+      vote.weight += r.chunk.text.length;
+      detectedVotes.set(d.code, vote);
+    }
+  }
+  matches.sort((a, b) => a.offset - b.offset);
+
+  // The language most of the text was detected as.
+  let detectedLanguage: CheckResult['detectedLanguage'] = null;
+  let best = 0;
+  for (const v of detectedVotes.values()) {
+    if (v.weight > best) {
+      best = v.weight;
+      detectedLanguage = v.lang;
+    }
+  }
+
+  return { matches, detectedLanguage, failed, total: chunks.length };
+}
+
+async function checkChunk(text: string, options: CheckOptions, signal?: AbortSignal) {
+  // Offsets come back relative to what we sent; `prepared` maps them home.
+  const prepared = prepareCheckText(text);
+  const body: CheckRequest = {
+    text: prepared.text,
+    language: options.language,
+    motherTongue: options.motherTongue,
+    preferredVariants: options.preferredVariants,
+    disabledRules: options.disabledRules,
+    level: options.level,
+    enabledCategories: options.enabledCategories,
+    disabledCategories: options.disabledCategories,
+    dictionaries: options.dictionaries,
+  };
+  const res = await fetch('/api/v1/check', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const payload = (await res.json().catch(() => null)) as CheckResponse | null;
+  if (!payload?.ok) {
+    const error = payload?.error;
+    if (res.status === 429 || error?.code === 'rate_limited' || error?.retryAfter) {
+      const wait = error?.retryAfter ? error.retryAfter * 1000 : DEFAULT_BACKOFF_MS;
+      pausedUntil = Math.max(pausedUntil, Date.now() + wait);
+    }
+    return null;
+  }
+
+  return {
+    matches: toDocumentMatches(payload.matches, prepared),
+    detected: payload.language?.detectedLanguage ?? null,
+  };
+}
+
+/* ----------------------------- Helpers ----------------------------- */
+
+/**
+ * Non-blank paragraphs (lines) grouped into chunks with their document
+ * offsets; a paragraph over MAX_CHUNK_LENGTH is cut at sentence ends. A chunk
+ * ends after a paragraph whose hash picks it, not at a running length, so an
+ * edit moves at most the chunk boundary next to it and the rest stay cached.
+ */
+export function splitChunks(text: string): Paragraph[] {
+  const out: Paragraph[] = [];
+  let open: Paragraph | null = null;
+  const re = /[^\n]+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    if (!m[0].trim()) continue;
+    for (const piece of cutLong(m[0])) {
+      const start = m.index + piece.start;
+      const end = start + piece.text.length;
+      if (open && end - open.start <= MAX_CHUNK_LENGTH) {
+        open.text = text.slice(open.start, end);
+      } else {
+        if (open) out.push(open);
+        open = { start, text: piece.text };
+      }
+      if (hash53(piece.text) % PARAGRAPHS_PER_CHUNK === 0) {
+        out.push(open);
+        open = null;
+      }
+    }
+  }
+  if (open) out.push(open);
+  return out;
+}
+
+function cutLong(text: string): Paragraph[] {
+  if (text.length <= MAX_CHUNK_LENGTH) return [{ start: 0, text }];
+
+  const out: Paragraph[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + MAX_CHUNK_LENGTH, text.length);
+    if (end < text.length) {
+      // Prefer the last sentence end in the window, then the last space.
+      const window = text.slice(start, end);
+      const sentence = Math.max(window.lastIndexOf('. '), window.lastIndexOf('! '), window.lastIndexOf('? '));
+      const cut = sentence > 0 ? sentence + 2 : window.lastIndexOf(' ') + 1;
+      if (cut > 0) end = start + cut;
+    }
+    out.push({ start, text: text.slice(start, end) });
+    start = end;
+  }
+  return out;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function hashString(str: string) {
+  return hash53(str).toString(36);
+}
+
+/** cyrb53: fast 53-bit string hash, plenty for cache keys. */
+function hash53(str: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
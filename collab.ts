@@ -0,0 +1,172 @@
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { prosemirrorToYXmlFragment, yXmlFragmentToProseMirrorRootNode } from 'y-prosemirror';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { ownerHeaders } from './owner';
+import { editorSchema, projectText } from './richText';
+
+/**
+ * Live editing. Each open document joins a room at /api/collab/<docId>
+ * (a Durable Object in production, `npm run collab` locally) that relays
+ * Yjs updates and presence between everyone who has it open under the same
+ * owner key. The key buys a short-lived ticket for the socket.
+ *
+ * The Yjs document becomes the editor's source of truth once the room has
+ * synced; until then, or when the room can't be reached, the editor works on
+ * the local copy as before. The plain text the checks run on is still
+ * projected from the editor, so remote edits reach it like local ones.
+ */
+
+export type CollabUser = { name: string; color: string };
+
+/** Someone in the room, from Yjs awareness. */
+export type Peer = CollabUser & { clientId: number; self: boolean };
+
+export type CollabSession = { docId: string; ydoc: Y.Doc; provider: WebsocketProvider };
+
+// The XML fragment TipTap's Collaboration extension binds to.
+export const COLLAB_FIELD = 'default';
+
+// Room-wide state kept in the Yjs doc: `seededBy` is the client that filled the empty room.
+const ROOM_META = 'room';
+// Origin of the seeding transactions; the editor's undo history only tracks its own.
+const SEED_ORIGIN = 'seed';
+
+const USER_KEY = 'upcube.collab.user.v1';
+
+// Cursor and avatar colours; readable behind white text.
+const COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#dc2626', '#0891b2', '#4f46e5'];
+
+export function loadCollabUser(): CollabUser {
+  try {
+    const raw = localStorage.getItem(USER_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<CollabUser>) : {};
+    if (parsed.name && parsed.color) return parsed as CollabUser;
+  } catch {
+    // Fall through to a fresh identity.
+  }
+  const user = {
+    name: `Guest ${Math.floor(100 + Math.random() * 900)}`,
+    color: COLORS[Math.floor(Math.random() * COLORS.length)],
+  };
+  saveCollabUser(user);
+  return user;
+}
+
+export function saveCollabUser(user: CollabUser) {
+  try {
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+  } catch {
+    // Not fatal: a new guest name next time.
+  }
+}
+
+export function joinSession(docId: string, user: CollabUser): CollabSession {
+  const ydoc = new Y.Doc();
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  const provider = new WebsocketProvider(`${protocol}://${window.location.host}/api/collab`, docId, ydoc, {
+    connect: false,
+    maxBackoffTime: 30_000,
+  });
+  provider.awareness.setLocalStateField('user', user);
+
+  // Tickets only last a minute: get one before connecting, and a fresh one
+  // whenever the socket drops, ahead of the provider's own reconnect.
+  const renew = async () => {
+    const ticket = await fetchTicket(docId);
+    provider.params = ticket ? { ticket } : {};
+  };
+  provider.on('status', ({ status }: { status: string }) => {
+    if (status === 'disconnected' && !ydoc.isDestroyed) void renew();
+  });
+  void renew().then(() => {
+    if (!ydoc.isDestroyed) provider.connect();
+  });
+  return { docId, ydoc, provider };
+}
+
+// A ticket into the document's room (functions/lib/collabTicket.ts), or null.
+async function fetchTicket(docId: string): Promise<string | null> {
+  try {
+    const res = await fetch(`/api/collab/${encodeURIComponent(docId)}/ticket`, {
+      method: 'POST',
+      headers: ownerHeaders(),
+    });
+    const json = (await res.json()) as { ok?: boolean; ticket?: string };
+    return json.ok && json.ticket ? json.ticket : null;
+  } catch {
+    // `npm run collab` has no tickets and takes the socket without one.
+    return null;
+  }
+}
+
+export function leaveSession(session: CollabSession) {
+  session.provider.destroy();
+  session.ydoc.destroy();
+}
+
+export function setSessionUser(session: CollabSession, user: CollabUser) {
+  session.provider.awareness.setLocalStateField('user', user);
+}
+
+/** Everyone in the room, this tab first. */
+export function peersOf(session: CollabSession): Peer[] {
+  const self = session.provider.awareness.clientID;
+  const peers: Peer[] = [];
+  session.provider.awareness.getStates().forEach((state, clientId) => {
+    const user = state.user as CollabUser | undefined;
+    if (user?.name) peers.push({ name: user.name, color: user.color, clientId, self: clientId === self });
+  });
+  return peers.sort((a, b) => Number(b.self) - Number(a.self) || a.clientId - b.clientId);
+}
+
+/** The room's text as it stands, or null while the room is empty. */
+export function roomText(session: CollabSession): string | null {
+  const fragment = session.ydoc.getXmlFragment(COLLAB_FIELD);
+  if (fragment.length === 0) return null;
+  return projectText(yXmlFragmentToProseMirrorRootNode(fragment, editorSchema)).text;
+}
+
+/**
+ * Fill a room that is still empty with `doc`, the local copy. Returns false
+ * when the room already has a document.
+ *
+ * The emptiness check, the content and a `seededBy` flag go in one Yjs
+ * transaction, so a tab never seeds over a copy it has heard about. Two tabs
+ * joining an empty room at the same moment can still both seed before hearing
+ * from each other; the flag then settles on the same client everywhere, and
+ * the other tab takes its copy back out.
+ */
+export function seedRoom(session: CollabSession, doc: ProseMirrorNode): boolean {
+  const { ydoc } = session;
+  const meta = ydoc.getMap<number>(ROOM_META);
+  const fragment = ydoc.getXmlFragment(COLLAB_FIELD);
+  let seeded = false;
+  ydoc.transact(() => {
+    if (meta.has('seededBy') || fragment.length > 0) return;
+    meta.set('seededBy', ydoc.clientID);
+    prosemirrorToYXmlFragment(doc, fragment);
+    seeded = true;
+  }, SEED_ORIGIN);
+  if (!seeded) return false;
+
+  const settle = () => {
+    if (meta.get('seededBy') === ydoc.clientID) return;
+    meta.unobserve(settle);
+    ydoc.transact(() => {
+      // This tab's top-level blocks are its copy of the seed.
+      for (let i = fragment.length - 1; i >= 0; i--) {
+        if (fragment.get(i)._item?.id.client === ydoc.clientID) fragment.delete(i);
+      }
+    }, SEED_ORIGIN);
+  };
+  meta.observe(settle);
+  return true;
+}
+
+/** "Ada Lovelace" → "AL". */
+export function initials(name: string) {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  const letters = parts.length > 1 ? parts[0][0] + parts[parts.length - 1][0] : (parts[0] ?? '?').slice(0, 2);
+  return letters.toUpperCase();
+}
@@ -0,0 +1,138 @@
+import { ownerHeaders } from './owner';
+import { Edit, mapAnchor } from './positions';
+import type { Anchor, Comment, CommentInput, CommentThread, ThreadStatus } from './functions/lib/commentsApi';
+
+/**
+ * Comment threads, client side: the /api/comments calls, and keeping each
+ * thread on its passage while the text changes. Anchors move with every edit
+ * here (see mapAnchor) and are written back in the background, so the next
+ * person to load the document finds them in the right place.
+ */
+
+/**
+ * A thread as the aside shows it. `detached` once the passage it was on has
+ * been deleted: the discussion stays, the highlight goes.
+ */
+export type PlacedThread = CommentThread & { detached: boolean };
+
+/* ----------------------------- API ----------------------------- */
+
+export async function fetchThreads(docId: string): Promise<CommentThread[]> {
+  const res = await fetch(`/api/comments?docId=${encodeURIComponent(docId)}`, { headers: ownerHeaders() });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; threads?: CommentThread[] } | null;
+  if (!json?.ok || !json.threads) throw new Error('Comments unavailable');
+  return json.threads;
+}
+
+export async function createThread(docId: string, anchor: Anchor, input: CommentInput): Promise<CommentThread> {
+  const res = await fetch('/api/comments', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...ownerHeaders() },
+    body: JSON.stringify({ docId, ...anchor, ...input }),
+  });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; thread?: CommentThread; error?: string } | null;
+  if (!json?.ok || !json.thread) throw new Error(json?.error || 'Could not add the comment');
+  return json.thread;
+}
+
+export async function replyToThread(id: string, input: CommentInput): Promise<Comment> {
+  const res = await fetch(`/api/comments/${encodeURIComponent(id)}/replies`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...ownerHeaders() },
+    body: JSON.stringify(input),
+  });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; comment?: Comment; error?: string } | null;
+  if (!json?.ok || !json.comment) throw new Error(json?.error || 'Could not send the reply');
+  return json.comment;
+}
+
+export async function setThreadStatus(id: string, status: ThreadStatus, by: string) {
+  const res = await fetch(`/api/comments/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json', ...ownerHeaders() },
+    body: JSON.stringify({ status, by }),
+  });
+  if (!res.ok) throw new Error(status === 'resolved' ? 'Could not resolve the thread' : 'Could not reopen the thread');
+}
+
+export async function moveAnchor(id: string, anchor: Anchor) {
+  const res = await fetch(`/api/comments/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json', ...ownerHeaders() },
+    body: JSON.stringify(anchor),
+  });
+  if (!res.ok) throw new Error('Could not move the comment');
+}
+
+export async function deleteThread(id: string) {
+  const res = await fetch(`/api/comments/${encodeURIComponent(id)}`, { method: 'DELETE', headers: ownerHeaders() });
+  if (!res.ok && res.status !== 404) throw new Error('Could not delete the thread');
+}
+
+/* ----------------------------- Anchors ----------------------------- */
+
+/** Move every attached thread through an edit; `text` is the text after it. */
+export function rebaseThreads(threads: PlacedThread[], edit: Edit | null, text: string): PlacedThread[] {
+  if (!edit) return threads;
+  return threads.map((t) => {
+    if (t.detached) return t;
+    const mapped = mapAnchor(t.offset, t.length, edit);
+    if (!mapped) return { ...t, detached: true };
+    const quote = text.slice(mapped.offset, mapped.offset + mapped.length);
+    if (mapped.offset === t.offset && mapped.length === t.length && quote === t.quote) return t;
+    return { ...t, ...mapped, quote };
+  });
+}
+
+/**
+ * Threads from the server, placed on the current text. Threads already here
+ * keep the anchor they have been following; the others are placed where
+ * their quote still reads, or at its nearest copy, or left detached.
+ */
+export function placeThreads(threads: CommentThread[], text: string, current: PlacedThread[]): PlacedThread[] {
+  const known = new Map(current.map((t) => [t.id, t]));
+  return threads.map((t) => {
+    const local = known.get(t.id);
+    if (local) {
+      return { ...t, offset: local.offset, length: local.length, quote: local.quote, detached: local.detached };
+    }
+    const at = findQuote(text, t.quote, t.offset);
+    return at === -1 ? { ...t, detached: true } : { ...t, offset: at, detached: false };
+  });
+}
+
+function findQuote(text: string, quote: string, near: number) {
+  if (text.slice(near, near + quote.length) === quote) return near;
+  let best = -1;
+  for (let i = text.indexOf(quote); i !== -1; i = text.indexOf(quote, i + 1)) {
+    if (best === -1 || Math.abs(i - near) < Math.abs(best - near)) best = i;
+  }
+  return best;
+}
+
+/** Identifies where an anchor is, to tell which ones moved since they were saved. */
+export function anchorKey(a: Anchor) {
+  return `${a.offset}:${a.length}:${a.quote}`;
+}
+
+/* ----------------------------- Mentions ----------------------------- */
+
+/** A comment's text split around its @mentions, for highlighting them. */
+export function mentionParts(body: string, mentions: string[]): { text: string; mention: boolean }[] {
+  if (!mentions.length) return [{ text: body, mention: false }];
+  const names = [...mentions].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const re = new RegExp(`(?<![\\p{L}\\p{N}_])@(?:${names.join('|')})`, 'giu');
+  const parts: { text: string; mention: boolean }[] = [];
+  let at = 0;
+  for (const m of body.matchAll(re)) {
+    if (m.index! > at) parts.push({ text: body.slice(at, m.index), mention: false });
+    parts.push({ text: m[0], mention: true });
+    at = m.index! + m[0].length;
+  }
+  if (at < body.length) parts.push({ text: body.slice(at), mention: false });
+  return parts;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,89 @@
+export type DictionaryScope = 'personal' | 'team';
+
+export type DictionaryIds = { personal: string; team: string };
+
+export type Dictionaries = Record<DictionaryScope, string[]>;
+
+const IDS_KEY = 'upcube.dictionary.ids.v1';
+const TEAM_KEY_KEY = 'upcube.dictionary.teamKey.v1';
+
+/** Which word lists this browser reads and writes; the personal id is minted once. */
+export function loadDictionaryIds(): DictionaryIds {
+  try {
+    const raw = localStorage.getItem(IDS_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<DictionaryIds>) : {};
+    if (parsed.personal && parsed.team) return parsed as DictionaryIds;
+    const ids = { personal: parsed.personal || randomId(), team: parsed.team || 'default' };
+    localStorage.setItem(IDS_KEY, JSON.stringify(ids));
+    return ids;
+  } catch {
+    return { personal: randomId(), team: 'default' };
+  }
+}
+
+export function saveDictionaryIds(ids: DictionaryIds) {
+  try {
+    localStorage.setItem(IDS_KEY, JSON.stringify(ids));
+  } catch {
+    // Not fatal: the ids fall back to defaults next time.
+  }
+}
+
+/** The key that lets this browser change the team list; '' when it has none. */
+export function loadTeamKey() {
+  try {
+    return localStorage.getItem(TEAM_KEY_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveTeamKey(key: string) {
+  try {
+    if (key) localStorage.setItem(TEAM_KEY_KEY, key);
+    else localStorage.removeItem(TEAM_KEY_KEY);
+  } catch {
+    // Not fatal: the key has to be entered again next time.
+  }
+}
+
+export async function fetchWords(scope: DictionaryScope, id: string): Promise<string[]> {
+  const res = await fetch(`/api/lt/dictionary?scope=${scope}&id=${encodeURIComponent(id)}`);
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; words?: string[] } | null;
+  return json?.ok && json.words ? json.words : [];
+}
+
+// `teamKey` is only sent with team writes; the server refuses those without it.
+export async function addWord(scope: DictionaryScope, id: string, word: string, teamKey = '') {
+  return writeWord('POST', scope, id, word, teamKey);
+}
+
+export async function removeWord(scope: DictionaryScope, id: string, word: string, teamKey = '') {
+  return writeWord('DELETE', scope, id, word, teamKey);
+}
+
+async function writeWord(method: 'POST' | 'DELETE', scope: DictionaryScope, id: string, word: string, teamKey: string) {
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  if (scope === 'team' && teamKey) headers['x-team-key'] = teamKey;
+  const res = await fetch('/api/lt/dictionary', {
+    method,
+    headers,
+    body: JSON.stringify({ scope, id, word }),
+  });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; words?: string[]; error?: string } | null;
+  if (!json?.ok || !json.words) throw new Error(json?.error || 'Dictionary update failed');
+  return json.words;
+}
+
+/** True when a misspelling flags a word from either dictionary. */
+export function inDictionary(word: string | undefined, dictionaries: Dictionaries) {
+  if (!word) return false;
+  const w = word.toLowerCase();
+  return (
+    dictionaries.personal.some((x) => x.toLowerCase() === w) || dictionaries.team.some((x) => x.toLowerCase() === w)
+  );
+}
+
+function randomId() {
+  return (crypto.randomUUID?.() ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`).replace(/[^A-Za-z0-9_-]/g, '');
+}
@@ -0,0 +1,339 @@
+import { Fragment, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import {
+  MarkdownParser,
+  MarkdownSerializer,
+  defaultMarkdownParser,
+  defaultMarkdownSerializer,
+} from '@tiptap/pm/markdown';
+import { docNode, editorSchema, parseHtml, plainTextDoc, projectText, toHtml } from './richText';
+import type { CommentThread } from './functions/lib/commentsApi';
+
+/**
+ * Import and export: Markdown, plain text, HTML and Word, all converted in
+ * the browser. Everything goes through the editor's document, so headings,
+ * lists and inline formatting carry across formats; PDF is the print
+ * stylesheet. The Word libraries are large and load on first use. Comment
+ * threads can go along as an appendix after the document.
+ */
+
+export type DocFormat = 'md' | 'txt' | 'html' | 'docx';
+
+export const FORMAT_LABEL: Record<DocFormat, string> = {
+  md: 'Markdown (.md)',
+  txt: 'Plain text (.txt)',
+  html: 'HTML (.html)',
+  docx: 'Word (.docx)',
+};
+
+export const IMPORT_ACCEPT = '.md,.markdown,.txt,.html,.htm,.docx';
+
+const MIME: Record<DocFormat, string> = {
+  md: 'text/markdown',
+  txt: 'text/plain',
+  html: 'text/html',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/** Document fields for a new doc: `body` is the plain-text projection, `content` the HTML. */
+export type ImportedDoc = { title: string; body: string; content: string };
+
+/* ----------------------------- Markdown ----------------------------- */
+
+// prosemirror-markdown's tokenizer and serializers, mapped onto TipTap's node and mark names.
+const markdownParser = new MarkdownParser(editorSchema, defaultMarkdownParser.tokenizer, {
+  blockquote: { block: 'blockquote' },
+  paragraph: { block: 'paragraph' },
+  list_item: { block: 'listItem' },
+  bullet_list: { block: 'bulletList' },
+  ordered_list: { block: 'orderedList', getAttrs: (tok) => ({ start: Number(tok.attrGet('start')) || 1 }) },
+  // The editor offers three heading levels; deeper ones become level 3.
+  heading: { block: 'heading', getAttrs: (tok) => ({ level: Math.min(Number(tok.tag.slice(1)), 3) }) },
+  code_block: { block: 'codeBlock', noCloseToken: true },
+  fence: { block: 'codeBlock', getAttrs: (tok) => ({ language: tok.info || null }), noCloseToken: true },
+  hr: { node: 'horizontalRule' },
+  hardbreak: { node: 'hardBreak' },
+  image: { ignore: true, noCloseToken: true },
+  em: { mark: 'italic' },
+  strong: { mark: 'bold' },
+  link: { mark: 'link', getAttrs: (tok) => ({ href: tok.attrGet('href') }) },
+  code_inline: { mark: 'code', noCloseToken: true },
+});
+
+const md = defaultMarkdownSerializer;
+
+const markdownSerializer = new MarkdownSerializer(
+  {
+    blockquote: md.nodes.blockquote,
+    codeBlock(state, node) {
+      state.write('```' + (node.attrs.language || '') + '\n');
+      state.text(node.textContent, false);
+      state.write('\n```');
+      state.closeBlock(node);
+    },
+    heading: md.nodes.heading,
+    horizontalRule: md.nodes.horizontal_rule,
+    bulletList(state, node) {
+      state.renderList(node, '  ', () => '- ');
+    },
+    orderedList(state, node) {
+      const start: number = node.attrs.start ?? 1;
+      const width = String(start + node.childCount - 1).length;
+      state.renderList(node, state.repeat(' ', width + 2), (i) => {
+        const n = String(start + i);
+        return state.repeat(' ', width - n.length) + n + '. ';
+      });
+    },
+    listItem: md.nodes.list_item,
+    paragraph: md.nodes.paragraph,
+    hardBreak: md.nodes.hard_break,
+    text: md.nodes.text,
+  },
+  {
+    italic: md.marks.em,
+    bold: md.marks.strong,
+    strike: { open: '~~', close: '~~', mixable: true, expelEnclosingWhitespace: true },
+    link: md.marks.link,
+    code: md.marks.code,
+  },
+);
+
+/* ----------------------------- Import ----------------------------- */
+
+export async function importFile(file: File): Promise<ImportedDoc> {
+  const title = file.name.replace(/\.[^.]+$/, '') || 'Imported doc';
+  const format = formatOf(file.name);
+
+  if (format === 'docx') {
+    const { default: mammoth } = await import('mammoth');
+    const { value } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+    return fromNode(title, parseHtml(value));
+  }
+
+  const text = await file.text();
+  if (format === 'md') return fromNode(title, markdownParser.parse(text));
+  if (format === 'html') {
+    const page = new DOMParser().parseFromString(text, 'text/html');
+    return fromNode(page.title.trim() || title, parseHtml(page.body.innerHTML));
+  }
+  return fromNode(title, editorSchema.nodeFromJSON(plainTextDoc(text.replace(/\r\n?/g, '\n'))));
+}
+
+function formatOf(name: string): DocFormat {
+  const ext = name.toLowerCase().split('.').pop();
+  if (ext === 'md' || ext === 'markdown') return 'md';
+  if (ext === 'html' || ext === 'htm') return 'html';
+  if (ext === 'docx') return 'docx';
+  return 'txt';
+}
+
+function fromNode(title: string, node: ProseMirrorNode): ImportedDoc {
+  return { title, body: projectText(node).text, content: toHtml(node) };
+}
+
+/* ----------------------------- Export ----------------------------- */
+
+export async function exportDoc(
+  format: DocFormat,
+  doc: { title: string; body: string; content?: string },
+  comments: CommentThread[] = [],
+) {
+  const node = withComments(docNode(doc), comments);
+  const blob =
+    format === 'docx'
+      ? await docxBlob(doc.title, node)
+      : new Blob(
+          [
+            format === 'md'
+              ? markdownSerializer.serialize(node, { tightLists: true }) + '\n'
+              : format === 'html'
+                ? htmlPage(doc.title, toHtml(node))
+                : projectText(node).text + '\n',
+          ],
+          { type: MIME[format] },
+        );
+  download(blob, `${fileName(doc.title)}.${format}`);
+}
+
+function htmlPage(title: string, body: string) {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+async function docxBlob(title: string, node: ProseMirrorNode) {
+  const docx = await import('docx');
+  const { Paragraph, TextRun, ExternalHyperlink, HeadingLevel } = docx;
+  const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+
+  // Each ordered list restarts at its own number.
+  let orderedLists = 0;
+
+  function runs(block: ProseMirrorNode) {
+    const out: (InstanceType<typeof TextRun> | InstanceType<typeof ExternalHyperlink>)[] = [];
+    block.forEach((child) => {
+      if (child.type.name === 'hardBreak') {
+        out.push(new TextRun({ text: '', break: 1 }));
+        return;
+      }
+      if (!child.isText) return;
+      const has = (name: string) => child.marks.some((m) => m.type.name === name);
+      const link = child.marks.find((m) => m.type.name === 'link');
+      const run = new TextRun({
+        text: child.text!,
+        bold: has('bold'),
+        italics: has('italic'),
+        strike: has('strike'),
+        font: has('code') ? 'Courier New' : undefined,
+        style: link ? 'Hyperlink' : undefined,
+      });
+      out.push(link ? new ExternalHyperlink({ link: link.attrs.href, children: [run] }) : run);
+    });
+    return out;
+  }
+
+  type ListContext = { kind: 'bullet' | 'ordered'; level: number; instance: number } | null;
+
+  function blocks(parent: ProseMirrorNode, list: ListContext, quoted: boolean): InstanceType<typeof Paragraph>[] {
+    const out: InstanceType<typeof Paragraph>[] = [];
+    parent.forEach((node) => {
+      const name = node.type.name;
+      if (name === 'bulletList' || name === 'orderedList') {
+        const level = list ? list.level + 1 : 0;
+        const next: ListContext =
+          name === 'bulletList'
+            ? { kind: 'bullet', level, instance: 0 }
+            : { kind: 'ordered', level, instance: list?.kind === 'ordered' ? list.instance : ++orderedLists };
+        node.forEach((item) => out.push(...blocks(item, next, quoted)));
+      } else if (name === 'blockquote') {
+        out.push(...blocks(node, list, true));
+      } else if (name === 'horizontalRule') {
+        out.push(new Paragraph({ thematicBreak: true }));
+      } else if (name === 'codeBlock') {
+        for (const line of node.textContent.split('\n')) {
+          out.push(new Paragraph({ children: [new TextRun({ text: line, font: 'Courier New' })] }));
+        }
+      } else if (node.isTextblock) {
+        out.push(
+          new Paragraph({
+            children: runs(node),
+            heading: name === 'heading' ? HEADINGS[Math.min(node.attrs.level, 3) - 1] : undefined,
+            bullet: list?.kind === 'bullet' ? { level: list.level } : undefined,
+            numbering:
+              list?.kind === 'ordered' ? { reference: 'ordered', level: list.level, instance: list.instance } : undefined,
+            indent: quoted ? { left: 720 } : undefined,
+          }),
+        );
+      } else {
+        out.push(...blocks(node, list, quoted));
+      }
+    });
+    return out;
+  }
+
+  const document = new docx.Document({
+    title,
+    numbering: {
+      config: [
+        {
+          reference: 'ordered',
+          levels: [0, 1, 2, 3, 4, 5, 6, 7, 8].map((level) => ({
+            level,
+            format: docx.LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: docx.AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+          })),
+        },
+      ],
+    },
+    sections: [{ children: blocks(node, null, false) }],
+  });
+  return docx.Packer.toBlob(document);
+}
+
+/**
+ * PDF: the browser's print dialog with the print stylesheet, which shows only
+ * the title and the document. The page title becomes the suggested file name.
+ */
+export function printDoc(title: string) {
+  const previous = document.title;
+  document.title = fileName(title);
+  window.addEventListener('afterprint', () => (document.title = previous), { once: true });
+  window.print();
+}
+
+/* ----------------------------- Comments appendix ----------------------------- */
+
+function withComments(node: ProseMirrorNode, threads: CommentThread[]) {
+  if (!threads.length) return node;
+  return node.type.create(node.attrs, node.content.append(Fragment.from(commentsAppendix(threads))));
+}
+
+/** The appendix on its own, as HTML, for the printed page. */
+export function commentsAppendixHtml(threads: CommentThread[]) {
+  return threads.length ? toHtml(editorSchema.nodes.doc.create(null, commentsAppendix(threads))) : '';
+}
+
+// A numbered list of threads, each with the passage it is on and its comments underneath.
+function commentsAppendix(threads: CommentThread[]): ProseMirrorNode[] {
+  const { nodes, marks } = editorSchema;
+  const text = (s: string, mark?: 'bold' | 'italic') =>
+    s ? [editorSchema.text(s, mark ? [marks[mark].create()] : undefined)] : [];
+  const lines = (s: string) =>
+    s.split('\n').flatMap((line, i) => (i ? [nodes.hardBreak.create(), ...text(line)] : text(line)));
+
+  const items = threads.map((t) => {
+    const quote = t.quote.replace(/\s+/g, ' ').trim();
+    const heading = nodes.paragraph.create(null, [
+      ...text(`“${quote.length > 200 ? `${quote.slice(0, 200)}…` : quote}”`, 'italic'),
+      ...text(t.status === 'resolved' ? ' (resolved)' : ''),
+    ]);
+    const comments = t.comments.map((c) =>
+      nodes.listItem.create(
+        null,
+        nodes.paragraph.create(null, [
+          ...text(`${c.author || 'Someone'}, ${new Date(c.createdAt).toLocaleDateString()}: `, 'bold'),
+          ...lines(c.body),
+        ]),
+      ),
+    );
+    return nodes.listItem.create(null, comments.length ? [heading, nodes.bulletList.create(null, comments)] : heading);
+  });
+
+  return [
+    nodes.horizontalRule.create(),
+    nodes.heading.create({ level: 2 }, text('Comments')),
+    nodes.orderedList.create(null, items),
+  ];
+}
+
+/* ----------------------------- Helpers ----------------------------- */
+
+/** A file name from a document title, without extension. */
+export function fileName(title: string) {
+  return title.trim().replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-').slice(0, 120) || 'Untitled doc';
+}
+
+function download(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before the URL goes away.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
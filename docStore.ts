@@ -0,0 +1,119 @@
+import type { WritingGoals } from './goals';
+
+export type Doc = {
+  id: string;
+  title: string;
+  // Plain text, one line per paragraph; what checks, history and search see.
+  body: string;
+  // The rich document as HTML, see richText.ts. Missing for docs written before formatting.
+  content?: string;
+  createdAt: number;
+  updatedAt: number;
+  settings?: DocSettings;
+  // Server sync state, see docSync.ts.
+  remoteEtag?: string;
+  syncedAt?: number;
+  conflict?: RemoteCopy;
+};
+
+/** Per-document preferences; synced with the document as opaque JSON. */
+export type DocSettings = {
+  // 'auto' or a LanguageTool language code such as 'de-DE'.
+  language?: string;
+  motherTongue?: string;
+  // e.g. ['en-GB', 'de-AT']; only used while auto-detecting.
+  preferredVariants?: string[];
+  // Missing keys fall back to DEFAULT_GOALS.
+  goals?: Partial<WritingGoals>;
+};
+
+/** A document as /api/docs returns it. */
+export type RemoteCopy = {
+  id: string;
+  title: string;
+  body: string;
+  content?: string;
+  settings?: DocSettings;
+  createdAt: number;
+  updatedAt: number;
+  etag: string;
+};
+
+const DB_NAME = 'upcube-write';
+const DB_VERSION = 2;
+const DOCS = 'docs';
+export const VERSIONS = 'versions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Open (and on first use, create or upgrade) the local database. */
+export function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      // One step per schema version so older databases catch up in order.
+      if (e.oldVersion < 1) {
+        const docs = db.createObjectStore(DOCS, { keyPath: 'id' });
+        docs.createIndex('updatedAt', 'updatedAt');
+      }
+      if (e.oldVersion < 2) {
+        const versions = db.createObjectStore(VERSIONS, { keyPath: 'id' });
+        versions.createIndex('docId', 'docId');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Run one request in its own transaction and resolve with its result. */
+export async function run<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  op: (s: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Every document, most recently edited first. */
+export async function listDocs(): Promise<Doc[]> {
+  const docs = await run<Doc[]>(DOCS, 'readonly', (s) => s.getAll());
+  return docs.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function putDoc(doc: Doc) {
+  return run(DOCS, 'readwrite', (s) => s.put(doc));
+}
+
+export function deleteDoc(id: string) {
+  return run(DOCS, 'readwrite', (s) => s.delete(id));
+}
+
+export function createDoc(fields: Partial<Pick<Doc, 'title' | 'body' | 'content' | 'settings'>> = {}): Doc {
+  const now = Date.now();
+  return {
+    id: newId(),
+    title: fields.title ?? 'Untitled doc',
+    body: fields.body ?? '',
+    content: fields.content,
+    settings: fields.settings,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function newId() {
+  return crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
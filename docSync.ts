@@ -0,0 +1,263 @@
+import type { Doc, RemoteCopy } from './docStore';
+import { loadOwnerKey, ownerHeaders } from './owner';
+
+/**
+ * Background sync between the local IndexedDB workspace and /api/docs.
+ *
+ * Each local doc remembers the server ETag it was last in step with
+ * (`remoteEtag`) and the local `updatedAt` that version corresponds to
+ * (`syncedAt`). Anything edited since is pushed with If-Match; when the
+ * server answers 412 someone else got there first, and the doc keeps both
+ * copies (`conflict`) until the user picks one.
+ *
+ * The server only lists documents belonging to this browser's owner key
+ * (owner.ts). When the key changes, every local doc is treated as never
+ * synced, so it is pushed to the new owner instead of being taken for
+ * deleted there.
+ */
+
+type Summary = { id: string; title: string; updatedAt: number; etag: string };
+
+/** A change to one local doc, computed against the version the sync started from. */
+export type SyncPatch = { id: string; base: number; fields: Partial<Doc> };
+
+export type SyncResult = { patches: SyncPatch[]; created: Doc[]; removed: string[] };
+
+const DELETED_KEY = 'upcube.sync.deleted.v1';
+const SYNCED_OWNER_KEY = 'upcube.sync.owner.v1';
+
+export function isDirty(doc: Doc) {
+  return doc.syncedAt === undefined || doc.updatedAt > doc.syncedAt;
+}
+
+/** Remember to delete a doc on the server, even if we are offline right now. */
+export function queueRemoteDelete(doc: Doc) {
+  if (!doc.remoteEtag) return;
+  const pending = loadPendingDeletes().filter((d) => d.id !== doc.id);
+  savePendingDeletes([...pending, { id: doc.id, etag: doc.remoteEtag }]);
+}
+
+export async function syncOnce(local: Doc[], signal?: AbortSignal): Promise<SyncResult> {
+  const result: SyncResult = { patches: [], created: [], removed: [] };
+
+  const owner = loadOwnerKey();
+  const rescoped: SyncPatch[] = [];
+  if (loadSyncedOwner() !== owner) {
+    // Pending deletes and ETags belong to the previous owner's copies.
+    savePendingDeletes([]);
+    local = local.map((doc) => {
+      if (!doc.remoteEtag && !doc.conflict) return doc;
+      const fields = { remoteEtag: undefined, syncedAt: undefined, conflict: undefined };
+      rescoped.push({ id: doc.id, base: doc.updatedAt, fields });
+      return { ...doc, ...fields };
+    });
+  }
+
+  await flushDeletes(signal);
+
+  const res = await fetch('/api/docs', { headers: ownerHeaders(), signal });
+  const listed = (await res.json().catch(() => null)) as { ok?: boolean; docs?: Summary[] } | null;
+  if (!listed?.ok || !listed.docs) throw new Error('Document list unavailable');
+
+  const remote = new Map(listed.docs.map((d) => [d.id, d]));
+  const pendingDeletes = new Set(loadPendingDeletes().map((d) => d.id));
+
+  // Pull: new docs, and server changes to docs we haven't touched.
+  for (const summary of listed.docs) {
+    if (pendingDeletes.has(summary.id)) continue;
+    const doc = local.find((d) => d.id === summary.id);
+    if (doc && doc.remoteEtag === summary.etag) continue;
+    if (doc?.conflict?.etag === summary.etag) continue;
+
+    const copy = await fetchRemote(summary.id, signal);
+    if (!copy) continue;
+
+    if (!doc) {
+      result.created.push({
+        id: copy.id,
+        title: copy.title,
+        body: copy.body,
+        content: copy.content,
+        settings: copy.settings,
+        createdAt: copy.createdAt,
+        updatedAt: copy.updatedAt,
+        remoteEtag: copy.etag,
+        syncedAt: copy.updatedAt,
+      });
+    } else if (!isDirty(doc) || (doc.body === copy.body && doc.content === copy.content && doc.title === copy.title)) {
+      result.patches.push({
+        id: doc.id,
+        base: doc.updatedAt,
+        fields: {
+          title: copy.title,
+          body: copy.body,
+          content: copy.content,
+          settings: copy.settings,
+          updatedAt: copy.updatedAt,
+          remoteEtag: copy.etag,
+          syncedAt: copy.updatedAt,
+          conflict: undefined,
+        },
+      });
+    } else {
+      result.patches.push({ id: doc.id, base: doc.updatedAt, fields: { conflict: copy } });
+    }
+  }
+
+  // Docs the server used to have but no longer does were deleted elsewhere.
+  for (const doc of local) {
+    if (doc.remoteEtag && !remote.has(doc.id) && !isDirty(doc)) result.removed.push(doc.id);
+  }
+
+  // Push: local edits, unless they are waiting on a conflict decision.
+  const patched = new Set(result.patches.map((p) => p.id));
+  for (const doc of local) {
+    if (!isDirty(doc) || doc.conflict || patched.has(doc.id)) continue;
+    if (doc.remoteEtag && !remote.has(doc.id)) continue;
+    result.patches.push(await push(doc, signal));
+  }
+
+  // One patch per doc: a later one already builds on the reset.
+  for (const patch of rescoped) {
+    const later = result.patches.find((p) => p.id === patch.id);
+    if (later) later.fields = { ...patch.fields, ...later.fields };
+    else result.patches.push(patch);
+  }
+
+  saveSyncedOwner(owner);
+  return result;
+}
+
+/**
+ * Fold a sync patch into the current local doc. If the user edited the doc
+ * while the sync was running, content from the server is not applied over
+ * it; it becomes a conflict instead so nothing is lost silently.
+ */
+export function applyPatch(doc: Doc, patch: SyncPatch): Doc {
+  const f = patch.fields;
+  const touchesContent = f.body !== undefined || f.content !== undefined || f.title !== undefined;
+  if (doc.updatedAt !== patch.base && touchesContent && f.remoteEtag) {
+    return {
+      ...doc,
+      conflict: {
+        id: doc.id,
+        title: f.title ?? doc.title,
+        body: f.body ?? doc.body,
+        content: f.content ?? doc.content,
+        createdAt: doc.createdAt,
+        updatedAt: f.updatedAt ?? doc.updatedAt,
+        etag: f.remoteEtag,
+      },
+    };
+  }
+  return { ...doc, ...f };
+}
+
+/** Keep the local copy; the next push overwrites the server's version. */
+export function resolveKeepLocal(doc: Doc): Doc {
+  if (!doc.conflict) return doc;
+  return { ...doc, remoteEtag: doc.conflict.etag, syncedAt: undefined, conflict: undefined };
+}
+
+/** Take the server's copy and drop local changes. */
+export function resolveTakeRemote(doc: Doc): Doc {
+  const c = doc.conflict;
+  if (!c) return doc;
+  return {
+    ...doc,
+    title: c.title,
+    body: c.body,
+    content: c.content,
+    settings: c.settings,
+    updatedAt: c.updatedAt,
+    remoteEtag: c.etag,
+    syncedAt: c.updatedAt,
+    conflict: undefined,
+  };
+}
+
+async function push(doc: Doc, signal?: AbortSignal): Promise<SyncPatch> {
+  const headers: Record<string, string> = { 'content-type': 'application/json', ...ownerHeaders() };
+  if (doc.remoteEtag) headers['if-match'] = doc.remoteEtag;
+  else headers['if-none-match'] = '*';
+
+  const res = await fetch(`/api/docs/${encodeURIComponent(doc.id)}`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({
+      title: doc.title,
+      body: doc.body,
+      content: doc.content ?? '',
+      settings: doc.settings ?? {},
+    }),
+    signal,
+  });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; doc?: RemoteCopy } | null;
+
+  if (res.status === 412 && json?.doc) {
+    // Someone else saved exactly this (a live editing partner, usually): in step after all.
+    const copy = json.doc;
+    if (doc.body === copy.body && doc.content === copy.content && doc.title === copy.title) {
+      return { id: doc.id, base: doc.updatedAt, fields: { remoteEtag: copy.etag, syncedAt: doc.updatedAt } };
+    }
+    return { id: doc.id, base: doc.updatedAt, fields: { conflict: json.doc } };
+  }
+  if (!res.ok || !json?.doc) throw new Error(`Push failed (${res.status})`);
+
+  return { id: doc.id, base: doc.updatedAt, fields: { remoteEtag: json.doc.etag, syncedAt: doc.updatedAt } };
+}
+
+async function fetchRemote(id: string, signal?: AbortSignal): Promise<RemoteCopy | null> {
+  const res = await fetch(`/api/docs/${encodeURIComponent(id)}`, { headers: ownerHeaders(), signal });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; doc?: RemoteCopy } | null;
+  return json?.ok && json.doc ? json.doc : null;
+}
+
+async function flushDeletes(signal?: AbortSignal) {
+  const pending = loadPendingDeletes();
+  if (!pending.length) return;
+
+  const left: typeof pending = [];
+  for (const d of pending) {
+    const res = await fetch(`/api/docs/${encodeURIComponent(d.id)}`, {
+      method: 'DELETE',
+      headers: { 'if-match': d.etag, ...ownerHeaders() },
+      signal,
+    }).catch(() => null);
+    // 412: someone edited it since; their version wins and comes back on the next pull.
+    if (!res || res.status >= 500) left.push(d);
+  }
+  savePendingDeletes(left);
+}
+
+function loadPendingDeletes(): { id: string; etag: string }[] {
+  try {
+    return JSON.parse(localStorage.getItem(DELETED_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function savePendingDeletes(list: { id: string; etag: string }[]) {
+  try {
+    localStorage.setItem(DELETED_KEY, JSON.stringify(list));
+  } catch {
+    // Worst case the doc reappears from the server on another device.
+  }
+}
+
+function loadSyncedOwner() {
+  try {
+    return localStorage.getItem(SYNCED_OWNER_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveSyncedOwner(owner: string) {
+  try {
+    localStorage.setItem(SYNCED_OWNER_KEY, owner);
+  } catch {
+    // Worst case the next sync pushes everything again.
+  }
+}
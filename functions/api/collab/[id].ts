@@ -0,0 +1,25 @@
+import type { Env } from '../lt/health';
+import { roomName, ticketOwner } from '../../lib/collabTicket';
+import { isValidDocId, json } from '../../lib/docs';
+
+/**
+ * GET /api/collab/:id?ticket=… (WebSocket)
+ * The live editing room for a document; see lib/collabRoom.ts. The ticket
+ * comes from POST /api/collab/:id/ticket; without a valid one for this
+ * document the upgrade is refused with 401. Without a COLLAB binding the app
+ * keeps editing locally and syncing through /api/docs.
+ */
+export const onRequestGet: PagesFunction<Env, 'id'> = async ({ request, params, env }) => {
+  if (!env.COLLAB || !env.COLLAB_SECRET) return json({ ok: false, error: 'Live editing is not configured' }, 501);
+
+  const id = String(params.id);
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+  if (request.headers.get('upgrade') !== 'websocket') return json({ ok: false, error: 'Expected a WebSocket' }, 426);
+
+  const ticket = new URL(request.url).searchParams.get('ticket') ?? '';
+  const owner = await ticketOwner(env.COLLAB_SECRET, ticket, id);
+  if (!owner) return json({ ok: false, error: 'A valid ticket is required' }, 401);
+
+  // One room per document, wherever its editors connect from.
+  return env.COLLAB.get(env.COLLAB.idFromName(roomName(owner, id))).fetch(request);
+};
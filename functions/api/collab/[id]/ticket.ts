@@ -0,0 +1,21 @@
+import type { Env } from '../../lt/health';
+import { signTicket } from '../../../lib/collabTicket';
+import { isValidDocId, json } from '../../../lib/docs';
+import { ownerOf, ownerRequired } from '../../../lib/owner';
+
+/**
+ * POST /api/collab/:id/ticket
+ * Trades the owner key for a short-lived ticket into the document's live
+ * editing room: { ok, ticket }. See lib/collabTicket.ts.
+ */
+export const onRequestPost: PagesFunction<Env, 'id'> = async ({ request, params, env }) => {
+  if (!env.COLLAB || !env.COLLAB_SECRET) return json({ ok: false, error: 'Live editing is not configured' }, 501);
+
+  const id = String(params.id);
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const ticket = await signTicket(env.COLLAB_SECRET, id, owner);
+  return json({ ok: true, ticket }, 200, { 'cache-control': 'private, no-store' });
+};
@@ -0,0 +1,69 @@
+import type { Env } from '../lt/health';
+import { isValidDocId, json } from '../../lib/docs';
+import { ownerOf, ownerRequired } from '../../lib/owner';
+import { loadThread, parseAnchor } from '../../lib/comments';
+import { MAX_AUTHOR_LENGTH } from '../../lib/shareApi';
+
+/**
+ * PATCH /api/comments/:id
+ * Body: { status: 'open' | 'resolved', by? } to resolve or reopen a thread,
+ * and/or { offset, length, quote } to move its anchor after the text changed.
+ * Responds { ok, thread }; 404 if the thread is gone or another owner's.
+ */
+export const onRequestPatch: PagesFunction<Env, 'id'> = async ({ request, params, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const id = String(params.id);
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+
+  const b = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  const sets: string[] = [];
+  const values: unknown[] = [];
+
+  if (b.status !== undefined) {
+    if (b.status !== 'open' && b.status !== 'resolved') return json({ ok: false, error: 'Invalid status' }, 400);
+    const by = typeof b.by === 'string' ? b.by.trim().slice(0, MAX_AUTHOR_LENGTH) : '';
+    sets.push('status = ?', 'resolved_by = ?');
+    values.push(b.status, b.status === 'resolved' ? by : '');
+  }
+  if (b.offset !== undefined || b.length !== undefined || b.quote !== undefined) {
+    const anchor = parseAnchor(b);
+    if (typeof anchor === 'string') return json({ ok: false, error: anchor }, 400);
+    sets.push('range_start = ?', 'range_length = ?', 'quote = ?');
+    values.push(anchor.offset, anchor.length, anchor.quote);
+  }
+  if (!sets.length) return json({ ok: false, error: 'Nothing to change' }, 400);
+
+  const res = await env.DOCS_DB.prepare(
+    `UPDATE comment_threads SET ${sets.join(', ')}, updated_at = ? WHERE id = ? AND owner = ?`,
+  )
+    .bind(...values, Date.now(), id, owner)
+    .run();
+  if (!res.meta.changes) return json({ ok: false, error: 'Not found' }, 404);
+
+  return json({ ok: true, thread: await loadThread(env.DOCS_DB, id, owner) });
+};
+
+/**
+ * DELETE /api/comments/:id
+ * Removes one of the owner's threads and all its comments.
+ */
+export const onRequestDelete: PagesFunction<Env, 'id'> = async ({ request, params, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const id = String(params.id);
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+
+  const [, thread] = await env.DOCS_DB.batch([
+    env.DOCS_DB.prepare(
+      'DELETE FROM comments WHERE thread_id IN (SELECT id FROM comment_threads WHERE id = ? AND owner = ?)',
+    ).bind(id, owner),
+    env.DOCS_DB.prepare('DELETE FROM comment_threads WHERE id = ? AND owner = ?').bind(id, owner),
+  ]);
+  if (!thread.meta.changes) return json({ ok: false, error: 'Not found' }, 404);
+  return new Response(null, { status: 204 });
+};
@@ -0,0 +1,48 @@
+import type { Env } from '../../lt/health';
+import { isValidDocId, json } from '../../../lib/docs';
+import { ownerOf, ownerRequired } from '../../../lib/owner';
+import { CommentRow, ThreadRow, parseComment, toComment } from '../../../lib/comments';
+
+/**
+ * POST /api/comments/:id/replies
+ * Body: { author?, body, mentions? }. Adds a reply; replying to a resolved
+ * thread reopens it. 201 { ok, comment }, or 404 if the thread is gone or
+ * another owner's.
+ */
+export const onRequestPost: PagesFunction<Env, 'id'> = async ({ request, params, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const id = String(params.id);
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+
+  const comment = parseComment(await request.json().catch(() => null));
+  if (typeof comment === 'string') return json({ ok: false, error: comment }, 400);
+
+  const thread = await env.DOCS_DB.prepare('SELECT id, doc_id FROM comment_threads WHERE id = ? AND owner = ?')
+    .bind(id, owner)
+    .first<Pick<ThreadRow, 'id' | 'doc_id'>>();
+  if (!thread) return json({ ok: false, error: 'Not found' }, 404);
+
+  const now = Date.now();
+  const row: CommentRow = {
+    id: crypto.randomUUID(),
+    thread_id: thread.id,
+    doc_id: thread.doc_id,
+    author: comment.author,
+    body: comment.body,
+    mentions: JSON.stringify(comment.mentions),
+    created_at: now,
+  };
+  await env.DOCS_DB.batch([
+    env.DOCS_DB.prepare(
+      'INSERT INTO comments (id, thread_id, doc_id, author, body, mentions, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    ).bind(row.id, row.thread_id, row.doc_id, row.author, row.body, row.mentions, row.created_at),
+    env.DOCS_DB.prepare(
+      "UPDATE comment_threads SET status = 'open', resolved_by = '', updated_at = ? WHERE id = ?",
+    ).bind(now, thread.id),
+  ]);
+
+  return json({ ok: true, comment: toComment(row) }, 201);
+};
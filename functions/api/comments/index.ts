@@ -0,0 +1,102 @@
+import type { Env } from '../lt/health';
+import { isValidDocId, json } from '../../lib/docs';
+import { ownerOf, ownerRequired } from '../../lib/owner';
+import { CommentRow, ThreadRow, parseAnchor, parseComment, toThread } from '../../lib/comments';
+
+/**
+ * GET /api/comments?docId=…
+ * Every thread on a document, open and resolved, oldest first, each with its
+ * comments: { ok, threads: CommentThread[] }
+ * Like /api/docs, the routes here need the owner key and only see threads on
+ * that owner's documents; another owner's thread is a 404.
+ */
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const docId = new URL(request.url).searchParams.get('docId');
+  if (!isValidDocId(docId)) return json({ ok: false, error: 'Invalid docId' }, 400);
+
+  const [threads, comments] = await env.DOCS_DB.batch([
+    env.DOCS_DB.prepare(
+      'SELECT * FROM comment_threads WHERE owner = ? AND doc_id = ? ORDER BY created_at',
+    ).bind(owner, docId),
+    env.DOCS_DB.prepare(
+      `SELECT c.* FROM comments c JOIN comment_threads t ON t.id = c.thread_id
+       WHERE t.owner = ? AND t.doc_id = ? ORDER BY c.created_at`,
+    ).bind(owner, docId),
+  ]);
+
+  const byThread = new Map<string, CommentRow[]>();
+  for (const c of comments.results as CommentRow[]) {
+    byThread.set(c.thread_id, [...(byThread.get(c.thread_id) ?? []), c]);
+  }
+  const rows = threads.results as ThreadRow[];
+  return json({ ok: true, threads: rows.map((t) => toThread(t, byThread.get(t.id) ?? [])) });
+};
+
+/**
+ * POST /api/comments
+ * Body: { docId, offset, length, quote, author?, body, mentions? }. Opens a
+ * thread on that range with its first comment: 201 { ok, thread }
+ */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const b = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  if (!isValidDocId(b.docId)) return json({ ok: false, error: 'Invalid docId' }, 400);
+  const anchor = parseAnchor(b);
+  if (typeof anchor === 'string') return json({ ok: false, error: anchor }, 400);
+  const comment = parseComment(b);
+  if (typeof comment === 'string') return json({ ok: false, error: comment }, 400);
+
+  const now = Date.now();
+  const thread: ThreadRow = {
+    id: crypto.randomUUID(),
+    doc_id: b.docId,
+    range_start: anchor.offset,
+    range_length: anchor.length,
+    quote: anchor.quote,
+    status: 'open',
+    resolved_by: '',
+    created_at: now,
+    updated_at: now,
+    owner,
+  };
+  const first: CommentRow = {
+    id: crypto.randomUUID(),
+    thread_id: thread.id,
+    doc_id: thread.doc_id,
+    author: comment.author,
+    body: comment.body,
+    mentions: JSON.stringify(comment.mentions),
+    created_at: now,
+  };
+
+  await env.DOCS_DB.batch([
+    env.DOCS_DB.prepare(
+      `INSERT INTO comment_threads
+         (id, doc_id, range_start, range_length, quote, status, resolved_by, created_at, updated_at, owner)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      thread.id,
+      thread.doc_id,
+      thread.range_start,
+      thread.range_length,
+      thread.quote,
+      thread.status,
+      thread.resolved_by,
+      thread.created_at,
+      thread.updated_at,
+      thread.owner,
+    ),
+    env.DOCS_DB.prepare(
+      'INSERT INTO comments (id, thread_id, doc_id, author, body, mentions, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    ).bind(first.id, first.thread_id, first.doc_id, first.author, first.body, first.mentions, first.created_at),
+  ]);
+
+  return json({ ok: true, thread: toThread(thread, [first]) }, 201);
+};
@@ -0,0 +1,134 @@
+import type { Env } from '../lt/health';
+import {
+  DocRow,
+  etagFor,
+  insertDoc,
+  isValidDocId,
+  json,
+  parseDocFields,
+  toRemoteDoc,
+  versionFromEtag,
+} from '../../lib/docs';
+import { ownerOf, ownerRequired } from '../../lib/owner';
+
+type Ctx = EventContext<Env, 'id', Record<string, unknown>>;
+
+/**
+ * GET /api/docs/:id
+ * Returns { ok, doc } with an ETag; honours If-None-Match with 304.
+ * Another owner's document is a 404, the same as a missing one.
+ */
+export const onRequestGet: PagesFunction<Env, 'id'> = async (ctx) => {
+  const checked = await precheck(ctx);
+  if (checked instanceof Response) return checked;
+
+  const row = await loadRow(checked.db, checked.id, checked.owner);
+  if (!row) return json({ ok: false, error: 'Not found' }, 404);
+
+  const etag = etagFor(row.version);
+  if (ctx.request.headers.get('if-none-match') === etag) {
+    return new Response(null, { status: 304, headers: { etag } });
+  }
+  return json({ ok: true, doc: toRemoteDoc(row) }, 200, { etag });
+};
+
+/**
+ * PUT /api/docs/:id
+ * Body: { title, body, content?, settings? }. Requires either
+ * - If-Match: "<version>" to update that exact version, or
+ * - If-None-Match: * to create a document that must not exist yet.
+ * A stale precondition gets 412 with the current server copy so the client
+ * can show the conflict instead of overwriting someone else's work.
+ * Ids are per owner: another owner's document with the same id is left
+ * alone. Creating a document that predates owners claims it for the caller.
+ */
+export const onRequestPut: PagesFunction<Env, 'id'> = async (ctx) => {
+  const checked = await precheck(ctx);
+  if (checked instanceof Response) return checked;
+  const { db, id, owner } = checked;
+
+  const fields = parseDocFields(await ctx.request.json().catch(() => null));
+  if (typeof fields === 'string') return json({ ok: false, error: fields }, 400);
+
+  const ifMatch = ctx.request.headers.get('if-match');
+  const ifNoneMatch = ctx.request.headers.get('if-none-match');
+  const now = Date.now();
+
+  if (ifNoneMatch?.trim() === '*') {
+    // A document from before owners with this id becomes the caller's, and
+    // the client sees it as a conflict with its own copy.
+    const claimed = await db
+      .prepare(
+        `UPDATE docs SET owner = ? WHERE id = ? AND owner = ''
+         AND NOT EXISTS (SELECT 1 FROM docs WHERE id = ? AND owner = ?)`,
+      )
+      .bind(owner, id, id, owner)
+      .run();
+    if (claimed.meta.changes) return conflict(db, id, owner);
+
+    const row: DocRow = { id, ...fields, owner, created_at: now, updated_at: now, version: 1 };
+    const res = await insertDoc(db, row);
+    if (!res.meta.changes) return conflict(db, id, owner);
+    const doc = toRemoteDoc(row);
+    return json({ ok: true, doc }, 201, { etag: doc.etag });
+  }
+
+  const version = versionFromEtag(ifMatch);
+  if (version === null) return json({ ok: false, error: 'If-Match or If-None-Match: * is required' }, 428);
+
+  // The version check and the write are one statement, so two racing
+  // writers can't both win.
+  const res = await db
+    .prepare(
+      `UPDATE docs SET title = ?, body = ?, content = ?, settings = ?, updated_at = ?, version = version + 1
+       WHERE id = ? AND owner = ? AND version = ?`,
+    )
+    .bind(fields.title, fields.body, fields.content, fields.settings, now, id, owner, version)
+    .run();
+  if (!res.meta.changes) return conflict(db, id, owner);
+
+  const row = await loadRow(db, id, owner);
+  if (!row) return json({ ok: false, error: 'Not found' }, 404);
+  const doc = toRemoteDoc(row);
+  return json({ ok: true, doc }, 200, { etag: doc.etag });
+};
+
+/**
+ * DELETE /api/docs/:id
+ * Requires If-Match; 412 with the current copy when it is stale.
+ */
+export const onRequestDelete: PagesFunction<Env, 'id'> = async (ctx) => {
+  const checked = await precheck(ctx);
+  if (checked instanceof Response) return checked;
+  const { db, id, owner } = checked;
+
+  const version = versionFromEtag(ctx.request.headers.get('if-match'));
+  if (version === null) return json({ ok: false, error: 'If-Match is required' }, 428);
+
+  const res = await db
+    .prepare('DELETE FROM docs WHERE id = ? AND owner = ? AND version = ?')
+    .bind(id, owner, version)
+    .run();
+  if (!res.meta.changes) return conflict(db, id, owner);
+  return new Response(null, { status: 204 });
+};
+
+async function precheck(ctx: Ctx) {
+  if (!ctx.env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const id = ctx.params.id;
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+  const owner = await ownerOf(ctx.request);
+  if (!owner) return ownerRequired();
+  return { db: ctx.env.DOCS_DB, id, owner };
+}
+
+function loadRow(db: D1Database, id: string, owner: string) {
+  return db.prepare('SELECT * FROM docs WHERE id = ? AND owner = ?').bind(id, owner).first<DocRow>();
+}
+
+async function conflict(db: D1Database, id: string, owner: string) {
+  const row = await loadRow(db, id, owner);
+  if (!row) return json({ ok: false, error: 'Not found' }, 404);
+  const doc = toRemoteDoc(row);
+  return json({ ok: false, error: 'Precondition failed', doc }, 412, { etag: doc.etag });
+}
@@ -0,0 +1,57 @@
+import type { Env } from '../lt/health';
+import { DocRow, etagFor, insertDoc, isValidDocId, json, parseDocFields, toRemoteDoc } from '../../lib/docs';
+import { ownerOf, ownerRequired } from '../../lib/owner';
+
+/**
+ * GET /api/docs
+ * Lists the caller's documents without their bodies: { ok, docs: [{ id, title, updatedAt, etag }] }
+ * Every /api/docs route needs the owner key (lib/owner.ts) and only ever sees
+ * that owner's documents.
+ */
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const { results } = await env.DOCS_DB.prepare(
+    'SELECT id, title, created_at, updated_at, version FROM docs WHERE owner = ? ORDER BY updated_at DESC',
+  )
+    .bind(owner)
+    .all<Pick<DocRow, 'id' | 'title' | 'created_at' | 'updated_at' | 'version'>>();
+
+  const docs = results.map((r) => ({
+    id: r.id,
+    title: r.title,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+    etag: etagFor(r.version),
+  }));
+  return json({ ok: true, docs });
+};
+
+/**
+ * POST /api/docs
+ * Body: { id?: string, title: string, body: string, content?: string, settings?: object }
+ * Creates a document; 409 if the caller already has one with this id. Responds 201 with the doc and its ETag.
+ */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const input = (await request.json().catch(() => null)) as { id?: unknown } | null;
+  const fields = parseDocFields(input);
+  if (typeof fields === 'string') return json({ ok: false, error: fields }, 400);
+
+  const id = input?.id === undefined ? crypto.randomUUID() : input.id;
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+
+  const now = Date.now();
+  const row: DocRow = { id, ...fields, owner, created_at: now, updated_at: now, version: 1 };
+  const res = await insertDoc(env.DOCS_DB, row);
+
+  if (!res.meta.changes) return json({ ok: false, error: 'Document already exists' }, 409);
+
+  const doc = toRemoteDoc(row);
+  return json({ ok: true, doc }, 201, { etag: doc.etag });
+};
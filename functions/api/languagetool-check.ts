@@ -1,30 +1,28 @@
-export async function onRequestPost({ request, env }: any) {
-  const { text, language = "en-US" } = await request.json();
+import type { Env } from "./lt/health";
+import { ERROR_STATUS, parseCheckRequest } from "../lib/checkApi";
+import { json } from "../lib/docs";
+import { runCheck } from "../lib/languagetool";
 
-  // Use your own server if you have it; otherwise public API:
-  const base = env.LT_BASE_URL || "https://api.languagetool.org";
-  const url = `${base}/v2/check`;
+const PUBLIC_LANGUAGETOOL = "https://api.languagetool.org";
 
-  // LanguageTool expects form-encoded data
-  const form = new URLSearchParams();
-  form.set("text", text);
-  form.set("language", language);
+/**
+ * POST /api/languagetool-check
+ * Compatibility shim over /api/v1/check: answers with LanguageTool's own
+ * { matches, language } body on success and { error } with the v1 status otherwise.
+ * Like the original route, it falls back to the public LanguageTool API when
+ * LT_BASE_URL is not set.
+ */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil }) => {
+  const parsed = parseCheckRequest(await request.json().catch(() => null));
+  if (!parsed.ok) return json({ error: parsed.error.message }, ERROR_STATUS[parsed.error.code]);
 
-  // Optional: if your LT plan supports it, you might have an API key / username
-  // (LanguageTool public endpoint usually doesn't need one)
-  if (env.LT_USERNAME) form.set("username", env.LT_USERNAME);
-  if (env.LT_API_KEY) form.set("apiKey", env.LT_API_KEY);
-
-  const r = await fetch(url, {
-    method: "POST",
-    headers: { "content-type": "application/x-www-form-urlencoded" },
-    body: form.toString(),
-  });
-
-  const data = await r.json();
-
-  return new Response(JSON.stringify(data), {
-    status: r.status,
-    headers: { "content-type": "application/json" },
+  const upstream = { ...env, LT_BASE_URL: env.LT_BASE_URL || PUBLIC_LANGUAGETOOL };
+  const { status, body, headers } = await runCheck(parsed.value, upstream, {
+    client: request.headers.get("cf-connecting-ip") ?? "unknown",
+    signal: request.signal,
+    waitUntil,
   });
-}
+  return body.ok
+    ? json({ matches: body.matches, language: body.language }, status, headers)
+    : json({ error: body.error.message }, status, headers);
+};
@@ -0,0 +1,77 @@
+import type { Env } from './health';
+import { dictionaryKey, readWords } from '../../lib/dictionary';
+
+const MAX_WORDS = 5000;
+const MAX_WORD_LENGTH = 64;
+
+/**
+ * GET    /api/lt/dictionary?scope=team&id=acme       → { ok, words }
+ * POST   /api/lt/dictionary { scope, id, word }      → { ok, words }
+ * DELETE /api/lt/dictionary { scope, id, word }      → { ok, words }
+ *
+ * Word lists live in the LT_DICTIONARY KV namespace, one key per list.
+ * Writes are read-modify-write, so two people adding at the same instant can
+ * lose one word; fine for a word list, not for anything that matters more.
+ *
+ * A personal list's id is a random string only its browser knows. Team ids
+ * are shared and easy to guess, so writes to a team list need the team key
+ * (LT_TEAM_KEY) in an `x-team-key` header; without one configured, team
+ * lists are read-only.
+ */
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const url = new URL(request.url);
+  const key = dictionaryKey(url.searchParams.get('scope'), url.searchParams.get('id'));
+  if (!key) return json({ ok: false, error: 'Invalid scope or id' }, 400);
+  if (!env.LT_DICTIONARY) return json({ ok: false, error: 'LT_DICTIONARY is not bound' }, 500);
+
+  return json({ ok: true, words: await readWords(env.LT_DICTIONARY, key) });
+};
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  return updateWords(request, env, (words, word) => (words.includes(word) ? words : [...words, word].sort()));
+};
+
+export const onRequestDelete: PagesFunction<Env> = async ({ request, env }) => {
+  return updateWords(request, env, (words, word) => words.filter((w) => w !== word));
+};
+
+async function updateWords(request: Request, env: Env, update: (words: string[], word: string) => string[]) {
+  const body = (await request.json().catch(() => ({}))) as { scope?: string; id?: string; word?: string };
+  const key = dictionaryKey(body.scope ?? null, body.id ?? null);
+  if (!key) return json({ ok: false, error: 'Invalid scope or id' }, 400);
+  if (body.scope === 'team' && !(await teamKeyMatches(env, request.headers.get('x-team-key')))) {
+    return json({ ok: false, error: 'The team dictionary needs the team key to change' }, 403);
+  }
+
+  const word = typeof body.word === 'string' ? body.word.trim() : '';
+  if (!word || word.length > MAX_WORD_LENGTH || /\s/.test(word)) {
+    return json({ ok: false, error: 'Invalid word' }, 400);
+  }
+  if (!env.LT_DICTIONARY) return json({ ok: false, error: 'LT_DICTIONARY is not bound' }, 500);
+
+  const words = update(await readWords(env.LT_DICTIONARY, key), word);
+  if (words.length > MAX_WORDS) return json({ ok: false, error: 'Dictionary is full' }, 413);
+
+  await env.LT_DICTIONARY.put(key, JSON.stringify(words));
+  return json({ ok: true, words });
+}
+
+async function teamKeyMatches(env: Env, given: string | null) {
+  if (!env.LT_TEAM_KEY || !given) return false;
+  // Compare digests so the time taken says nothing about the key.
+  const [a, b] = await Promise.all([digest(env.LT_TEAM_KEY), digest(given)]);
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+async function digest(s: string) {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s)));
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
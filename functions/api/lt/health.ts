@@ -1,9 +1,33 @@
+import { DEGRADED_LATENCY_MS, EngineStatus, HealthLanguage, HealthReport } from '../../lib/healthApi';
+
 export interface Env {
   LT_BASE_URL: string;
   LT_USERNAME?: string;
   LT_API_KEY?: string;
+  // Requests per minute per client IP for /api/lt/check (default 120).
+  LT_RATE_LIMIT?: string;
+  // Personal and team word lists for /api/lt/dictionary.
+  LT_DICTIONARY?: KVNamespace;
+  // Needed to change team word lists; they are read-only without it.
+  LT_TEAM_KEY?: string;
+  // Server-side documents for /api/docs (schema in migrations/).
+  DOCS_DB?: D1Database;
+  // Signs /api/share link tokens; share links are off without it.
+  SHARE_SECRET?: string;
+  // Live editing rooms for /api/collab (lib/collabRoom.ts).
+  COLLAB?: DurableObjectNamespace;
+  // Signs /api/collab tickets; live editing is off without it.
+  COLLAB_SECRET?: string;
 }
 
+const PROBE_TIMEOUT_MS = 8000;
+// Each edge location probes at most this often; polls in between get the last report.
+const REPORT_TTL_SECONDS = 30;
+// Synthetic origin for cache keys; never fetched.
+const CACHE_ORIGIN = 'https://lt-health-cache.invalid';
+
+type ProbeResult = { software?: { version?: string; buildDate?: string } };
+
 function normalizeBaseUrl(raw: string) {
   const base = (raw || '').trim().replace(/\/+$/, '');
   if (!base) throw new Error('LT_BASE_URL is not set');
@@ -11,31 +35,106 @@ function normalizeBaseUrl(raw: string) {
   return base.endsWith('/v2') ? base : `${base}/v2`;
 }
 
-export const onRequestGet: PagesFunction<Env> = async ({ env }) => {
+export type LTLanguage = HealthLanguage;
+
+/**
+ * GET /api/lt/health
+ * A HealthReport (functions/lib/healthApi.ts): engine status, probe latency,
+ * LanguageTool version, premium or free mode, and the /v2/languages list the
+ * client uses to populate its language picker.
+ *
+ * Two probes run side by side: /v2/languages and a one-word /v2/check, so a
+ * server that lists languages but can't check shows up as degraded. The
+ * report is cached at the edge for REPORT_TTL_SECONDS, so however many
+ * clients poll, the probes cost LanguageTool at most one check per location
+ * and TTL.
+ */
+export const onRequestGet: PagesFunction<Env> = async ({ env, waitUntil }) => {
+  const mode = env.LT_USERNAME && env.LT_API_KEY ? 'premium' : 'free';
+  const key = new Request(`${CACHE_ORIGIN}/${mode}/${encodeURIComponent(env.LT_BASE_URL ?? '')}`);
+
+  const cached = await caches.default.match(key).catch(() => undefined);
+  const hit = cached ? ((await cached.json().catch(() => null)) as HealthReport | null) : null;
+  if (hit) return report(hit);
+
+  const body = await probe(env, mode);
+  const entry = new Response(JSON.stringify(body), {
+    headers: { 'content-type': 'application/json; charset=utf-8', 'cache-control': `max-age=${REPORT_TTL_SECONDS}` },
+  });
+  waitUntil(caches.default.put(key, entry).catch(() => {}));
+  return report(body);
+};
+
+async function probe(env: Env, mode: HealthReport['mode']): Promise<HealthReport> {
   try {
     const base = normalizeBaseUrl(env.LT_BASE_URL);
 
-    // Lightweight “is it up?” call.
-    const res = await fetch(`${base}/languages`, {
-      method: 'GET',
-      headers: { 'accept': 'application/json' },
-    });
-
-    if (!res.ok) {
-      return new Response(JSON.stringify({ ok: false, status: res.status }), {
-        status: 200,
-        headers: { 'content-type': 'application/json; charset=utf-8' },
-      });
+    const form = new URLSearchParams({ text: 'Hello.', language: 'en-US' });
+    if (mode === 'premium') {
+      form.set('username', env.LT_USERNAME!);
+      form.set('apiKey', env.LT_API_KEY!);
     }
 
-    return new Response(JSON.stringify({ ok: true }), {
-      status: 200,
-      headers: { 'content-type': 'application/json; charset=utf-8' },
-    });
+    const [langs, check] = await Promise.all([
+      timed(`${base}/languages`, { headers: { accept: 'application/json' } }),
+      timed(`${base}/check`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded; charset=utf-8' },
+        body: form.toString(),
+      }),
+    ]);
+
+    const list = langs.ok ? ((await langs.res!.json().catch(() => null)) as LTLanguage[] | null) : null;
+    const languages = Array.isArray(list) ? list : [];
+    const checked = check.ok ? ((await check.res!.json().catch(() => null)) as ProbeResult | null) : null;
+    const software = checked?.software;
+
+    const latencyMs = check.ok ? check.ms : langs.ok ? langs.ms : null;
+    let status: EngineStatus = 'offline';
+    if (check.ok && langs.ok && latencyMs! <= DEGRADED_LATENCY_MS) status = 'online';
+    else if (check.ok || langs.ok) status = 'degraded';
+
+    return {
+      ok: status !== 'offline',
+      status,
+      latencyMs,
+      version: software?.version ?? null,
+      buildDate: software?.buildDate ?? null,
+      mode,
+      languageCount: languages.length,
+      languages,
+      error: status === 'online' ? undefined : check.error ?? langs.error,
+    };
   } catch (err: any) {
-    return new Response(JSON.stringify({ ok: false, error: err?.message || 'unknown' }), {
-      status: 200,
-      headers: { 'content-type': 'application/json; charset=utf-8' },
-    });
+    return {
+      ok: false,
+      status: 'offline',
+      latencyMs: null,
+      version: null,
+      buildDate: null,
+      mode,
+      languageCount: 0,
+      languages: [],
+      error: err?.message || 'unknown',
+    };
   }
-};
+}
+
+async function timed(url: string, init: RequestInit) {
+  const started = Date.now();
+  try {
+    const res = await fetch(url, { ...init, signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    const ms = Date.now() - started;
+    return res.ok ? { ok: true, res, ms } : { ok: false, ms, error: `${url} answered ${res.status}` };
+  } catch (err: any) {
+    return { ok: false, ms: Date.now() - started, error: err?.message || 'unreachable' };
+  }
+}
+
+// Always 200 so the UI can handle “soft offline”; never cached by the browser.
+function report(body: HealthReport) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'content-type': 'application/json; charset=utf-8', 'cache-control': 'no-store' },
+  });
+}
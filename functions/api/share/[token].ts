@@ -0,0 +1,33 @@
+import type { Env } from '../lt/health';
+import { json } from '../../lib/docs';
+import { ProposalRow, shareForToken, toSentProposal } from '../../lib/share';
+import type { SharedDoc } from '../../lib/shareApi';
+
+/**
+ * GET /api/share/:token
+ * Public: the snapshot behind a link, { ok, doc: SharedDoc, proposals },
+ * where `proposals` are the ones already sent through this link. 404 once
+ * the link has expired or been revoked.
+ */
+export const onRequestGet: PagesFunction<Env, 'token'> = async ({ params, env }) => {
+  if (!env.DOCS_DB || !env.SHARE_SECRET) return json({ ok: false, error: 'Sharing is not configured' }, 500);
+
+  const share = await shareForToken(env.DOCS_DB, env.SHARE_SECRET, String(params.token));
+  if ('error' in share) return json({ ok: false, error: share.error }, share.status);
+
+  const { results } = await env.DOCS_DB.prepare(
+    'SELECT * FROM share_proposals WHERE share_id = ? ORDER BY created_at',
+  )
+    .bind(share.id)
+    .all<ProposalRow>();
+
+  const doc: SharedDoc = {
+    title: share.title,
+    body: share.body,
+    content: share.content || undefined,
+    permission: share.permission,
+    expiresAt: share.expires_at,
+  };
+  // Tokens are bearer credentials; keep them out of shared caches.
+  return json({ ok: true, doc, proposals: results.map(toSentProposal) }, 200, { 'cache-control': 'private, no-store' });
+};
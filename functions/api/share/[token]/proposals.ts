@@ -0,0 +1,63 @@
+import type { Env } from '../../lt/health';
+import { json } from '../../../lib/docs';
+import { ProposalRow, parseProposals, shareForToken, toSentProposal } from '../../../lib/share';
+
+/**
+ * POST /api/share/:token/proposals
+ * Body: { author?, proposals: ProposalInput[] }. Comment links may send
+ * comments, suggest links edits and comments; view links nothing (403).
+ * Responds 201 { ok, proposals } with the stored proposals.
+ */
+export const onRequestPost: PagesFunction<Env, 'token'> = async ({ request, params, env }) => {
+  if (!env.DOCS_DB || !env.SHARE_SECRET) return json({ ok: false, error: 'Sharing is not configured' }, 500);
+
+  const share = await shareForToken(env.DOCS_DB, env.SHARE_SECRET, String(params.token));
+  if ('error' in share) return json({ ok: false, error: share.error }, share.status);
+  if (share.permission === 'view') return json({ ok: false, error: 'This link is read-only' }, 403);
+
+  const parsed = parseProposals(await request.json().catch(() => null), share);
+  if (typeof parsed === 'string') return json({ ok: false, error: parsed }, 400);
+
+  const now = Date.now();
+  const rows: ProposalRow[] = parsed.proposals.map((p) => ({
+    id: crypto.randomUUID(),
+    share_id: share.id,
+    doc_id: share.doc_id,
+    kind: p.kind,
+    range_start: p.offset,
+    range_length: p.length,
+    original: p.original,
+    replacement: p.replacement ?? '',
+    note: p.note ?? '',
+    author: parsed.author,
+    status: 'open',
+    created_at: now,
+  }));
+
+  const insert = env.DOCS_DB.prepare(
+    `INSERT INTO share_proposals
+       (id, share_id, doc_id, kind, range_start, range_length, original, replacement, note, author, status, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  // One batch, so a send lands whole or not at all.
+  await env.DOCS_DB.batch(
+    rows.map((r) =>
+      insert.bind(
+        r.id,
+        r.share_id,
+        r.doc_id,
+        r.kind,
+        r.range_start,
+        r.range_length,
+        r.original,
+        r.replacement,
+        r.note,
+        r.author,
+        r.status,
+        r.created_at,
+      ),
+    ),
+  );
+
+  return json({ ok: true, proposals: rows.map(toSentProposal) }, 201);
+};
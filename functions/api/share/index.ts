@@ -0,0 +1,136 @@
+import type { Env } from '../lt/health';
+import { MAX_BODY_LENGTH, MAX_CONTENT_LENGTH, MAX_TITLE_LENGTH, isValidDocId, json } from '../../lib/docs';
+import { ownerOf, ownerRequired } from '../../lib/owner';
+import { ShareRow, signToken } from '../../lib/share';
+import { DEFAULT_SHARE_DAYS, MAX_SHARE_DAYS, ShareLink, isSharePermission } from '../../lib/shareApi';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/share?docId=…
+ * The document's live links (not expired or revoked), newest first: { ok, links: ShareLink[] }
+ * Like /api/docs, the routes here need the owner key and only see that
+ * owner's links.
+ */
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const checked = await precheck(request, env);
+  if (checked instanceof Response) return checked;
+
+  const docId = new URL(request.url).searchParams.get('docId');
+  if (!isValidDocId(docId)) return json({ ok: false, error: 'Invalid docId' }, 400);
+
+  const { results } = await checked.db
+    .prepare(
+      `SELECT id, doc_id, permission, created_at, expires_at FROM shares
+       WHERE owner = ? AND doc_id = ? AND revoked_at IS NULL AND expires_at > ? ORDER BY created_at DESC`,
+    )
+    .bind(checked.owner, docId, Date.now())
+    .all<Pick<ShareRow, 'id' | 'doc_id' | 'permission' | 'created_at' | 'expires_at'>>();
+
+  const links = await Promise.all(results.map((row) => toLink(checked.secret, row)));
+  return json({ ok: true, links });
+};
+
+/**
+ * POST /api/share
+ * Body: { docId, title, body, content?, permission: 'view' | 'comment' | 'suggest', days? }
+ * Snapshots the document and returns a signed link that expires after `days`
+ * (default 7, at most 90): 201 { ok, link: ShareLink }
+ */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  const checked = await precheck(request, env);
+  if (checked instanceof Response) return checked;
+
+  const b = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  if (!isValidDocId(b.docId)) return json({ ok: false, error: 'Invalid docId' }, 400);
+  if (typeof b.title !== 'string' || b.title.length > MAX_TITLE_LENGTH) {
+    return json({ ok: false, error: 'Invalid title' }, 400);
+  }
+  if (typeof b.body !== 'string' || b.body.length > MAX_BODY_LENGTH) {
+    return json({ ok: false, error: 'Invalid body' }, 400);
+  }
+  const content = b.content ?? '';
+  if (typeof content !== 'string' || content.length > MAX_CONTENT_LENGTH) {
+    return json({ ok: false, error: 'Invalid content' }, 400);
+  }
+  if (!isSharePermission(b.permission)) return json({ ok: false, error: 'Invalid permission' }, 400);
+
+  const days = b.days ?? DEFAULT_SHARE_DAYS;
+  if (typeof days !== 'number' || !(days > 0) || days > MAX_SHARE_DAYS) {
+    return json({ ok: false, error: `days must be between 1 and ${MAX_SHARE_DAYS}` }, 400);
+  }
+
+  const now = Date.now();
+  const row: ShareRow = {
+    id: crypto.randomUUID(),
+    doc_id: b.docId,
+    permission: b.permission,
+    title: b.title,
+    body: b.body,
+    content,
+    created_at: now,
+    expires_at: now + Math.round(days * DAY_MS),
+    revoked_at: null,
+    owner: checked.owner,
+  };
+  await checked.db
+    .prepare(
+      `INSERT INTO shares (id, doc_id, permission, title, body, content, created_at, expires_at, owner)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .bind(
+      row.id,
+      row.doc_id,
+      row.permission,
+      row.title,
+      row.body,
+      row.content,
+      row.created_at,
+      row.expires_at,
+      row.owner,
+    )
+    .run();
+
+  return json({ ok: true, link: await toLink(checked.secret, row) }, 201);
+};
+
+/**
+ * DELETE /api/share?id=…
+ * Revokes a link at once; its token stops working even before it expires.
+ */
+export const onRequestDelete: PagesFunction<Env> = async ({ request, env }) => {
+  const checked = await precheck(request, env);
+  if (checked instanceof Response) return checked;
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!isValidDocId(id)) return json({ ok: false, error: 'Invalid id' }, 400);
+
+  const res = await checked.db
+    .prepare('UPDATE shares SET revoked_at = ? WHERE id = ? AND owner = ? AND revoked_at IS NULL')
+    .bind(Date.now(), id, checked.owner)
+    .run();
+  if (!res.meta.changes) return json({ ok: false, error: 'Not found' }, 404);
+  return new Response(null, { status: 204 });
+};
+
+async function precheck(request: Request, env: Env) {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  if (!env.SHARE_SECRET) return json({ ok: false, error: 'SHARE_SECRET is not set' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+  return { db: env.DOCS_DB, secret: env.SHARE_SECRET, owner };
+}
+
+async function toLink(
+  secret: string,
+  row: Pick<ShareRow, 'id' | 'doc_id' | 'permission' | 'created_at' | 'expires_at'>,
+): Promise<ShareLink> {
+  return {
+    id: row.id,
+    docId: row.doc_id,
+    permission: row.permission,
+    token: await signToken(secret, row),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
@@ -0,0 +1,63 @@
+import type { Env } from '../lt/health';
+import { isValidDocId, json } from '../../lib/docs';
+import { ownerOf, ownerRequired } from '../../lib/owner';
+import { ProposalRow, toProposal } from '../../lib/share';
+
+/**
+ * GET /api/share/proposals?docId=…
+ * Open proposals for a document, oldest first, with the text of each
+ * snapshot they point into: { ok, proposals, snapshots: { [shareId]: body } }
+ * Only proposals sent through the caller's own links are listed or resolved.
+ */
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const docId = new URL(request.url).searchParams.get('docId');
+  if (!isValidDocId(docId)) return json({ ok: false, error: 'Invalid docId' }, 400);
+
+  const { results } = await env.DOCS_DB.prepare(
+    `SELECT p.* FROM share_proposals p JOIN shares s ON s.id = p.share_id
+     WHERE p.doc_id = ? AND s.owner = ? AND p.status = 'open' ORDER BY p.created_at`,
+  )
+    .bind(docId, owner)
+    .all<ProposalRow>();
+
+  const snapshots: Record<string, string> = {};
+  const shareIds = [...new Set(results.map((r) => r.share_id))];
+  if (shareIds.length) {
+    const { results: shares } = await env.DOCS_DB.prepare(
+      `SELECT id, body FROM shares WHERE id IN (${shareIds.map(() => '?').join(', ')})`,
+    )
+      .bind(...shareIds)
+      .all<{ id: string; body: string }>();
+    for (const s of shares) snapshots[s.id] = s.body;
+  }
+
+  return json({ ok: true, proposals: results.map(toProposal), snapshots });
+};
+
+/**
+ * PATCH /api/share/proposals
+ * Body: { id, status: 'accepted' | 'rejected' }. Only open proposals can be
+ * resolved; 404 otherwise.
+ */
+export const onRequestPatch: PagesFunction<Env> = async ({ request, env }) => {
+  if (!env.DOCS_DB) return json({ ok: false, error: 'DOCS_DB is not bound' }, 500);
+  const owner = await ownerOf(request);
+  if (!owner) return ownerRequired();
+
+  const b = ((await request.json().catch(() => null)) ?? {}) as { id?: unknown; status?: unknown };
+  if (!isValidDocId(b.id)) return json({ ok: false, error: 'Invalid id' }, 400);
+  if (b.status !== 'accepted' && b.status !== 'rejected') return json({ ok: false, error: 'Invalid status' }, 400);
+
+  const res = await env.DOCS_DB.prepare(
+    `UPDATE share_proposals SET status = ?
+     WHERE id = ? AND status = 'open' AND share_id IN (SELECT id FROM shares WHERE owner = ?)`,
+  )
+    .bind(b.status, b.id, owner)
+    .run();
+  if (!res.meta.changes) return json({ ok: false, error: 'Not found' }, 404);
+  return json({ ok: true });
+};
@@ -0,0 +1,22 @@
+import type { Env } from '../lt/health';
+import { ERROR_STATUS, parseCheckRequest } from '../../lib/checkApi';
+import { json } from '../../lib/docs';
+import { runCheck } from '../../lib/languagetool';
+
+/**
+ * POST /api/v1/check
+ * Body: CheckRequest (functions/lib/checkApi.ts).
+ * 200 { ok: true, matches, language }, or a 4xx/5xx { ok: false, error: { code, message, retryAfter? } }.
+ * Every response carries x-cache and x-ratelimit-* headers once the request got that far.
+ */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil }) => {
+  const parsed = parseCheckRequest(await request.json().catch(() => null));
+  if (!parsed.ok) return json({ ok: false, error: parsed.error }, ERROR_STATUS[parsed.error.code]);
+
+  const outcome = await runCheck(parsed.value, env, {
+    client: request.headers.get('cf-connecting-ip') ?? 'unknown',
+    signal: request.signal,
+    waitUntil,
+  });
+  return json(outcome.body, outcome.status, outcome.headers);
+};
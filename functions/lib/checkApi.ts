@@ -0,0 +1,157 @@
+/**
+ * The /api/v1/check contract, shared by the Pages Function and the client.
+ *
+ * Keep this file free of Workers-only APIs: the browser bundle imports it too.
+ */
+
+export const MAX_TEXT_LENGTH = 100_000;
+const MAX_LIST_ITEMS = 200;
+
+export type CheckRequest = {
+  text: string;
+  language: string;
+  motherTongue?: string;
+  // Only sent upstream when `language` is 'auto'.
+  preferredVariants?: string[];
+  disabledRules?: string[];
+  // LanguageTool's strictness and category switches, e.g. 'PLAIN_ENGLISH'.
+  level?: 'default' | 'picky';
+  enabledCategories?: string[];
+  disabledCategories?: string[];
+  dictionaries?: { personal?: string; team?: string };
+};
+
+export type CheckMatch = {
+  message: string;
+  shortMessage?: string;
+  offset: number;
+  length: number;
+  replacements: { value: string }[];
+  rule?: { id?: string; description?: string; issueType?: string; category?: { id?: string; name?: string } };
+  context?: { text?: string; offset?: number; length?: number };
+};
+
+export type CheckLanguage = {
+  name?: string;
+  code?: string;
+  detectedLanguage?: { name?: string; code?: string };
+};
+
+export type CheckResult = { matches: CheckMatch[]; language: CheckLanguage | null };
+
+export type CheckErrorCode =
+  | 'invalid_request'
+  | 'text_too_long'
+  | 'rate_limited'
+  | 'not_configured'
+  | 'upstream_error'
+  | 'upstream_unavailable'
+  | 'internal';
+
+export type CheckError = { code: CheckErrorCode; message: string; retryAfter?: number };
+
+export type CheckResponse =
+  | ({ ok: true } & CheckResult)
+  | { ok: false; error: CheckError };
+
+export const ERROR_STATUS: Record<CheckErrorCode, number> = {
+  invalid_request: 400,
+  text_too_long: 413,
+  rate_limited: 429,
+  not_configured: 500,
+  upstream_error: 502,
+  upstream_unavailable: 503,
+  internal: 500,
+};
+
+/** Validate a request body; unknown fields are dropped. */
+export function parseCheckRequest(body: unknown): { ok: true; value: CheckRequest } | { ok: false; error: CheckError } {
+  const fail = (code: CheckErrorCode, message: string) => ({ ok: false as const, error: { code, message } });
+  if (!isObject(body)) return fail('invalid_request', 'Body must be a JSON object');
+
+  const { text, language, motherTongue, preferredVariants, disabledRules, dictionaries } = body;
+  const { level, enabledCategories, disabledCategories } = body;
+  if (typeof text !== 'string' || !text.trim()) return fail('invalid_request', '`text` must be a non-empty string');
+  if (text.length > MAX_TEXT_LENGTH) {
+    return fail('text_too_long', `\`text\` is longer than ${MAX_TEXT_LENGTH} characters`);
+  }
+  if (language !== undefined && !isCode(language)) return fail('invalid_request', '`language` must be a language code');
+  if (motherTongue !== undefined && motherTongue !== '' && !isCode(motherTongue)) {
+    return fail('invalid_request', '`motherTongue` must be a language code');
+  }
+  if (preferredVariants !== undefined && !isList(preferredVariants, isCode)) {
+    return fail('invalid_request', '`preferredVariants` must be a list of language codes');
+  }
+  if (disabledRules !== undefined && !isList(disabledRules, isRuleId)) {
+    return fail('invalid_request', '`disabledRules` must be a list of rule ids');
+  }
+  if (level !== undefined && level !== 'default' && level !== 'picky') {
+    return fail('invalid_request', "`level` must be 'default' or 'picky'");
+  }
+  if (enabledCategories !== undefined && !isList(enabledCategories, isCategoryId)) {
+    return fail('invalid_request', '`enabledCategories` must be a list of category ids');
+  }
+  if (disabledCategories !== undefined && !isList(disabledCategories, isCategoryId)) {
+    return fail('invalid_request', '`disabledCategories` must be a list of category ids');
+  }
+  if (dictionaries !== undefined) {
+    const ok =
+      isObject(dictionaries) &&
+      (dictionaries.personal === undefined || typeof dictionaries.personal === 'string') &&
+      (dictionaries.team === undefined || typeof dictionaries.team === 'string');
+    if (!ok) return fail('invalid_request', '`dictionaries` must be { personal?: string, team?: string }');
+  }
+
+  return {
+    ok: true,
+    value: {
+      text,
+      language: (language as string | undefined) || 'auto',
+      motherTongue: (motherTongue as string | undefined) || undefined,
+      preferredVariants: preferredVariants as string[] | undefined,
+      disabledRules: disabledRules as string[] | undefined,
+      level: level as CheckRequest['level'],
+      enabledCategories: enabledCategories as string[] | undefined,
+      disabledCategories: disabledCategories as string[] | undefined,
+      dictionaries: dictionaries as CheckRequest['dictionaries'],
+    },
+  };
+}
+
+/**
+ * Pull the parts of a LanguageTool /v2/check body we rely on, dropping
+ * malformed matches. Null when the body isn't a check result at all.
+ */
+export function parseLanguageToolResult(data: unknown): CheckResult | null {
+  if (!isObject(data) || !Array.isArray(data.matches)) return null;
+
+  const matches = data.matches.filter(
+    (m): m is CheckMatch =>
+      isObject(m) &&
+      typeof m.message === 'string' &&
+      Number.isInteger(m.offset) &&
+      Number.isInteger(m.length) &&
+      Array.isArray(m.replacements),
+  );
+  return { matches, language: isObject(data.language) ? (data.language as CheckLanguage) : null };
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isList(v: unknown, item: (x: unknown) => boolean) {
+  return Array.isArray(v) && v.length <= MAX_LIST_ITEMS && v.every(item);
+}
+
+function isCode(v: unknown) {
+  return typeof v === 'string' && /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$|^auto$/.test(v);
+}
+
+function isRuleId(v: unknown) {
+  return typeof v === 'string' && /^[A-Za-z0-9_.:-]{1,100}$/.test(v);
+}
+
+function isCategoryId(v: unknown) {
+  return typeof v === 'string' && /^[A-Z0-9_]{1,100}$/.test(v);
+}
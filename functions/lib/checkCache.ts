@@ -0,0 +1,35 @@
+/**
+ * Cache for raw LanguageTool /v2/check responses, on the Cache API.
+ *
+ * Entries are keyed by a SHA-256 of everything that changes LanguageTool's
+ * answer (upstream, text, language and rule options). Dictionary filtering
+ * happens after the cache, so adding a word never needs an invalidation.
+ */
+
+const CACHE_TTL_SECONDS = 24 * 60 * 60;
+// Synthetic origin for cache keys; never fetched.
+const CACHE_ORIGIN = 'https://lt-check-cache.invalid';
+
+export async function checkCacheKey(parts: unknown[]) {
+  const bytes = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+  return new Request(`${CACHE_ORIGIN}/v2/check/${hex}`);
+}
+
+export async function readCachedCheck(key: Request): Promise<unknown | null> {
+  const hit = await caches.default.match(key);
+  return hit ? hit.json().catch(() => null) : null;
+}
+
+export async function writeCachedCheck(key: Request, data: unknown) {
+  await caches.default.put(
+    key,
+    new Response(JSON.stringify(data), {
+      headers: {
+        'content-type': 'application/json; charset=utf-8',
+        'cache-control': `max-age=${CACHE_TTL_SECONDS}`,
+      },
+    }),
+  );
+}
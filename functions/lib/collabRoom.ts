@@ -0,0 +1,191 @@
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+/**
+ * One live editing room per document, as a Durable Object. It speaks the
+ * y-websocket protocol, so the client's WebsocketProvider (and the
+ * `npm run collab` server used locally) talk to it unchanged: sync messages
+ * carry Yjs updates, awareness messages carry cursors and names.
+ *
+ * Pages projects can't host Durable Objects themselves. The class is deployed
+ * from workers/collab.ts (wrangler.collab.toml) and bound to the Pages project
+ * as COLLAB; /api/collab/:id forwards the WebSocket upgrade here.
+ */
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+// Durable Object storage caps values at 128 KiB; the document is split below that.
+const CHUNK_BYTES = 100 * 1024;
+// Edits arrive keystroke by keystroke; write them out at most this often.
+const SAVE_DELAY_MS = 2000;
+
+type Connection = {
+  socket: WebSocket;
+  // Awareness clients this socket speaks for, removed when it closes.
+  clients: Set<number>;
+};
+
+export class CollabRoom {
+  private doc = new Y.Doc();
+  private awareness = new awarenessProtocol.Awareness(this.doc);
+  private connections = new Set<Connection>();
+
+  constructor(private state: DurableObjectState) {
+    // The room serves no one until the stored document is back.
+    state.blockConcurrencyWhile(() => this.load());
+    // Nobody here edits; don't advertise a cursor for the room itself.
+    this.awareness.setLocalState(null);
+
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      this.broadcast(encoding.toUint8Array(encoder), origin);
+      this.scheduleSave();
+    });
+
+    this.awareness.on(
+      'update',
+      ({ added, updated, removed }: Record<'added' | 'updated' | 'removed', number[]>, origin: unknown) => {
+        const owner = [...this.connections].find((c) => c.socket === origin);
+        if (owner) {
+          for (const id of added) owner.clients.add(id);
+          for (const id of removed) owner.clients.delete(id);
+        }
+        const changed = [...added, ...updated, ...removed];
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, changed));
+        this.broadcast(encoding.toUint8Array(encoder));
+      },
+    );
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('upgrade') !== 'websocket') return new Response('Expected a WebSocket', { status: 426 });
+
+    const [client, server] = Object.values(new WebSocketPair());
+    server.accept();
+    const conn: Connection = { socket: server, clients: new Set() };
+    this.connections.add(conn);
+
+    server.addEventListener('message', (event) => {
+      try {
+        this.receive(conn, new Uint8Array(event.data as ArrayBuffer));
+      } catch {
+        // A malformed message from one client shouldn't close the room for the rest.
+      }
+    });
+    const close = () => this.disconnect(conn);
+    server.addEventListener('close', close);
+    server.addEventListener('error', close);
+
+    // Greet with our state vector so the client sends what we're missing,
+    // and with everyone already here.
+    const sync = encoding.createEncoder();
+    encoding.writeVarUint(sync, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(sync, this.doc);
+    this.send(conn, encoding.toUint8Array(sync));
+
+    const present = [...this.awareness.getStates().keys()];
+    if (present.length) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, present));
+      this.send(conn, encoding.toUint8Array(encoder));
+    }
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  async alarm() {
+    await this.save();
+  }
+
+  private receive(conn: Connection, message: Uint8Array) {
+    const decoder = decoding.createDecoder(message);
+    const encoder = encoding.createEncoder();
+    switch (decoding.readVarUint(decoder)) {
+      case MESSAGE_SYNC:
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        // Updates applied here carry the socket as origin, so they aren't echoed back to it.
+        syncProtocol.readSyncMessage(decoder, encoder, this.doc, conn.socket);
+        // Only step 1 needs an answer; the encoder holds more than the type byte then.
+        if (encoding.length(encoder) > 1) this.send(conn, encoding.toUint8Array(encoder));
+        break;
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), conn.socket);
+        break;
+    }
+  }
+
+  private disconnect(conn: Connection) {
+    if (!this.connections.delete(conn)) return;
+    awarenessProtocol.removeAwarenessStates(this.awareness, [...conn.clients], null);
+    // Last one out: don't leave recent edits waiting on the alarm.
+    if (!this.connections.size) this.state.waitUntil(this.save());
+  }
+
+  private send(conn: Connection, message: Uint8Array) {
+    try {
+      conn.socket.send(message);
+    } catch {
+      // The socket is already closing; its close event cleans up.
+      this.disconnect(conn);
+    }
+  }
+
+  private broadcast(message: Uint8Array, origin?: unknown) {
+    for (const conn of this.connections) {
+      if (conn.socket !== origin) this.send(conn, message);
+    }
+  }
+
+  /* ----------------------------- Storage ----------------------------- */
+
+  private async load() {
+    const count = (await this.state.storage.get<number>('chunks')) ?? 0;
+    if (!count) return;
+    const keys = Array.from({ length: count }, (_, i) => `chunk:${i}`);
+    const chunks = await this.state.storage.get<Uint8Array>(keys);
+    const parts = keys.map((k) => chunks.get(k) ?? new Uint8Array());
+    const update = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const p of parts) {
+      update.set(p, at);
+      at += p.length;
+    }
+    Y.applyUpdate(this.doc, update, 'storage');
+  }
+
+  private scheduleSave() {
+    this.state.storage
+      .getAlarm()
+      .then((at) => {
+        if (at === null) return this.state.storage.setAlarm(Date.now() + SAVE_DELAY_MS);
+      })
+      .catch(() => {
+        // The next edit tries again, and the last one out saves regardless.
+      });
+  }
+
+  private async save() {
+    const update = Y.encodeStateAsUpdate(this.doc);
+    const entries: Record<string, unknown> = {};
+    let count = 0;
+    for (let at = 0; at < update.length; at += CHUNK_BYTES) {
+      entries[`chunk:${count++}`] = update.slice(at, at + CHUNK_BYTES);
+    }
+    const previous = (await this.state.storage.get<number>('chunks')) ?? 0;
+    entries.chunks = count;
+    await this.state.storage.put(entries);
+    // The document can shrink (deleted history is merged away); drop chunks past the end.
+    if (previous > count) {
+      await this.state.storage.delete(Array.from({ length: previous - count }, (_, i) => `chunk:${count + i}`));
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { signClaims, verifyClaims } from './signing';
+
+/**
+ * Tickets into live editing rooms. A browser can't set headers on a
+ * WebSocket upgrade, and an owner key in a URL would end up in logs, so the
+ * client trades its key for a ticket (POST /api/collab/:id/ticket) that is
+ * good for one document for a minute, and connects with `?ticket=`.
+ */
+
+// Long enough to open the socket; the client fetches a new one before each reconnect.
+export const TICKET_TTL_MS = 60_000;
+
+// The document, its owner (lib/owner.ts) and the expiry.
+type TicketClaims = { d: string; o: string; e: number };
+
+export function signTicket(secret: string, docId: string, owner: string, now = Date.now()) {
+  const claims: TicketClaims = { d: docId, o: owner, e: now + TICKET_TTL_MS };
+  return signClaims(secret, claims);
+}
+
+/** The owner a ticket lets into `docId`'s room, or null. */
+export async function ticketOwner(secret: string, ticket: string, docId: string, now = Date.now()) {
+  const claims = (await verifyClaims(secret, ticket)) as Partial<TicketClaims> | null;
+  if (!claims || claims.d !== docId || typeof claims.o !== 'string' || typeof claims.e !== 'number') return null;
+  return claims.e > now ? claims.o : null;
+}
+
+/** One room per document, and documents are per owner. */
+export function roomName(owner: string, docId: string) {
+  return `${owner}:${docId}`;
+}
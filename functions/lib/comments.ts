@@ -0,0 +1,117 @@
+import {
+  Anchor,
+  Comment,
+  CommentInput,
+  CommentThread,
+  MAX_COMMENT_LENGTH,
+  MAX_MENTIONS,
+  MAX_QUOTE_LENGTH,
+  ThreadStatus,
+} from './commentsApi';
+import { MAX_AUTHOR_LENGTH } from './shareApi';
+
+export type ThreadRow = {
+  id: string;
+  doc_id: string;
+  range_start: number;
+  range_length: number;
+  quote: string;
+  status: ThreadStatus;
+  resolved_by: string;
+  created_at: number;
+  updated_at: number;
+  // SHA-256 of the owner key (lib/owner.ts); '' for threads from before owners.
+  owner: string;
+};
+
+export type CommentRow = {
+  id: string;
+  thread_id: string;
+  doc_id: string;
+  author: string;
+  body: string;
+  mentions: string;
+  created_at: number;
+};
+
+export function toComment(row: CommentRow): Comment {
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    author: row.author,
+    body: row.body,
+    mentions: parseMentionList(row.mentions),
+    createdAt: row.created_at,
+  };
+}
+
+export function toThread(row: ThreadRow, comments: CommentRow[]): CommentThread {
+  return {
+    id: row.id,
+    docId: row.doc_id,
+    offset: row.range_start,
+    length: row.range_length,
+    quote: row.quote,
+    status: row.status,
+    resolvedBy: row.resolved_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    comments: comments.map(toComment),
+  };
+}
+
+function parseMentionList(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((m): m is string => typeof m === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Validate an anchor; returns an error message or the clean fields. */
+export function parseAnchor(input: unknown): Anchor | string {
+  const b = (input ?? {}) as Partial<Record<keyof Anchor, unknown>>;
+  const { offset, length, quote } = b;
+  if (!Number.isInteger(offset) || !Number.isInteger(length) || (offset as number) < 0 || (length as number) < 1) {
+    return 'Invalid range';
+  }
+  if (typeof quote !== 'string' || quote.length !== length || quote.length > MAX_QUOTE_LENGTH) return 'Invalid quote';
+  return { offset: offset as number, length: length as number, quote };
+}
+
+/**
+ * Validate a comment or reply; returns an error message or the clean fields.
+ * Mentions are the client's reading of the body (it knows the names in the
+ * room); only their shape is checked here.
+ */
+export function parseComment(input: unknown): CommentInput | string {
+  const b = (input ?? {}) as Partial<Record<keyof CommentInput, unknown>>;
+  const body = typeof b.body === 'string' ? b.body.trim() : '';
+  if (!body) return 'A comment needs some text';
+  if (body.length > MAX_COMMENT_LENGTH) return 'Comment too long';
+
+  const author = typeof b.author === 'string' ? b.author.trim().slice(0, MAX_AUTHOR_LENGTH) : '';
+  const raw = b.mentions ?? [];
+  if (!Array.isArray(raw) || raw.length > MAX_MENTIONS) return 'Invalid mentions';
+  const mentions: string[] = [];
+  for (const m of raw) {
+    if (typeof m !== 'string' || !m.trim() || m.length > MAX_AUTHOR_LENGTH) return 'Invalid mentions';
+    mentions.push(m.trim());
+  }
+  return { author, body, mentions };
+}
+
+/** One of the owner's threads with its comments, or null. */
+export async function loadThread(db: D1Database, id: string, owner: string): Promise<CommentThread | null> {
+  const row = await db
+    .prepare('SELECT * FROM comment_threads WHERE id = ? AND owner = ?')
+    .bind(id, owner)
+    .first<ThreadRow>();
+  if (!row) return null;
+  const { results } = await db
+    .prepare('SELECT * FROM comments WHERE thread_id = ? ORDER BY created_at')
+    .bind(id)
+    .all<CommentRow>();
+  return toThread(row, results);
+}
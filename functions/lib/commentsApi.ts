@@ -0,0 +1,70 @@
+/**
+ * The /api/comments contract, shared by the Pages Functions and the client.
+ *
+ * Keep this file free of Workers-only APIs: the browser bundle imports it too.
+ */
+
+export type ThreadStatus = 'open' | 'resolved';
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const MAX_QUOTE_LENGTH = 20_000;
+export const MAX_MENTIONS = 20;
+
+/**
+ * Where a thread sits: a range of the document's plain text and the text it
+ * covered when the anchor was last moved.
+ */
+export type Anchor = { offset: number; length: number; quote: string };
+
+export type Comment = {
+  id: string;
+  threadId: string;
+  author: string;
+  body: string;
+  // Names @mentioned in `body`, as written.
+  mentions: string[];
+  createdAt: number;
+};
+
+export type CommentThread = Anchor & {
+  id: string;
+  docId: string;
+  status: ThreadStatus;
+  // Who resolved it; '' while open.
+  resolvedBy: string;
+  createdAt: number;
+  updatedAt: number;
+  // The opening comment first, then the replies.
+  comments: Comment[];
+};
+
+/** What a new comment or reply sends. */
+export type CommentInput = { author: string; body: string; mentions: string[] };
+
+/**
+ * The names @mentioned in a comment. A mention of someone in `known` may
+ * contain spaces (`@Ada Lovelace`); anything else runs to the end of the word.
+ */
+export function findMentions(body: string, known: string[] = []): string[] {
+  const names = [...new Set(known.map((n) => n.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  const found = new Map<string, string>();
+
+  for (let i = body.indexOf('@'); i !== -1; i = body.indexOf('@', i + 1)) {
+    // "ada@example.com" isn't a mention.
+    if (i > 0 && /[\p{L}\p{N}_]/u.test(body[i - 1])) continue;
+    const rest = body.slice(i + 1);
+    const knownName = names.find(
+      (n) => rest.slice(0, n.length).toLowerCase() === n.toLowerCase() && !/^[\p{L}\p{N}_]/u.test(rest.slice(n.length)),
+    );
+    const name = knownName ?? rest.match(/^[\p{L}\p{N}_][\p{L}\p{N}_.-]*/u)?.[0].replace(/[.-]+$/, '');
+    if (name && !found.has(name.toLowerCase())) found.set(name.toLowerCase(), name);
+    if (found.size >= MAX_MENTIONS) break;
+  }
+  return [...found.values()];
+}
+
+/** Whether anyone in the thread @mentioned `name`. */
+export function isMentioned(thread: CommentThread, name: string) {
+  const who = name.trim().toLowerCase();
+  return !!who && thread.comments.some((c) => c.mentions.some((m) => m.toLowerCase() === who));
+}
@@ -0,0 +1,17 @@
+/**
+ * Personal and team word lists in the LT_DICTIONARY KV namespace, one key per
+ * list. /api/lt/dictionary edits them; checks read them to drop misspellings
+ * of known words.
+ */
+
+/** The KV key for a list, or null when the scope or id is invalid. */
+export function dictionaryKey(scope: string | null, id: string | null) {
+  if (scope !== 'personal' && scope !== 'team') return null;
+  if (!id || !/^[A-Za-z0-9_-]{1,64}$/.test(id)) return null;
+  return `dict:${scope}:${id}`;
+}
+
+export async function readWords(kv: KVNamespace, key: string): Promise<string[]> {
+  const words = await kv.get<string[]>(key, 'json').catch(() => null);
+  return Array.isArray(words) ? words.filter((w) => typeof w === 'string') : [];
+}
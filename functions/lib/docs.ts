@@ -0,0 +1,115 @@
+export type DocRow = {
+  id: string;
+  title: string;
+  body: string;
+  // HTML; '' for documents saved without formatting.
+  content: string;
+  settings: string;
+  // SHA-256 of the owner key (lib/owner.ts); '' for documents from before owners.
+  owner: string;
+  created_at: number;
+  updated_at: number;
+  version: number;
+};
+
+/** A document as the API returns it. */
+export type RemoteDoc = {
+  id: string;
+  title: string;
+  body: string;
+  content?: string;
+  settings: Record<string, unknown>;
+  createdAt: number;
+  updatedAt: number;
+  etag: string;
+};
+
+export const MAX_TITLE_LENGTH = 500;
+export const MAX_BODY_LENGTH = 1_000_000;
+export const MAX_CONTENT_LENGTH = 2_000_000;
+export const MAX_SETTINGS_LENGTH = 10_000;
+
+export function etagFor(version: number) {
+  return `"${version}"`;
+}
+
+/** Version number from an If-Match / If-None-Match value, or null if it isn't one of ours. */
+export function versionFromEtag(raw: string | null) {
+  const m = raw?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return m ? Number(m[1]) : null;
+}
+
+export function toRemoteDoc(row: DocRow): RemoteDoc {
+  return {
+    id: row.id,
+    title: row.title,
+    body: row.body,
+    content: row.content || undefined,
+    settings: parseSettings(row.settings),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    etag: etagFor(row.version),
+  };
+}
+
+export function isValidDocId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(id);
+}
+
+/**
+ * Validate a create/update body; returns an error message or the clean fields.
+ * `settings` is stored as opaque JSON; the client owns its shape.
+ */
+export function parseDocFields(
+  body: unknown,
+): { title: string; body: string; content: string; settings: string } | string {
+  const b = (body ?? {}) as { title?: unknown; body?: unknown; content?: unknown; settings?: unknown };
+  if (typeof b.title !== 'string' || b.title.length > MAX_TITLE_LENGTH) return 'Invalid title';
+  if (typeof b.body !== 'string' || b.body.length > MAX_BODY_LENGTH) return 'Invalid body';
+  const content = b.content ?? '';
+  if (typeof content !== 'string' || content.length > MAX_CONTENT_LENGTH) return 'Invalid content';
+
+  const settings = b.settings ?? {};
+  if (typeof settings !== 'object' || Array.isArray(settings) || settings === null) return 'Invalid settings';
+  const encoded = JSON.stringify(settings);
+  if (encoded.length > MAX_SETTINGS_LENGTH) return 'Invalid settings';
+
+  return { title: b.title, body: b.body, content, settings: encoded };
+}
+
+function parseSettings(raw: string | null | undefined): Record<string, unknown> {
+  try {
+    const v = JSON.parse(raw || '{}');
+    return v && typeof v === 'object' && !Array.isArray(v) ? v : {};
+  } catch {
+    return {};
+  }
+}
+
+export function json(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8', ...headers },
+  });
+}
+
+/** Insert a new document; `meta.changes` is 0 when the owner already has one with this id. */
+export function insertDoc(db: D1Database, row: DocRow) {
+  return db
+    .prepare(
+      `INSERT INTO docs (id, title, body, content, settings, owner, created_at, updated_at, version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(owner, id) DO NOTHING`,
+    )
+    .bind(
+      row.id,
+      row.title,
+      row.body,
+      row.content,
+      row.settings,
+      row.owner,
+      row.created_at,
+      row.updated_at,
+      row.version,
+    )
+    .run();
+}
@@ -0,0 +1,26 @@
+/**
+ * The /api/lt/health response, shared by the Pages Function and the client.
+ * Like checkApi.ts, keep it free of Workers-only APIs.
+ */
+
+export type EngineStatus = 'online' | 'degraded' | 'offline';
+
+export type HealthLanguage = { name: string; code: string; longCode: string };
+
+export type HealthReport = {
+  ok: boolean;
+  status: EngineStatus;
+  // Round trip of a tiny /v2/check from the edge, or of /v2/languages if that failed.
+  latencyMs: number | null;
+  // LanguageTool's software.version / buildDate, when the probe check succeeded.
+  version: string | null;
+  buildDate: string | null;
+  // 'premium' when LT_USERNAME and LT_API_KEY are configured.
+  mode: 'premium' | 'free';
+  languageCount: number;
+  languages: HealthLanguage[];
+  error?: string;
+};
+
+// Above this the engine works but is reported as degraded.
+export const DEGRADED_LATENCY_MS = 2000;
@@ -0,0 +1,201 @@
+import type { Env } from '../api/lt/health';
+import { checkCacheKey, readCachedCheck, writeCachedCheck } from './checkCache';
+import {
+  CheckError,
+  CheckErrorCode,
+  CheckMatch,
+  CheckRequest,
+  CheckResponse,
+  CheckResult,
+  ERROR_STATUS,
+  parseLanguageToolResult,
+} from './checkApi';
+import { dictionaryKey, readWords } from './dictionary';
+import { consume, rateLimitFrom, rateLimitHeaders } from './rateLimit';
+
+const MAX_ATTEMPTS = 3;
+const MAX_RETRY_DELAY_MS = 4000;
+
+export type CheckContext = {
+  // Rate-limit bucket, usually the client IP.
+  client: string;
+  signal: AbortSignal;
+  waitUntil: (promise: Promise<unknown>) => void;
+};
+
+export type CheckOutcome = { status: number; body: CheckResponse; headers: Record<string, string> };
+
+function normalizeBaseUrl(raw: string) {
+  const base = (raw || '').trim().replace(/\/+$/, '');
+  if (!base) throw new CheckFailure('not_configured', 'LT_BASE_URL is not set');
+  return base.endsWith('/v2') ? base : `${base}/v2`;
+}
+
+/**
+ * Run one validated check against LanguageTool /v2/check.
+ *
+ * Identical checks are served from cache (x-cache: HIT) without spending the
+ * caller's budget; misses take a token from the caller's bucket
+ * (x-ratelimit-*) and fail with rate_limited once it is empty. Upstream 429s
+ * and 5xx are retried with backoff. Misspellings of dictionary words are
+ * dropped after the cache, so adding a word takes effect immediately.
+ */
+export async function runCheck(input: CheckRequest, env: Env, ctx: CheckContext): Promise<CheckOutcome> {
+  const perMinute = rateLimitFrom(env.LT_RATE_LIMIT);
+  let headers: Record<string, string> = {};
+
+  try {
+    const base = normalizeBaseUrl(env.LT_BASE_URL);
+
+    // LanguageTool expects application/x-www-form-urlencoded
+    const form = new URLSearchParams();
+    form.set('text', input.text);
+    form.set('language', input.language);
+    if (input.motherTongue) form.set('motherTongue', input.motherTongue);
+    // LanguageTool rejects preferredVariants unless it is auto-detecting.
+    if (input.language === 'auto' && input.preferredVariants?.length) {
+      form.set('preferredVariants', input.preferredVariants.join(','));
+    }
+    if (input.disabledRules?.length) form.set('disabledRules', input.disabledRules.join(','));
+    if (input.level === 'picky') form.set('level', 'picky');
+    if (input.enabledCategories?.length) form.set('enabledCategories', input.enabledCategories.join(','));
+    if (input.disabledCategories?.length) form.set('disabledCategories', input.disabledCategories.join(','));
+
+    // Keyed before the credentials go in, so keys never end up in a cache URL's preimage.
+    const cacheKey = await checkCacheKey([base, form.toString()]);
+    const cached = parseLanguageToolResult(await readCachedCheck(cacheKey).catch(() => null));
+    if (cached) {
+      headers = { 'x-cache': 'HIT', ...rateLimitHeaders(consume(ctx.client, perMinute, false)) };
+      return success(await withoutKnownWords(env, cached, input), headers);
+    }
+
+    const rl = consume(ctx.client, perMinute);
+    headers = { 'x-cache': 'MISS', ...rateLimitHeaders(rl) };
+    if (!rl.allowed) {
+      return failure({ code: 'rate_limited', message: 'Too many checks', retryAfter: rl.retryAfter }, headers);
+    }
+
+    // Optional: Premium API auth (LanguageTool Plus)
+    if (env.LT_USERNAME && env.LT_API_KEY) {
+      form.set('username', env.LT_USERNAME);
+      form.set('apiKey', env.LT_API_KEY);
+    }
+
+    const res = await fetchWithRetry(
+      `${base}/check`,
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded; charset=utf-8' },
+        body: form.toString(),
+      },
+      // Stop LanguageTool's work too when the browser cancels the check.
+      ctx.signal,
+    ).catch(() => {
+      throw new CheckFailure('upstream_unavailable', 'LanguageTool did not respond');
+    });
+
+    const raw = await res.text();
+    if (!res.ok) {
+      const retryAfter = Number(res.headers.get('retry-after')) || undefined;
+      const code = res.status === 429 || res.status >= 500 ? 'upstream_unavailable' : 'upstream_error';
+      return failure({ code, message: raw.slice(0, 500) || `LanguageTool answered ${res.status}`, retryAfter }, headers);
+    }
+
+    const result = parseLanguageToolResult(safeJsonParse(raw));
+    if (!result) return failure({ code: 'upstream_error', message: 'Unexpected LanguageTool response' }, headers);
+
+    ctx.waitUntil(writeCachedCheck(cacheKey, result).catch(() => {}));
+    return success(await withoutKnownWords(env, result, input), headers);
+  } catch (err: any) {
+    if (err instanceof CheckFailure) return failure({ code: err.code, message: err.message }, headers);
+    return failure({ code: 'internal', message: err?.message || 'unknown' }, headers);
+  }
+}
+
+class CheckFailure extends Error {
+  constructor(
+    readonly code: CheckErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function success(result: CheckResult, headers: Record<string, string>): CheckOutcome {
+  return { status: 200, body: { ok: true, ...result }, headers };
+}
+
+function failure(error: CheckError, headers: Record<string, string>): CheckOutcome {
+  if (error.retryAfter) headers = { ...headers, 'retry-after': String(error.retryAfter) };
+  return { status: ERROR_STATUS[error.code], body: { ok: false, error }, headers };
+}
+
+/**
+ * fetch, retrying network errors, 429 and 5xx up to MAX_ATTEMPTS times.
+ * Waits for Retry-After when LanguageTool sends one, else exponential backoff.
+ */
+async function fetchWithRetry(url: string, init: RequestInit, signal: AbortSignal) {
+  for (let attempt = 1; ; attempt++) {
+    let res: Response | null = null;
+    try {
+      res = await fetch(url, { ...init, signal });
+      if (res.status !== 429 && res.status < 500) return res;
+    } catch (err) {
+      if (signal.aborted || attempt >= MAX_ATTEMPTS) throw err;
+    }
+    if (attempt >= MAX_ATTEMPTS) return res!;
+
+    const retryAfter = Number(res?.headers.get('retry-after'));
+    const delay =
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : 250 * 2 ** (attempt - 1) + Math.random() * 100;
+    await sleep(Math.min(delay, MAX_RETRY_DELAY_MS), signal);
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(new Error('Aborted'));
+    };
+    // The signal outlives every retry; don't leave a listener behind for each.
+    const t = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function withoutKnownWords(env: Env, result: CheckResult, input: CheckRequest): Promise<CheckResult> {
+  const known = await dictionaryWords(env, input.dictionaries);
+  if (!known.size) return result;
+  return { ...result, matches: result.matches.filter((m) => !isKnownWord(m, input.text, known)) };
+}
+
+async function dictionaryWords(env: Env, dictionaries?: { personal?: string; team?: string }) {
+  const words = new Set<string>();
+  if (!env.LT_DICTIONARY || !dictionaries) return words;
+
+  const keys = [
+    dictionaryKey('personal', dictionaries.personal ?? null),
+    dictionaryKey('team', dictionaries.team ?? null),
+  ].filter((k): k is string => !!k);
+
+  const lists = await Promise.all(keys.map((k) => readWords(env.LT_DICTIONARY!, k)));
+  for (const list of lists) for (const w of list) words.add(w.toLowerCase());
+  return words;
+}
+
+function isKnownWord(m: CheckMatch, text: string, known: Set<string>) {
+  if (m.rule?.issueType !== 'misspelling') return false;
+  return known.has(text.slice(m.offset, m.offset + m.length).toLowerCase());
+}
+
+function safeJsonParse(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
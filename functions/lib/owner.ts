@@ -0,0 +1,18 @@
+import { json } from './docs';
+
+/**
+ * Who is calling. Each browser mints a random owner key once (owner.ts on the
+ * client) and sends it as `Authorization: Bearer <key>`; the server keys
+ * documents and share links by its SHA-256 and never stores the key itself.
+ * Anyone with the key is the owner, so it is copied between devices by hand.
+ */
+export async function ownerOf(request: Request): Promise<string | null> {
+  const key = request.headers.get('authorization')?.match(/^Bearer ([A-Za-z0-9_-]{32,128})$/)?.[1];
+  if (!key) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function ownerRequired() {
+  return json({ ok: false, error: 'An owner key is required' }, 401);
+}
@@ -0,0 +1,60 @@
+/**
+ * Per-client token bucket for the LanguageTool proxy.
+ *
+ * Buckets live in isolate memory, so the limit is per edge instance rather
+ * than global: good enough to stop one tab hammering the upstream, not a
+ * billing-grade quota.
+ */
+
+export type RateLimit = { allowed: boolean; limit: number; remaining: number; retryAfter: number };
+
+type Bucket = { tokens: number; updatedAt: number };
+
+// Requests per minute per client when LT_RATE_LIMIT is unset.
+export const DEFAULT_RATE_LIMIT = 120;
+const MAX_BUCKETS = 10_000;
+
+const buckets = new Map<string, Bucket>();
+
+/** Requests per minute from the LT_RATE_LIMIT variable, or the default. */
+export function rateLimitFrom(raw: string | undefined) {
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : DEFAULT_RATE_LIMIT;
+}
+
+/**
+ * Refill `client`'s bucket and, when `take` is set, spend one token.
+ * A full bucket holds `perMinute` tokens and refills continuously.
+ */
+export function consume(client: string, perMinute: number, take = true, now = Date.now()): RateLimit {
+  const refillPerMs = perMinute / 60_000;
+  const prev = buckets.get(client) ?? { tokens: perMinute, updatedAt: now };
+  const tokens = Math.min(perMinute, prev.tokens + (now - prev.updatedAt) * refillPerMs);
+
+  const allowed = tokens >= 1;
+  const bucket = { tokens: allowed && take ? tokens - 1 : tokens, updatedAt: now };
+
+  // Map keeps insertion order: re-insert so the oldest idle clients go first.
+  buckets.delete(client);
+  buckets.set(client, bucket);
+  if (buckets.size > MAX_BUCKETS) buckets.delete(buckets.keys().next().value!);
+
+  return {
+    allowed,
+    limit: perMinute,
+    remaining: Math.floor(bucket.tokens),
+    retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000),
+  };
+}
+
+/**
+ * The bucket's state for any response. Retry-After is left to the responses
+ * that were actually refused (see `failure` in languagetool.ts): a cache hit
+ * from an empty bucket is still a success.
+ */
+export function rateLimitHeaders(rl: RateLimit): Record<string, string> {
+  return {
+    'x-ratelimit-limit': String(rl.limit),
+    'x-ratelimit-remaining': String(rl.remaining),
+  };
+}
@@ -0,0 +1,148 @@
+import {
+  MAX_AUTHOR_LENGTH,
+  MAX_NOTE_LENGTH,
+  MAX_PROPOSALS,
+  MAX_REPLACEMENT_LENGTH,
+  Proposal,
+  ProposalInput,
+  ProposalStatus,
+  SentProposal,
+  SharePermission,
+  allowedKinds,
+  isSharePermission,
+} from './shareApi';
+import { signClaims, verifyClaims } from './signing';
+
+export type ShareRow = {
+  id: string;
+  doc_id: string;
+  permission: SharePermission;
+  title: string;
+  body: string;
+  content: string;
+  created_at: number;
+  expires_at: number;
+  revoked_at: number | null;
+  // SHA-256 of the owner key (lib/owner.ts); '' for links from before owners.
+  owner: string;
+};
+
+export type ProposalRow = {
+  id: string;
+  share_id: string;
+  doc_id: string;
+  kind: Proposal['kind'];
+  range_start: number;
+  range_length: number;
+  original: string;
+  replacement: string;
+  note: string;
+  author: string;
+  status: ProposalStatus;
+  created_at: number;
+};
+
+/* ----------------------------- Tokens ----------------------------- */
+
+// What a token vouches for. The expiry is inside the signature, so an
+// expired link is refused before the database is asked.
+type TokenClaims = { s: string; p: SharePermission; e: number };
+
+/** A token for the link, signed with SHARE_SECRET (lib/signing.ts). */
+export function signToken(secret: string, row: Pick<ShareRow, 'id' | 'permission' | 'expires_at'>) {
+  const claims: TokenClaims = { s: row.id, p: row.permission, e: row.expires_at };
+  return signClaims(secret, claims);
+}
+
+/** The claims of a well-signed, unexpired token, or null. */
+export async function verifyToken(secret: string, token: string, now = Date.now()): Promise<TokenClaims | null> {
+  const claims = (await verifyClaims(secret, token)) as Partial<TokenClaims> | null;
+  if (!claims || typeof claims.s !== 'string' || !isSharePermission(claims.p) || typeof claims.e !== 'number') {
+    return null;
+  }
+  return claims.e > now ? (claims as TokenClaims) : null;
+}
+
+/**
+ * The live share row behind a token: well signed, unexpired, not revoked.
+ * Returns an error status and message otherwise.
+ */
+export async function shareForToken(
+  db: D1Database,
+  secret: string,
+  token: string,
+): Promise<ShareRow | { status: number; error: string }> {
+  const claims = await verifyToken(secret, token);
+  if (!claims) return { status: 404, error: 'This link is invalid or has expired' };
+
+  const row = await db.prepare('SELECT * FROM shares WHERE id = ?').bind(claims.s).first<ShareRow>();
+  if (!row || row.revoked_at !== null || row.expires_at <= Date.now()) {
+    return { status: 404, error: 'This link is invalid or has expired' };
+  }
+  return row;
+}
+
+/* ----------------------------- Proposals ----------------------------- */
+
+export function toProposal(row: ProposalRow): Proposal {
+  return { ...toSentProposal(row), shareId: row.share_id, docId: row.doc_id };
+}
+
+/**
+ * For the public routes. Reviewers never learn the document id, which the
+ * owner's other routes are keyed by, or which link is which.
+ */
+export function toSentProposal(row: ProposalRow): SentProposal {
+  return {
+    id: row.id,
+    kind: row.kind,
+    offset: row.range_start,
+    length: row.range_length,
+    original: row.original,
+    replacement: row.kind === 'edit' ? row.replacement : undefined,
+    note: row.note || undefined,
+    author: row.author,
+    status: row.status,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Validate a reviewer's send against the share it came through; returns an
+ * error message or the clean proposals. Every range must still read
+ * `original` in the snapshot, so the owner can place it later.
+ */
+export function parseProposals(
+  input: unknown,
+  share: ShareRow,
+): { author: string; proposals: ProposalInput[] } | string {
+  const b = (input ?? {}) as { author?: unknown; proposals?: unknown };
+  const author = typeof b.author === 'string' ? b.author.trim().slice(0, MAX_AUTHOR_LENGTH) : '';
+  if (!Array.isArray(b.proposals) || b.proposals.length === 0) return 'No proposals';
+  if (b.proposals.length > MAX_PROPOSALS) return `At most ${MAX_PROPOSALS} proposals at a time`;
+
+  const kinds = allowedKinds(share.permission);
+  const proposals: ProposalInput[] = [];
+  for (const raw of b.proposals as Partial<ProposalInput>[]) {
+    if (!raw || !kinds.includes(raw.kind as ProposalInput['kind'])) return 'This link cannot send that';
+    const { offset, length, original } = raw;
+    if (!Number.isInteger(offset) || !Number.isInteger(length) || offset! < 0 || length! < 0) return 'Invalid range';
+    if (offset! + length! > share.body.length || share.body.slice(offset!, offset! + length!) !== original) {
+      return 'The range does not match the shared text';
+    }
+
+    const note = typeof raw.note === 'string' ? raw.note.trim() : '';
+    if (note.length > MAX_NOTE_LENGTH) return 'Note too long';
+    if (raw.kind === 'comment') {
+      if (!note) return 'A comment needs some text';
+      proposals.push({ kind: 'comment', offset: offset!, length: length!, original: original!, note });
+      continue;
+    }
+
+    const replacement = raw.replacement;
+    if (typeof replacement !== 'string' || replacement === original) return 'Invalid replacement';
+    if (replacement.length > MAX_REPLACEMENT_LENGTH) return 'Replacement too long';
+    proposals.push({ kind: 'edit', offset: offset!, length: length!, original: original!, replacement, note });
+  }
+  return { author, proposals };
+}
@@ -0,0 +1,79 @@
+/**
+ * The /api/share contract, shared by the Pages Functions and the client.
+ *
+ * Keep this file free of Workers-only APIs: the browser bundle imports it too.
+ */
+
+// What a link lets its holder do: read, leave comments, or also propose edits.
+export type SharePermission = 'view' | 'comment' | 'suggest';
+
+export const SHARE_PERMISSIONS: readonly SharePermission[] = ['view', 'comment', 'suggest'];
+
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 90;
+
+// Per request from a reviewer; a long review goes in several sends.
+export const MAX_PROPOSALS = 100;
+export const MAX_NOTE_LENGTH = 2000;
+export const MAX_REPLACEMENT_LENGTH = 20_000;
+export const MAX_AUTHOR_LENGTH = 80;
+
+/** A link as its owner sees it. */
+export type ShareLink = {
+  id: string;
+  docId: string;
+  permission: SharePermission;
+  token: string;
+  createdAt: number;
+  expiresAt: number;
+};
+
+/** The snapshot a link opens, as the public viewer gets it. */
+export type SharedDoc = {
+  title: string;
+  body: string;
+  content?: string;
+  permission: SharePermission;
+  expiresAt: number;
+};
+
+export type ProposalKind = 'edit' | 'comment';
+
+export type ProposalStatus = 'open' | 'accepted' | 'rejected';
+
+/**
+ * A reviewer's edit or comment. The range is in the plain text of the shared
+ * snapshot: `original` is what was there, `replacement` what the reviewer
+ * wants instead (edits only).
+ */
+export type ProposalInput = {
+  kind: ProposalKind;
+  offset: number;
+  length: number;
+  original: string;
+  replacement?: string;
+  note?: string;
+};
+
+/** A proposal as the reviewer who sent it sees it: nothing about the owner's side. */
+export type SentProposal = ProposalInput & {
+  id: string;
+  author: string;
+  status: ProposalStatus;
+  createdAt: number;
+};
+
+/** A proposal as the owner reviews it, with the link and document it belongs to. */
+export type Proposal = SentProposal & {
+  shareId: string;
+  docId: string;
+};
+
+export function isSharePermission(v: unknown): v is SharePermission {
+  return typeof v === 'string' && (SHARE_PERMISSIONS as readonly string[]).includes(v);
+}
+
+/** Kinds of proposal a link may send. */
+export function allowedKinds(permission: SharePermission): ProposalKind[] {
+  return permission === 'suggest' ? ['edit', 'comment'] : permission === 'comment' ? ['comment'] : [];
+}
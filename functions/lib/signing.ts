@@ -0,0 +1,53 @@
+/**
+ * Signed claims for tokens handed to browsers: `<claims>.<signature>`, both
+ * base64url, HMAC-SHA256 over the encoded claims. Callers check what the
+ * claims say (expiry included); this only vouches that the server wrote them.
+ */
+
+export async function signClaims(secret: string, claims: object) {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The claims of a well-signed token, unchecked, or null. */
+export async function verifyClaims(secret: string, token: string): Promise<Record<string, unknown> | null> {
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const bytes = fromBase64Url(signature);
+  if (!bytes) return null;
+  const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), bytes, new TextEncoder().encode(payload));
+  if (!valid) return null;
+
+  try {
+    const raw = fromBase64Url(payload);
+    const claims: unknown = raw && JSON.parse(new TextDecoder().decode(raw));
+    return claims && typeof claims === 'object' && !Array.isArray(claims) ? (claims as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function hmacKey(secret: string) {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let s = '';
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(s: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(s)) return null;
+  try {
+    const bin = atob(s.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,153 @@
+import { LocalRule, longSentenceRule, regexRule } from './rules';
+import type { SuggestionSeverity } from './types';
+
+/**
+ * Writing goals: who a document is for and how it should sound. They decide
+ * how severe each kind of issue is, which LanguageTool categories run, and
+ * how strict the local rules are.
+ */
+
+export type Audience = 'general' | 'expert';
+export type Formality = 'informal' | 'neutral' | 'formal';
+export type Domain = 'general' | 'business' | 'academic' | 'casual';
+export type Intent = 'inform' | 'describe' | 'convince' | 'tell';
+
+export type WritingGoals = { audience: Audience; formality: Formality; domain: Domain; intent: Intent };
+
+export const DEFAULT_GOALS: WritingGoals = { audience: 'general', formality: 'neutral', domain: 'general', intent: 'inform' };
+
+export const GOAL_OPTIONS = {
+  audience: [
+    ['general', 'General'],
+    ['expert', 'Expert'],
+  ],
+  formality: [
+    ['informal', 'Informal'],
+    ['neutral', 'Neutral'],
+    ['formal', 'Formal'],
+  ],
+  domain: [
+    ['general', 'General'],
+    ['business', 'Business'],
+    ['academic', 'Academic'],
+    ['casual', 'Casual'],
+  ],
+  intent: [
+    ['inform', 'Inform'],
+    ['describe', 'Describe'],
+    ['convince', 'Convince'],
+    ['tell', 'Tell a story'],
+  ],
+} as const satisfies { [K in keyof WritingGoals]: readonly (readonly [WritingGoals[K], string])[] };
+
+export function goalsOf(settings: { goals?: Partial<WritingGoals> } | undefined): WritingGoals {
+  return { ...DEFAULT_GOALS, ...settings?.goals };
+}
+
+function isStrict(goals: WritingGoals) {
+  return goals.formality === 'formal' || goals.domain === 'business' || goals.domain === 'academic';
+}
+
+function isRelaxed(goals: WritingGoals) {
+  return goals.formality === 'informal' || goals.domain === 'casual';
+}
+
+/* ----------------------------- Severity ----------------------------- */
+
+/**
+ * Severity for a LanguageTool match. Misspellings and grammar are always
+ * critical; style and typography matter more the stricter the goals.
+ */
+export function severityFor(issueType: string, category: string | undefined, goals: WritingGoals): SuggestionSeverity {
+  if (issueType === 'misspelling' || issueType === 'grammar') return 'critical';
+
+  // Plain-English advice is for general readers; experts expect the jargon.
+  if (category === 'PLAIN_ENGLISH') return goals.audience === 'general' ? 'warning' : 'info';
+
+  if (issueType === 'style' || issueType === 'register' || issueType === 'inconsistency') {
+    if (isRelaxed(goals)) return 'info';
+    return isStrict(goals) ? 'critical' : 'warning';
+  }
+  if (issueType === 'typographical' || issueType === 'whitespace') return isStrict(goals) ? 'warning' : 'info';
+  if (issueType === 'duplication' || issueType === 'uncategorized') return 'warning';
+  return 'info';
+}
+
+/* ----------------------------- LanguageTool options ----------------------------- */
+
+export type LTGoalOptions = { level: 'default' | 'picky'; enabledCategories: string[]; disabledCategories: string[] };
+
+/** LanguageTool `level`, `enabledCategories` and `disabledCategories` for the goals. */
+export function languageToolOptions(goals: WritingGoals): LTGoalOptions {
+  const enabled = new Set<string>();
+  const disabled = new Set<string>();
+
+  if (goals.audience === 'general') enabled.add('PLAIN_ENGLISH');
+  if (goals.domain === 'academic') enabled.add('WIKIPEDIA');
+  if (goals.intent === 'tell') enabled.add('CREATIVE_WRITING');
+  if (goals.intent === 'convince' || isStrict(goals)) enabled.add('REDUNDANCY');
+  if (isRelaxed(goals)) {
+    disabled.add('TYPOGRAPHY');
+    disabled.add('STYLE');
+  }
+
+  return {
+    level: isStrict(goals) ? 'picky' : 'default',
+    enabledCategories: [...enabled].sort(),
+    disabledCategories: [...disabled].sort(),
+  };
+}
+
+/* ----------------------------- Local rules ----------------------------- */
+
+// Sentence length that earns a long-sentence note, by audience and domain.
+// The default goals keep the built-in rule's 30 words.
+function longSentenceLimit(goals: WritingGoals) {
+  if (goals.domain === 'academic') return goals.audience === 'expert' ? 45 : 35;
+  if (goals.audience === 'expert') return 35;
+  // Business and casual writing read best in short sentences.
+  if (goals.domain === 'business' || goals.domain === 'casual') return 25;
+  return 30;
+}
+
+const contractionRule = regexRule({
+  id: 'formal-contraction',
+  category: 'style',
+  severity: 'warning',
+  title: 'Spell out the contraction',
+  detail: 'Contractions read as casual; formal writing usually spells them out.',
+  pattern: /\b(?:can't|won't|don't|doesn't|didn't|isn't|aren't|wasn't|weren't|it's|I'm|we're|they're|you're|let's)\b/gi,
+  replace: (m) => spellOut(m[0]),
+});
+
+const CONTRACTIONS: Record<string, string> = {
+  "can't": 'cannot',
+  "won't": 'will not',
+  "let's": 'let us',
+  "i'm": 'I am',
+  "it's": 'it is',
+};
+
+function spellOut(word: string) {
+  const lower = word.toLowerCase();
+  const full = CONTRACTIONS[lower] ?? lower.replace(/n't$/, ' not').replace(/'re$/, ' are');
+  return /^[A-Z]/.test(word) ? full[0].toUpperCase() + full.slice(1) : full;
+}
+
+/**
+ * Adjust the local rule set for the goals: long-sentence length follows the
+ * audience, formal writing also flags contractions, and casual writing drops
+ * the opening-line nudge and treats exclamation marks as a tip.
+ */
+export function rulesForGoals(rules: LocalRule[], goals: WritingGoals): LocalRule[] {
+  const out: LocalRule[] = [];
+  for (const rule of rules) {
+    if (rule.id === 'long-sentence') out.push(longSentenceRule(longSentenceLimit(goals)));
+    else if (rule.id === 'opener' && isRelaxed(goals)) continue;
+    else if (rule.id === 'exclaim' && isRelaxed(goals)) out.push({ ...rule, severity: 'info' });
+    else if (rule.id === 'exclaim' && isStrict(goals)) out.push({ ...rule, severity: 'critical' });
+    else out.push(rule);
+  }
+  if (goals.formality === 'formal') out.push(contractionRule);
+  return out;
+}
@@ -0,0 +1,134 @@
+import { VERSIONS, newId, run } from './docStore';
+
+export type VersionReason = 'idle' | 'apply' | 'manual' | 'restore' | 'collab';
+
+export type Version = {
+  id: string;
+  docId: string;
+  title: string;
+  body: string;
+  // Rich content (HTML) when the version has formatting; older versions are plain text only.
+  content?: string;
+  createdAt: number;
+  reason: VersionReason;
+  // Set for manual versions, and to describe what an automatic one preceded.
+  name?: string;
+};
+
+// Automatic snapshots beyond this many per document are pruned, oldest first.
+// Named versions are never pruned.
+const MAX_AUTO_VERSIONS = 50;
+
+/** Versions of a document, newest first. */
+export async function listVersions(docId: string): Promise<Version[]> {
+  const versions = await run<Version[]>(VERSIONS, 'readonly', (s) => s.index('docId').getAll(docId));
+  return versions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Store a snapshot unless it is identical to the latest one. Resolves with the
+ * stored version, or null when nothing changed.
+ */
+export async function saveVersion(
+  fields: Pick<Version, 'docId' | 'title' | 'body' | 'content' | 'reason' | 'name'>,
+): Promise<Version | null> {
+  const existing = await listVersions(fields.docId);
+  const latest = existing[0];
+  if (fields.reason !== 'manual' && latest?.body === fields.body && latest.content === fields.content) return null;
+
+  const version: Version = { id: newId(), createdAt: Date.now(), ...fields };
+  await run(VERSIONS, 'readwrite', (s) => s.put(version));
+
+  const auto = existing.filter((v) => v.reason !== 'manual');
+  for (const old of auto.slice(MAX_AUTO_VERSIONS - 1)) {
+    await run(VERSIONS, 'readwrite', (s) => s.delete(old.id));
+  }
+  return version;
+}
+
+export async function deleteVersions(docId: string) {
+  const versions = await listVersions(docId);
+  for (const v of versions) await run(VERSIONS, 'readwrite', (s) => s.delete(v.id));
+}
+
+/* ----------------------------- Word diff ----------------------------- */
+
+export type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Beyond this many token comparisons the changed middle is shown as one block.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Word-level diff of `a` → `b`; whitespace runs count as tokens so spacing survives. */
+export function diffWords(a: string, b: string): DiffPart[] {
+  const x = tokenize(a);
+  const y = tokenize(b);
+
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let endX = x.length;
+  let endY = y.length;
+  while (endX > start && endY > start && x[endX - 1] === y[endY - 1]) {
+    endX--;
+    endY--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'same', x.slice(0, start).join(''));
+
+  const midX = x.slice(start, endX);
+  const midY = y.slice(start, endY);
+  if (midX.length * midY.length > MAX_DIFF_CELLS) {
+    push(parts, 'removed', midX.join(''));
+    push(parts, 'added', midY.join(''));
+  } else {
+    for (const p of lcsDiff(midX, midY)) push(parts, p.type, p.text);
+  }
+
+  push(parts, 'same', x.slice(endX).join(''));
+  return parts;
+}
+
+function tokenize(s: string) {
+  return s.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function lcsDiff(x: string[], y: string[]): DiffPart[] {
+  const n = x.length;
+  const m = y.length;
+  // lengths[i][j] = LCS length of x[i..] and y[j..], flattened.
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        x[i] === y[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const out: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (x[i] === y[j]) {
+      out.push({ type: 'same', text: x[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      out.push({ type: 'removed', text: x[i++] });
+    } else {
+      out.push({ type: 'added', text: y[j++] });
+    }
+  }
+  while (i < n) out.push({ type: 'removed', text: x[i++] });
+  while (j < m) out.push({ type: 'added', text: y[j++] });
+  return out;
+}
+
+// Merge with the previous part when the type matches, to keep the render small.
+function push(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+}
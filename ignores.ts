@@ -0,0 +1,123 @@
+import type { Suggestion } from './types';
+
+export type IgnoreScope = 'document' | 'global';
+
+export type IgnoredRule = { id: string; label: string };
+
+export type IgnoreList = {
+  rules: IgnoredRule[];
+  words: string[];
+  // Occurrence fingerprints of individually dismissed suggestions.
+  dismissed: string[];
+};
+
+export type IgnoreState = {
+  global: IgnoreList;
+  documents: Record<string, IgnoreList>;
+};
+
+const STORAGE_KEY = 'upcube.ignores.v1';
+
+export function emptyIgnoreList(): IgnoreList {
+  return { rules: [], words: [], dismissed: [] };
+}
+
+export function loadIgnores(): IgnoreState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<IgnoreState>) : null;
+    return {
+      global: { ...emptyIgnoreList(), ...parsed?.global },
+      documents: parsed?.documents ?? {},
+    };
+  } catch {
+    return { global: emptyIgnoreList(), documents: {} };
+  }
+}
+
+export function saveIgnores(state: IgnoreState) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Storage full or disabled: ignores just won't survive a reload.
+  }
+}
+
+export function listFor(state: IgnoreState, scope: IgnoreScope, docId: string): IgnoreList {
+  return scope === 'global' ? state.global : state.documents[docId] ?? emptyIgnoreList();
+}
+
+/** Return a new state with `list` replaced by `update(list)`. */
+export function updateList(
+  state: IgnoreState,
+  scope: IgnoreScope,
+  docId: string,
+  update: (list: IgnoreList) => IgnoreList,
+): IgnoreState {
+  const next = update(listFor(state, scope, docId));
+  return scope === 'global'
+    ? { ...state, global: next }
+    : { ...state, documents: { ...state.documents, [docId]: next } };
+}
+
+export function ignoreRule(list: IgnoreList, rule: IgnoredRule): IgnoreList {
+  if (list.rules.some((r) => r.id === rule.id)) return list;
+  return { ...list, rules: [...list.rules, rule] };
+}
+
+export function ignoreWord(list: IgnoreList, word: string): IgnoreList {
+  const w = normalizeWord(word);
+  if (!w || list.words.includes(w)) return list;
+  return { ...list, words: [...list.words, w] };
+}
+
+export function dismiss(list: IgnoreList, fingerprint: string): IgnoreList {
+  if (list.dismissed.includes(fingerprint)) return list;
+  return { ...list, dismissed: [...list.dismissed, fingerprint] };
+}
+
+/**
+ * Identify one occurrence by its rule, the flagged text and a little of the
+ * text around it. Offsets would go stale as soon as anything above changes;
+ * the surrounding text only changes when the user edits this very spot.
+ */
+export function occurrenceFingerprint(s: Suggestion, text: string) {
+  if (typeof s.offset !== 'number' || typeof s.length !== 'number') return `${s.ruleId || s.id}|*`;
+  const lead = text.slice(Math.max(0, s.offset - 12), s.offset);
+  const tail = text.slice(s.offset + s.length, s.offset + s.length + 12);
+  return `${s.ruleId || s.id}|${lead}[${s.before ?? ''}]${tail}`;
+}
+
+/** A suggestion's flagged text, when it is a single word worth ignoring. */
+export function ignorableWord(s: Suggestion) {
+  const w = (s.before || '').trim();
+  return w && !/\s/.test(w) ? w : null;
+}
+
+export function isIgnored(s: Suggestion, text: string, state: IgnoreState, docId: string) {
+  const doc = listFor(state, 'document', docId);
+  const ruleId = s.ruleId;
+  if (ruleId && (doc.rules.some((r) => r.id === ruleId) || state.global.rules.some((r) => r.id === ruleId))) {
+    return true;
+  }
+
+  const word = ignorableWord(s);
+  if (word) {
+    const w = normalizeWord(word);
+    if (doc.words.includes(w) || state.global.words.includes(w)) return true;
+  }
+
+  return doc.dismissed.includes(occurrenceFingerprint(s, text));
+}
+
+/** Rule ids LanguageTool should skip entirely for this document. */
+export function disabledRules(state: IgnoreState, docId: string) {
+  const ids = new Set<string>();
+  for (const r of state.global.rules) ids.add(r.id);
+  for (const r of listFor(state, 'document', docId).rules) ids.add(r.id);
+  return [...ids].sort();
+}
+
+function normalizeWord(word: string) {
+  return word.trim().toLowerCase();
+}
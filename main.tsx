@@ -1,10 +1,15 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import SharedView from './SharedView'
+import { shareTokenFromPath } from './sharing'
 import './index.css'
 
+// /share/<token> opens the public viewer for a share link instead of the app.
+const shareToken = shareTokenFromPath(window.location.pathname)
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {shareToken ? <SharedView token={shareToken} /> : <App />}
   </React.StrictMode>
 )
@@ -0,0 +1,12 @@
+-- Documents stored by /api/docs. `version` backs the ETag used for
+-- optimistic concurrency: every successful write bumps it by one.
+CREATE TABLE IF NOT EXISTS docs (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS docs_updated_at ON docs (updated_at);
@@ -0,0 +1,2 @@
+-- Per-document preferences (language, variants, ...) as a JSON object.
+ALTER TABLE docs ADD COLUMN settings TEXT NOT NULL DEFAULT '{}';
@@ -0,0 +1,3 @@
+-- Rich document content (HTML) next to the plain-text body; '' for
+-- documents saved before formatting existed.
+ALTER TABLE docs ADD COLUMN content TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,36 @@
+-- Share links created by /api/share. Each one keeps its own snapshot of the
+-- document, so later edits by the owner don't leak to the link holder.
+-- Tokens are signed and carry their expiry; `revoked_at` ends a link early.
+CREATE TABLE IF NOT EXISTS shares (
+  id TEXT PRIMARY KEY,
+  doc_id TEXT NOT NULL,
+  permission TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  revoked_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS shares_doc_id ON shares (doc_id);
+
+-- Edits and comments sent back through comment and suggest links. Ranges are
+-- plain-text offsets into the share's `body`.
+CREATE TABLE IF NOT EXISTS share_proposals (
+  id TEXT PRIMARY KEY,
+  share_id TEXT NOT NULL,
+  doc_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  range_start INTEGER NOT NULL,
+  range_length INTEGER NOT NULL,
+  original TEXT NOT NULL,
+  replacement TEXT NOT NULL DEFAULT '',
+  note TEXT NOT NULL DEFAULT '',
+  author TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'open',
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS share_proposals_doc ON share_proposals (doc_id, status);
+CREATE INDEX IF NOT EXISTS share_proposals_share ON share_proposals (share_id);
@@ -0,0 +1,31 @@
+-- Comment threads from /api/comments. Each thread is anchored to a range of
+-- the document's plain text; clients move the anchor as the text changes and
+-- keep `quote` in step so the range can be found again if the offsets drift.
+CREATE TABLE IF NOT EXISTS comment_threads (
+  id TEXT PRIMARY KEY,
+  doc_id TEXT NOT NULL,
+  range_start INTEGER NOT NULL,
+  range_length INTEGER NOT NULL,
+  quote TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  resolved_by TEXT NOT NULL DEFAULT '',
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS comment_threads_doc ON comment_threads (doc_id);
+
+-- The thread's first comment and its replies, oldest first. `mentions` is a
+-- JSON array of the names @mentioned in `body`.
+CREATE TABLE IF NOT EXISTS comments (
+  id TEXT PRIMARY KEY,
+  thread_id TEXT NOT NULL,
+  doc_id TEXT NOT NULL,
+  author TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL,
+  mentions TEXT NOT NULL DEFAULT '[]',
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS comments_thread ON comments (thread_id, created_at);
+CREATE INDEX IF NOT EXISTS comments_doc ON comments (doc_id);
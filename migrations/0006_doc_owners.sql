@@ -0,0 +1,7 @@
+-- Each document belongs to the owner key that created it; `owner` is the
+-- key's SHA-256 (functions/lib/owner.ts). Documents stored before owners
+-- existed have none: they stay hidden until a client pushes them again,
+-- which claims them for that client's key.
+ALTER TABLE docs ADD COLUMN owner TEXT NOT NULL DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS docs_owner ON docs (owner, updated_at);
@@ -0,0 +1,6 @@
+-- Share links belong to the owner key that created them (functions/lib/owner.ts),
+-- and only that owner can list or revoke them and read what reviewers sent.
+-- Links created before owners keep working for reviewers but have no owner.
+ALTER TABLE shares ADD COLUMN owner TEXT NOT NULL DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS shares_owner ON shares (owner, doc_id);
@@ -0,0 +1,25 @@
+-- Documents are keyed by owner and id. A device that switches to another
+-- owner key pushes its documents again under the new key; the same id under
+-- two owners is two documents, not a conflict. SQLite can't change a primary
+-- key in place, so the table is rebuilt.
+CREATE TABLE docs_by_owner (
+  owner TEXT NOT NULL DEFAULT '',
+  id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  settings TEXT NOT NULL DEFAULT '{}',
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  PRIMARY KEY (owner, id)
+);
+
+INSERT INTO docs_by_owner (owner, id, title, body, content, settings, created_at, updated_at, version)
+SELECT owner, id, title, body, content, settings, created_at, updated_at, version FROM docs;
+
+DROP TABLE docs;
+ALTER TABLE docs_by_owner RENAME TO docs;
+
+CREATE INDEX IF NOT EXISTS docs_updated_at ON docs (updated_at);
+CREATE INDEX IF NOT EXISTS docs_owner ON docs (owner, updated_at);
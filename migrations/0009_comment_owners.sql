@@ -0,0 +1,7 @@
+-- Comment threads belong to the owner key of the document they are on
+-- (functions/lib/owner.ts); since 0008 a document is its owner and id
+-- together, so threads are looked up by both. Replies follow their thread.
+-- Threads from before owners have none and stay hidden.
+ALTER TABLE comment_threads ADD COLUMN owner TEXT NOT NULL DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS comment_threads_owner ON comment_threads (owner, doc_id);
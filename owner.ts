@@ -0,0 +1,48 @@
+/**
+ * The owner key: a random secret minted once per browser that /api/docs and
+ * /api/share use to tell whose documents are whose. It is the only credential,
+ * so using the same documents on another device means copying it there.
+ */
+
+const OWNER_KEY = 'upcube.owner.v1';
+
+// Used when localStorage is unavailable, so at least this session stays consistent.
+let sessionKey = '';
+
+export function isValidOwnerKey(key: string) {
+  return /^[A-Za-z0-9_-]{32,128}$/.test(key);
+}
+
+export function loadOwnerKey() {
+  try {
+    const stored = localStorage.getItem(OWNER_KEY) ?? '';
+    if (isValidOwnerKey(stored)) return stored;
+    const key = mintKey();
+    localStorage.setItem(OWNER_KEY, key);
+    return key;
+  } catch {
+    return (sessionKey ||= mintKey());
+  }
+}
+
+export function saveOwnerKey(key: string) {
+  if (!isValidOwnerKey(key)) return;
+  try {
+    localStorage.setItem(OWNER_KEY, key);
+  } catch {
+    sessionKey = key;
+  }
+}
+
+/** Headers that identify this browser's owner to the server. */
+export function ownerHeaders(): Record<string, string> {
+  return { authorization: `Bearer ${loadOwnerKey()}` };
+}
+
+function mintKey() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
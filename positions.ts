@@ -0,0 +1,133 @@
+import type { Suggestion } from './types';
+
+/**
+ * A single contiguous change: [from, to) of the old text was replaced by
+ * `inserted` characters. Typing, pasting and applying a fix all produce one.
+ */
+export type Edit = { from: number; to: number; inserted: number };
+
+/** Smallest single edit that turns `prev` into `next` (common prefix/suffix). */
+export function diffEdit(prev: string, next: string): Edit | null {
+  if (prev === next) return null;
+
+  const max = Math.min(prev.length, next.length);
+  let start = 0;
+  while (start < max && prev.charCodeAt(start) === next.charCodeAt(start)) start++;
+
+  let endPrev = prev.length;
+  let endNext = next.length;
+  while (endPrev > start && endNext > start && prev.charCodeAt(endPrev - 1) === next.charCodeAt(endNext - 1)) {
+    endPrev--;
+    endNext--;
+  }
+
+  return { from: start, to: endPrev, inserted: endNext - start };
+}
+
+/**
+ * Map a range through an edit. Ranges before or after the edit shift as
+ * needed; ranges the edit touches are no longer trustworthy and map to null.
+ */
+export function mapRange(offset: number, length: number, edit: Edit): { offset: number; length: number } | null {
+  const end = offset + length;
+  const delta = edit.inserted - (edit.to - edit.from);
+
+  // Entirely before the edit: typing right after a range leaves it alone.
+  if (end <= edit.from) return { offset, length };
+  // Entirely after the edit: typing right before a range pushes it along.
+  if (offset >= edit.to) return { offset: offset + delta, length };
+  return null;
+}
+
+/**
+ * Map a range through an edit, stretching it over changes inside it. A
+ * comment stays on its passage while the passage is rewritten; only deleting
+ * all of it maps to null. Typing just outside the range leaves it alone.
+ */
+export function mapAnchor(offset: number, length: number, edit: Edit): { offset: number; length: number } | null {
+  const end = offset + length;
+  const delta = edit.inserted - (edit.to - edit.from);
+
+  const start = offset < edit.from ? offset : offset >= edit.to ? offset + delta : edit.from;
+  const stop = end <= edit.from ? end : end > edit.to ? end + delta : edit.from + edit.inserted;
+  return stop > start ? { offset: start, length: stop - start } : null;
+}
+
+/** Shift every ranged suggestion through `edit`, dropping the ones it hit. */
+export function rebaseSuggestions(suggestions: Suggestion[], edit: Edit | null): Suggestion[] {
+  if (!edit) return suggestions;
+
+  const out: Suggestion[] = [];
+  for (const s of suggestions) {
+    if (!hasRange(s)) {
+      out.push(s);
+      continue;
+    }
+    const mapped = mapRange(s.offset!, s.length!, edit);
+    if (!mapped) continue;
+    out.push(mapped.offset === s.offset ? s : { ...s, ...mapped });
+  }
+  return out;
+}
+
+export function hasRange(s: Suggestion) {
+  return typeof s.offset === 'number' && typeof s.length === 'number';
+}
+
+export function canApply(s: Suggestion) {
+  if (hasRange(s)) return !!s.replacements?.length;
+  return !!s.apply;
+}
+
+/**
+ * Apply `replacement` (default: the top one) at the suggestion's current
+ * range. Returns null when the text there no longer matches `before`, which
+ * means the suggestion went stale and must not touch the document.
+ */
+export function applySuggestionToText(text: string, s: Suggestion, replacement?: string): string | null {
+  if (!hasRange(s)) return s.apply ? s.apply(text) : null;
+
+  const value = replacement ?? s.replacements?.[0];
+  if (value === undefined) return null;
+
+  const start = s.offset!;
+  const end = start + s.length!;
+  if (end > text.length) return null;
+  if (s.before !== undefined && text.slice(start, end) !== s.before) return null;
+
+  return text.slice(0, start) + value + text.slice(end);
+}
+
+/**
+ * Combine suggestions from several engines into one list sorted by position.
+ *
+ * Two suggestions conflict when their ranges overlap and they are the same
+ * span or both propose an edit (only one edit can land there). Of a
+ * conflicting pair the more specific one stays: the one with a replacement,
+ * then the narrower range, then LanguageTool's. Wide flag-only notes, like a
+ * long sentence, sit alongside the finer suggestions inside them.
+ */
+export function mergeSuggestions(...lists: Suggestion[][]): Suggestion[] {
+  const ranked = lists.flat().sort(bySpecificity);
+  const kept: Suggestion[] = [];
+  for (const s of ranked) {
+    if (!hasRange(s) || !kept.some((k) => hasRange(k) && conflicts(k, s))) kept.push(s);
+  }
+  return kept.sort((a, b) => (a.offset ?? Infinity) - (b.offset ?? Infinity) || (a.length ?? 0) - (b.length ?? 0));
+}
+
+function conflicts(a: Suggestion, b: Suggestion) {
+  const aEnd = a.offset! + a.length!;
+  const bEnd = b.offset! + b.length!;
+  if (a.offset! >= bEnd || b.offset! >= aEnd) return false;
+  const sameSpan = a.offset === b.offset && a.length === b.length;
+  return sameSpan || (!!a.replacements?.length && !!b.replacements?.length);
+}
+
+function bySpecificity(a: Suggestion, b: Suggestion) {
+  const edits = Number(!!b.replacements?.length) - Number(!!a.replacements?.length);
+  if (edits) return edits;
+  const width = (a.length ?? Infinity) - (b.length ?? Infinity);
+  if (width) return width;
+  return Number(b.source === 'languagetool') - Number(a.source === 'languagetool');
+}
@@ -0,0 +1,145 @@
+import { Editor, JSONContent, generateHTML, generateJSON, getSchema } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import Link from '@tiptap/extension-link';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+/**
+ * The rich document and its plain text.
+ *
+ * Checks, local rules, history and the side panels all work on plain text:
+ * one line per paragraph, heading or list item, with no markup. That text is
+ * a projection of the TipTap document, and the projection remembers where
+ * each line starts so offsets found in the text map back to document
+ * positions (for decorations and edits) and the other way round.
+ */
+
+/**
+ * The document schema: headings, lists, bold/italic and links. Editor-only
+ * behaviour is added in RichEditor. Live sessions turn `history` off because
+ * Yjs keeps the undo stack there.
+ */
+export function documentExtensions({ history = true } = {}) {
+  return [
+    StarterKit.configure({ heading: { levels: [1, 2, 3] }, history: history ? undefined : false }),
+    Link.configure({ openOnClick: false, autolink: true }),
+  ];
+}
+
+export const EDITOR_EXTENSIONS = documentExtensions();
+
+export const editorSchema = getSchema(EDITOR_EXTENSIONS);
+
+/** Parse HTML (the stored `content`) into a document. Needs a DOM. */
+export function parseHtml(html: string): ProseMirrorNode {
+  return editorSchema.nodeFromJSON(generateJSON(html, EDITOR_EXTENSIONS));
+}
+
+export function toHtml(doc: ProseMirrorNode): string {
+  return generateHTML(doc.toJSON(), EDITOR_EXTENSIONS);
+}
+
+/** The document for a doc or version: its rich content, or its plain text a line per paragraph. */
+export function docNode(doc: { body: string; content?: string }): ProseMirrorNode {
+  return doc.content ? parseHtml(doc.content) : editorSchema.nodeFromJSON(plainTextDoc(doc.body));
+}
+
+// One textblock: `length` characters of text at `offset` are the document
+// positions from `pos` on. Inside a textblock every character is one position.
+type Line = { offset: number; pos: number; length: number };
+
+export type TextProjection = { text: string; lines: Line[] };
+
+// Stands in for inline nodes that aren't text, so offsets stay one-to-one.
+const OBJECT = '\ufffc';
+
+export function projectText(doc: ProseMirrorNode): TextProjection {
+  let text = '';
+  const lines: Line[] = [];
+
+  doc.descendants((node, pos) => {
+    // Lists, quotes and other containers: their blocks become lines.
+    if (!node.isTextblock && !node.isLeaf) return true;
+    if (!node.isBlock) return false;
+
+    if (lines.length) text += '\n';
+    let line = '';
+    node.forEach((child) => {
+      line += child.isText ? child.text! : child.type.name === 'hardBreak' ? '\n' : OBJECT;
+    });
+    lines.push({ offset: text.length, pos: pos + 1, length: line.length });
+    text += line;
+    return false;
+  });
+
+  return { text, lines };
+}
+
+/** Document position of a plain-text offset. */
+export function toPos(projection: TextProjection, offset: number) {
+  const line = lineAt(projection.lines, (l) => l.offset <= offset);
+  return line ? line.pos + Math.min(Math.max(offset - line.offset, 0), line.length) : 0;
+}
+
+/** Plain-text offset of a document position. */
+export function toOffset(projection: TextProjection, pos: number) {
+  const line = lineAt(projection.lines, (l) => l.pos <= pos);
+  return line ? line.offset + Math.min(Math.max(pos - line.pos, 0), line.length) : 0;
+}
+
+// Last line for which `before` holds; lines are in document order.
+function lineAt(lines: Line[], before: (l: Line) => boolean) {
+  let lo = 0;
+  let hi = lines.length - 1;
+  let found: Line | undefined;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (before(lines[mid])) {
+      found = lines[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found ?? lines[0];
+}
+
+/** A document with one paragraph per line, for text that has no rich content yet. */
+export function plainTextDoc(text: string): JSONContent {
+  return {
+    type: 'doc',
+    content: text.split('\n').map((line) => ({
+      type: 'paragraph',
+      content: line ? [{ type: 'text', text: line }] : undefined,
+    })),
+  };
+}
+
+/** What to load into the editor for a document or version. */
+export function editorContent(doc: { body: string; content?: string }): JSONContent | string {
+  return doc.content || plainTextDoc(doc.body);
+}
+
+/**
+ * Replace `length` characters at a plain-text `offset` with `value`, keeping
+ * the formatting around it. Goes through the editor, so it can be undone.
+ */
+export function replaceText(editor: Editor, offset: number, length: number, value: string) {
+  replaceRanges(editor, [{ offset, length, value }]);
+}
+
+/**
+ * Several replacements as one transaction, so a single undo takes them all
+ * back. Ranges are offsets into the current text and must not overlap.
+ */
+export function replaceRanges(editor: Editor, changes: { offset: number; length: number; value: string }[]) {
+  const projection = projectText(editor.state.doc);
+  const tr = editor.state.tr;
+  // Last first, so the positions of the earlier ones still hold.
+  for (const { offset, length, value } of [...changes].sort((a, b) => b.offset - a.offset)) {
+    const from = toPos(projection, offset);
+    const to = toPos(projection, offset + length);
+    if (value) tr.insertText(value, from, to);
+    else tr.delete(from, to);
+  }
+  editor.view.dispatch(tr.scrollIntoView());
+}
@@ -0,0 +1,246 @@
+import { splitSentences } from './style';
+import type { Suggestion, SuggestionSeverity } from './types';
+
+/**
+ * Local rule engine: quick checks that run in the browser, online or not.
+ *
+ * Each rule reports real ranges in the text it was given, so its suggestions
+ * highlight, rebase and apply exactly like LanguageTool's.
+ */
+
+export type RuleCategory = 'grammar' | 'typographical' | 'whitespace' | 'style' | 'clarity';
+
+export type RuleMatch = {
+  offset: number;
+  length: number;
+  replacements?: string[];
+  // Overrides the rule's detail for this one match.
+  message?: string;
+};
+
+export type LocalRule = {
+  id: string;
+  category: RuleCategory;
+  severity: SuggestionSeverity;
+  title: string;
+  detail: string;
+  match: (text: string) => RuleMatch[];
+};
+
+// A runaway pattern shouldn't bury every other suggestion.
+const MAX_MATCHES_PER_RULE = 100;
+
+/* ----------------------------- Registry ----------------------------- */
+
+const registry = new Map<string, LocalRule>();
+
+/** Add or replace a rule; returns a function that removes it again. */
+export function registerRule(rule: LocalRule) {
+  registry.set(rule.id, rule);
+  return () => {
+    if (registry.get(rule.id) === rule) registry.delete(rule.id);
+  };
+}
+
+export function listRules(): LocalRule[] {
+  return [...registry.values()];
+}
+
+export function runRules(text: string, rules: LocalRule[] = listRules()): Suggestion[] {
+  if (!text.trim()) return [];
+
+  const out: Suggestion[] = [];
+  for (const rule of rules) {
+    let matches: RuleMatch[];
+    try {
+      matches = rule.match(text).slice(0, MAX_MATCHES_PER_RULE);
+    } catch {
+      continue; // One broken custom rule shouldn't take the rest down.
+    }
+    for (const m of matches) {
+      if (m.offset < 0 || m.length <= 0 || m.offset + m.length > text.length) continue;
+      out.push({
+        id: `${rule.id}-${m.offset}-${m.length}`,
+        severity: rule.severity,
+        source: 'local',
+        title: rule.title,
+        detail: m.message ?? rule.detail,
+        ruleId: rule.id,
+        issueType: rule.category,
+        before: text.slice(m.offset, m.offset + m.length),
+        after: m.replacements?.[0],
+        offset: m.offset,
+        length: m.length,
+        replacements: m.replacements ?? [],
+      });
+    }
+  }
+  return out.sort((a, b) => a.offset! - b.offset!);
+}
+
+/**
+ * A rule from a global regex. `replace` maps each match to its
+ * replacements; leave it out for rules that only flag.
+ */
+export function regexRule(
+  def: Omit<LocalRule, 'match'> & { pattern: RegExp; replace?: (m: RegExpExecArray) => string | string[] },
+): LocalRule {
+  const { pattern, replace, ...rest } = def;
+  const flags = pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g';
+  return {
+    ...rest,
+    match(text) {
+      const re = new RegExp(pattern.source, flags);
+      const out: RuleMatch[] = [];
+      let m: RegExpExecArray | null;
+      while ((m = re.exec(text)) && out.length < MAX_MATCHES_PER_RULE) {
+        if (!m[0]) {
+          re.lastIndex++;
+          continue;
+        }
+        const r = replace?.(m);
+        out.push({ offset: m.index, length: m[0].length, replacements: r === undefined ? [] : [r].flat() });
+      }
+      return out;
+    },
+  };
+}
+
+/* ----------------------------- Built-in rules ----------------------------- */
+
+/** Flags sentences longer than `maxWords`. */
+export function longSentenceRule(maxWords: number): LocalRule {
+  return {
+    id: 'long-sentence',
+    category: 'clarity',
+    severity: 'warning',
+    title: 'Consider splitting a long sentence',
+    detail: 'Long sentences can be harder to follow. Split it into two clear thoughts.',
+    match(text) {
+      return splitSentences(text)
+        .filter((s) => s.words > maxWords)
+        .map((s) => ({
+          offset: s.offset,
+          length: s.length,
+          message: `This sentence has ${s.words} words. Split it into two clear thoughts.`,
+        }));
+    },
+  };
+}
+
+export const BUILTIN_RULES: LocalRule[] = [
+  regexRule({
+    id: 'cap-i',
+    category: 'grammar',
+    severity: 'warning',
+    title: 'Capitalize “I”',
+    detail: 'Capitalizing the first-person pronoun improves professionalism and readability.',
+    // Not the "i" of "i.e.".
+    pattern: /\bi\b(?!\.\w)/g,
+    replace: () => 'I',
+  }),
+  regexRule({
+    id: 'double-space',
+    category: 'whitespace',
+    severity: 'info',
+    title: 'Remove extra spaces',
+    detail: 'Extra spaces can make your writing feel uneven.',
+    // Between words only; indentation is left alone.
+    pattern: /(?<=\S) {2,}(?=\S)/g,
+    replace: () => ' ',
+  }),
+  longSentenceRule(30),
+  {
+    id: 'opener',
+    category: 'style',
+    severity: 'info',
+    title: 'Strengthen your opening line',
+    detail: 'Starting with a direct statement sets a confident tone.',
+    match(text) {
+      const m = /^\s*(so|okay|ok|well)\b,?\s*/i.exec(text);
+      if (!m) return [];
+      const lead = m[0].length - m[0].trimStart().length;
+      return [{ offset: lead, length: m[1].length }];
+    },
+  },
+  regexRule({
+    id: 'im-contraction',
+    category: 'grammar',
+    severity: 'critical',
+    title: 'Fix contraction “I’m”',
+    detail: 'Correct contractions improve clarity and reduce friction for readers.',
+    pattern: /\bim\b/gi,
+    replace: () => "I'm",
+  }),
+  regexRule({
+    id: 'exclaim',
+    category: 'typographical',
+    severity: 'warning',
+    title: 'Reduce repeated exclamation marks',
+    detail: 'A single exclamation mark is usually enough.',
+    pattern: /!{2,}/g,
+    replace: () => '!',
+  }),
+];
+
+for (const rule of BUILTIN_RULES) registerRule(rule);
+
+/* ----------------------------- Custom rules ----------------------------- */
+
+/** A user-defined regex rule, as stored and edited in Settings. */
+export type CustomRuleDef = {
+  id: string;
+  title: string;
+  pattern: string;
+  flags: string;
+  // `$1`-style references work, as in String.replace. Empty = flag only.
+  replacement: string;
+  severity: SuggestionSeverity;
+};
+
+const CUSTOM_RULES_KEY = 'upcube.rules.custom.v1';
+
+export function loadCustomRules(): CustomRuleDef[] {
+  try {
+    const raw = localStorage.getItem(CUSTOM_RULES_KEY);
+    const parsed = raw ? (JSON.parse(raw) as CustomRuleDef[]) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomRules(defs: CustomRuleDef[]) {
+  try {
+    localStorage.setItem(CUSTOM_RULES_KEY, JSON.stringify(defs));
+  } catch {
+    // Storage full or disabled: the rules last until reload.
+  }
+}
+
+/** Error message for a pattern that doesn't compile, or null. */
+export function patternError(pattern: string, flags: string) {
+  if (!pattern) return 'Enter a pattern';
+  try {
+    new RegExp(pattern, flags);
+    return null;
+  } catch (err: any) {
+    return err?.message || 'Invalid pattern';
+  }
+}
+
+export function compileCustomRule(def: CustomRuleDef): LocalRule | null {
+  const flags = def.flags.replace(/[^imsu]/g, '');
+  if (patternError(def.pattern, flags)) return null;
+  return regexRule({
+    id: def.id,
+    category: 'style',
+    severity: def.severity,
+    title: def.title || 'Custom rule',
+    detail: `Matches your rule /${def.pattern}/${flags}.`,
+    pattern: new RegExp(def.pattern, flags),
+    replace: def.replacement
+      ? (m) => def.replacement.replace(/\$(\d+|&)/g, (_, g: string) => (g === '&' ? m[0] : m[Number(g)] ?? ''))
+      : undefined,
+  });
+}
@@ -0,0 +1,233 @@
+import { diffWords } from './history';
+import { ownerHeaders } from './owner';
+import { diffEdit, mapRange } from './positions';
+import type {
+  Proposal,
+  ProposalInput,
+  ProposalStatus,
+  SentProposal,
+  SharePermission,
+  ShareLink,
+  SharedDoc,
+} from './functions/lib/shareApi';
+import type { Suggestion } from './types';
+
+/**
+ * Share links, client side: creating and revoking them for the owner (the
+ * holder of the owner key, see owner.ts), the public viewer's reads and
+ * sends, and turning a reviewer's edits into proposals that come back to the
+ * owner as suggestion cards.
+ */
+
+export const PERMISSION_LABEL: Record<SharePermission, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  suggest: 'Can suggest edits',
+};
+
+const SHARE_PATH = /^\/share\/([A-Za-z0-9_.-]+)\/?$/;
+const REVIEWER_KEY = 'upcube.reviewer.v1';
+
+export function shareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`;
+}
+
+/** The token of a public viewer URL (`/share/<token>`), or null for the app itself. */
+export function shareTokenFromPath(pathname: string) {
+  return pathname.match(SHARE_PATH)?.[1] ?? null;
+}
+
+/* ----------------------------- Owner ----------------------------- */
+
+export async function listShares(docId: string): Promise<ShareLink[]> {
+  const res = await fetch(`/api/share?docId=${encodeURIComponent(docId)}`, { headers: ownerHeaders() });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; links?: ShareLink[]; error?: string } | null;
+  if (!json?.ok || !json.links) throw new Error(json?.error || 'Share links unavailable');
+  return json.links;
+}
+
+export async function createShare(
+  doc: { docId: string; title: string; body: string; content?: string },
+  permission: SharePermission,
+  days: number,
+): Promise<ShareLink> {
+  const res = await fetch('/api/share', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...ownerHeaders() },
+    body: JSON.stringify({ ...doc, permission, days }),
+  });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; link?: ShareLink; error?: string } | null;
+  if (!json?.ok || !json.link) throw new Error(json?.error || 'Could not create the link');
+  return json.link;
+}
+
+export async function revokeShare(id: string) {
+  const res = await fetch(`/api/share?id=${encodeURIComponent(id)}`, { method: 'DELETE', headers: ownerHeaders() });
+  if (!res.ok && res.status !== 404) throw new Error('Could not revoke the link');
+}
+
+export type Review = { proposals: Proposal[]; snapshots: Record<string, string> };
+
+export async function fetchReview(docId: string): Promise<Review> {
+  const res = await fetch(`/api/share/proposals?docId=${encodeURIComponent(docId)}`, { headers: ownerHeaders() });
+  const json = (await res.json().catch(() => null)) as ({ ok?: boolean } & Partial<Review>) | null;
+  if (!json?.ok || !json.proposals) throw new Error('Proposals unavailable');
+  return { proposals: json.proposals, snapshots: json.snapshots ?? {} };
+}
+
+export async function resolveProposal(id: string, status: Exclude<ProposalStatus, 'open'>) {
+  const res = await fetch('/api/share/proposals', {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json', ...ownerHeaders() },
+    body: JSON.stringify({ id, status }),
+  });
+  if (!res.ok && res.status !== 404) throw new Error('Could not update the proposal');
+}
+
+/**
+ * Open proposals as suggestion cards on the owner's current text. Each range
+ * is mapped from its snapshot through the owner's edits since; when that
+ * lands somewhere else, the nearest copy of the original text is used. A
+ * proposal that can't be placed keeps its card but has no range to apply.
+ */
+export function proposalSuggestions(review: Review, text: string): Suggestion[] {
+  const edits = new Map<string, ReturnType<typeof diffEdit>>();
+  const editFor = (shareId: string) => {
+    const base = review.snapshots[shareId];
+    if (base === undefined) return null;
+    if (!edits.has(shareId)) edits.set(shareId, diffEdit(base, text));
+    return edits.get(shareId)!;
+  };
+
+  return review.proposals.map((p) => {
+    const range = placeProposal(p, text, editFor(p.shareId));
+    const who = p.author || 'A reviewer';
+    return {
+      id: `proposal:${p.id}`,
+      severity: 'info',
+      source: 'reviewer',
+      title: p.kind === 'edit' ? `${who} suggests an edit` : `${who} commented`,
+      detail: p.note || (p.kind === 'edit' ? 'Sent through a share link.' : ''),
+      before: p.original || undefined,
+      after: p.kind === 'edit' ? p.replacement || '(delete)' : undefined,
+      ...(range ?? {}),
+      replacements: p.kind === 'edit' ? [p.replacement ?? ''] : undefined,
+    };
+  });
+}
+
+export function proposalIdOf(s: Suggestion) {
+  return s.source === 'reviewer' ? s.id.slice('proposal:'.length) : null;
+}
+
+function placeProposal(p: Proposal, text: string, edit: ReturnType<typeof diffEdit>) {
+  const mapped = edit ? mapRange(p.offset, p.length, edit) : { offset: p.offset, length: p.length };
+  if (mapped && text.slice(mapped.offset, mapped.offset + mapped.length) === p.original) return mapped;
+  if (!p.original) return null;
+
+  let best = -1;
+  for (let i = text.indexOf(p.original); i !== -1; i = text.indexOf(p.original, i + 1)) {
+    if (best === -1 || Math.abs(i - p.offset) < Math.abs(best - p.offset)) best = i;
+  }
+  return best === -1 ? null : { offset: best, length: p.original.length };
+}
+
+/* ----------------------------- Reviewer ----------------------------- */
+
+export async function fetchShared(token: string): Promise<{ doc: SharedDoc; proposals: SentProposal[] }> {
+  const res = await fetch(`/api/share/${encodeURIComponent(token)}`, { cache: 'no-store' });
+  const json = (await res.json().catch(() => null)) as
+    | { ok?: boolean; doc?: SharedDoc; proposals?: SentProposal[]; error?: string }
+    | null;
+  if (!json?.ok || !json.doc) throw new Error(json?.error || 'This link could not be opened');
+  return { doc: json.doc, proposals: json.proposals ?? [] };
+}
+
+export async function sendProposals(
+  token: string,
+  author: string,
+  proposals: ProposalInput[],
+): Promise<SentProposal[]> {
+  const res = await fetch(`/api/share/${encodeURIComponent(token)}/proposals`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ author, proposals }),
+  });
+  const json = (await res.json().catch(() => null)) as
+    | { ok?: boolean; proposals?: SentProposal[]; error?: string }
+    | null;
+  if (!json?.ok || !json.proposals) throw new Error(json?.error || 'Sending failed');
+  return json.proposals;
+}
+
+/**
+ * A reviewer's edits as proposals against the snapshot: one per changed run
+ * of words, so the owner can take some and leave others.
+ */
+export function editProposals(base: string, edited: string): ProposalInput[] {
+  const out: ProposalInput[] = [];
+  let offset = 0;
+  let hunk: ProposalInput | null = null;
+
+  for (const part of diffWords(base, edited)) {
+    if (part.type === 'same') {
+      if (hunk) out.push(hunk);
+      hunk = null;
+      offset += part.text.length;
+      continue;
+    }
+    hunk ??= { kind: 'edit', offset, length: 0, original: '', replacement: '' };
+    if (part.type === 'removed') {
+      hunk.length += part.text.length;
+      hunk.original += part.text;
+      offset += part.text.length;
+    } else {
+      hunk.replacement += part.text;
+    }
+  }
+  if (hunk) out.push(hunk);
+  return out;
+}
+
+/**
+ * Map a range in the reviewer's edited text back onto the snapshot. Text the
+ * reviewer added maps to the point where it was inserted.
+ */
+export function rangeInBase(base: string, edited: string, from: number, to: number) {
+  let a = 0;
+  let b = 0;
+  let baseFrom = -1;
+  let baseTo = -1;
+
+  for (const part of diffWords(base, edited)) {
+    const len = part.text.length;
+    if (part.type === 'removed') {
+      a += len;
+      continue;
+    }
+    const same = part.type === 'same';
+    if (baseFrom === -1 && from <= b + len) baseFrom = same ? a + (from - b) : a;
+    if (baseTo === -1 && to <= b + len) baseTo = same ? a + (to - b) : a;
+    if (same) a += len;
+    b += len;
+  }
+  if (baseFrom === -1) baseFrom = base.length;
+  if (baseTo === -1) baseTo = base.length;
+  return { offset: baseFrom, length: Math.max(0, baseTo - baseFrom) };
+}
+
+export function loadReviewerName() {
+  try {
+    return localStorage.getItem(REVIEWER_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveReviewerName(name: string) {
+  try {
+    localStorage.setItem(REVIEWER_KEY, name);
+  } catch {
+    // Not fatal: the reviewer types their name again next time.
+  }
+}
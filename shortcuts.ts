@@ -0,0 +1,149 @@
+/**
+ * Keyboard shortcuts for the suggestion workflow, the command palette and
+ * the help overlay. Bindings are strings like "Mod+K" or "Alt+Shift+Enter",
+ * where Mod is ⌘ on a Mac and Ctrl elsewhere; letters and digits are read
+ * from the physical key, so Alt combinations still work on a Mac.
+ */
+
+export type ShortcutAction =
+  | 'nextIssue'
+  | 'prevIssue'
+  | 'applyTop'
+  | 'cycleReplacement'
+  | 'dismiss'
+  | 'applyAllRule'
+  | 'palette'
+  | 'help';
+
+export type Bindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { id: ShortcutAction; label: string }[] = [
+  { id: 'nextIssue', label: 'Next issue' },
+  { id: 'prevIssue', label: 'Previous issue' },
+  { id: 'applyTop', label: 'Apply the selected replacement' },
+  { id: 'cycleReplacement', label: 'Next alternative replacement' },
+  { id: 'dismiss', label: 'Dismiss the issue' },
+  { id: 'applyAllRule', label: 'Apply all issues of this rule' },
+  { id: 'palette', label: 'Command palette' },
+  { id: 'help', label: 'Keyboard shortcuts' },
+];
+
+// Alt-based so they don't collide with typing or the editor's own Ctrl/⌘ keys.
+export const DEFAULT_BINDINGS: Bindings = {
+  nextIssue: 'Alt+ArrowDown',
+  prevIssue: 'Alt+ArrowUp',
+  applyTop: 'Alt+Enter',
+  cycleReplacement: 'Alt+R',
+  dismiss: 'Alt+D',
+  applyAllRule: 'Alt+Shift+Enter',
+  palette: 'Mod+K',
+  help: 'Mod+/',
+};
+
+/** The editor's built-in keys, listed in the help overlay; not rebindable. */
+export const EDITOR_SHORTCUTS: { label: string; binding: string }[] = [
+  { label: 'Bold', binding: 'Mod+B' },
+  { label: 'Italic', binding: 'Mod+I' },
+  { label: 'Undo', binding: 'Mod+Z' },
+  { label: 'Redo', binding: 'Mod+Shift+Z' },
+];
+
+const BINDINGS_KEY = 'upcube.shortcuts.v1';
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']);
+
+type KeyPress = Pick<KeyboardEvent, 'key' | 'code' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>;
+
+/** The binding a key press spells, or null for a lone modifier. */
+export function eventToBinding(e: KeyPress): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = /^Key[A-Z]$/.test(e.code)
+    ? e.code.slice(3)
+    : /^Digit\d$/.test(e.code)
+      ? e.code.slice(5)
+      : e.key.length === 1
+        ? e.key.toUpperCase()
+        : e.key;
+  const parts = [];
+  if (IS_MAC ? e.metaKey : e.ctrlKey) parts.push('Mod');
+  if (IS_MAC && e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  // Shift is part of symbols like "?"; only count it for named keys, letters and digits.
+  if (e.shiftKey && (key.length > 1 || /^[A-Z0-9]$/.test(key))) parts.push('Shift');
+  parts.push(key === ' ' ? 'Space' : key);
+  return parts.join('+');
+}
+
+const KEY_LABEL: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Enter: '↵',
+  Escape: 'Esc',
+  Backspace: '⌫',
+};
+
+/** How a binding reads on this platform: ⌥↓ on a Mac, Alt+↓ elsewhere. */
+export function formatBinding(binding: string) {
+  if (!binding) return '—';
+  const parts = binding.split('+').map((p, i, all) => {
+    // "Mod++" would split oddly; a trailing empty part is the plus key itself.
+    if (p === '' && i === all.length - 1) return '+';
+    if (p === 'Mod') return IS_MAC ? '⌘' : 'Ctrl';
+    if (p === 'Alt') return IS_MAC ? '⌥' : 'Alt';
+    if (p === 'Shift') return IS_MAC ? '⇧' : 'Shift';
+    if (p === 'Ctrl') return IS_MAC ? '⌃' : 'Ctrl';
+    return KEY_LABEL[p] ?? p;
+  });
+  return parts.filter(Boolean).join(IS_MAC ? '' : '+');
+}
+
+/** The action bound to a key press, if any. */
+export function actionFor(bindings: Bindings, e: KeyPress): ShortcutAction | null {
+  const pressed = eventToBinding(e);
+  if (!pressed) return null;
+  return SHORTCUT_ACTIONS.find((a) => bindings[a.id] === pressed)?.id ?? null;
+}
+
+/** Actions sharing a binding with another; only the first of them would run. */
+export function conflictingActions(bindings: Bindings): Set<ShortcutAction> {
+  const seen = new Map<string, ShortcutAction>();
+  const out = new Set<ShortcutAction>();
+  for (const { id } of SHORTCUT_ACTIONS) {
+    const b = bindings[id];
+    if (!b) continue;
+    const other = seen.get(b);
+    if (other) {
+      out.add(other);
+      out.add(id);
+    } else {
+      seen.set(b, id);
+    }
+  }
+  return out;
+}
+
+export function loadBindings(): Bindings {
+  try {
+    const raw = localStorage.getItem(BINDINGS_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<Record<string, unknown>>) : {};
+    const out = { ...DEFAULT_BINDINGS };
+    for (const { id } of SHORTCUT_ACTIONS) {
+      if (typeof parsed[id] === 'string') out[id] = parsed[id] as string;
+    }
+    return out;
+  } catch {
+    return { ...DEFAULT_BINDINGS };
+  }
+}
+
+export function saveBindings(bindings: Bindings) {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch {
+    // Not fatal: the defaults apply next time.
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Readability and tone analysis for the Tone & style panel.
+ *
+ * Everything here is a heuristic over plain English text: syllables are
+ * counted from vowel groups, passive voice is "to be" + participle, and tone
+ * comes from small word lists. Good enough to point at sentences worth a
+ * second look, not to grade anyone.
+ */
+
+export type Sentence = { offset: number; length: number; text: string; words: number };
+
+export type Tone = 'formal' | 'casual' | 'confident' | 'hesitant';
+
+export type FlagReason = 'long' | 'very-long' | 'passive' | 'hedging' | 'adverbs';
+
+export type FlaggedSentence = Sentence & { reasons: FlagReason[] };
+
+export type RepeatedWord = { word: string; count: number; offsets: number[] };
+
+export type StyleReport = {
+  words: number;
+  sentences: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  avgSentenceLength: number;
+  longSentences: number;
+  passiveCount: number;
+  adverbCount: number;
+  // Adverbs per 100 words.
+  adverbDensity: number;
+  repeated: RepeatedWord[];
+  // Hits per 100 words for each tone; `tone` is the strongest, null if none stands out.
+  toneScores: Record<Tone, number>;
+  tone: Tone | null;
+  flagged: FlaggedSentence[];
+};
+
+export const LONG_SENTENCE_WORDS = 25;
+export const VERY_LONG_SENTENCE_WORDS = 35;
+const ADVERB_HEAVY = 3;
+const MAX_REPEATED = 8;
+
+/* ----------------------------- Sentences & words ----------------------------- */
+
+/** Sentences with their document offsets; line breaks end a sentence too. */
+export function splitSentences(text: string): Sentence[] {
+  const out: Sentence[] = [];
+  for (const m of text.matchAll(/[^.!?\n]+(?:[.!?]+["'”’)\]]*)?/g)) {
+    const raw = m[0];
+    const trimmed = raw.trim();
+    if (!/[A-Za-z0-9]/.test(trimmed)) continue;
+    const lead = raw.length - raw.trimStart().length;
+    out.push({ offset: m.index! + lead, length: trimmed.length, text: trimmed, words: wordsIn(trimmed).length });
+  }
+  return out;
+}
+
+function wordsIn(text: string) {
+  return text.match(/[A-Za-z][A-Za-z'’-]*/g) ?? [];
+}
+
+function isAdverb(word: string) {
+  return word.length > 3 && /ly$/i.test(word) && !NOT_ADVERBS.has(word.toLowerCase());
+}
+
+/** Vowel-group syllable estimate; always at least one. */
+export function syllables(word: string) {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+/* ----------------------------- Patterns ----------------------------- */
+
+const IRREGULAR_PARTICIPLES =
+  'known|done|made|given|taken|seen|written|found|built|sent|held|told|paid|shown|chosen|thought|brought|' +
+  'bought|caught|taught|kept|left|lost|meant|put|read|run|said|set|spent|won|begun|broken|driven|eaten|' +
+  'fallen|forgotten|frozen|hidden|ridden|spoken|stolen|sworn|torn|worn|understood|drawn|grown|thrown|born';
+
+const PASSIVE = new RegExp(
+  `\\b(?:am|is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES})\\b`,
+  'gi',
+);
+
+// -ly words that aren't adverbs.
+const NOT_ADVERBS = new Set(
+  ('only family early reply apply supply daily weekly monthly yearly friendly likely lovely lonely ugly holy ' +
+    'italy july rely fly ally belly jelly bully rally silly curly elderly costly timely assembly anomaly').split(' '),
+);
+
+const STOPWORDS = new Set(
+  ('the a an and or but if of to in on at by for with from as is are was were be been being it its this that ' +
+    'these those i you he she we they me him her us them my your his our their not no so than then there ' +
+    'here what which who whom when where why how all any each more most some such can will would should ' +
+    'could may might must do does did have has had just also very about into over after before while').split(' '),
+);
+
+const TONE_MARKERS: Record<Tone, RegExp> = {
+  formal:
+    /\b(?:therefore|however|furthermore|moreover|consequently|thus|hence|regarding|accordingly|whereas|nevertheless|notwithstanding|pursuant|hereby|shall|herein)\b/gi,
+  casual:
+    /\b(?:hey|hi|yeah|yep|nope|gonna|wanna|gotta|kinda|sorta|stuff|cool|awesome|okay|ok|lol|btw|guys|super|totally)\b|\w+(?:'|’)(?:m|re|ll|ve|d)\b|\w+n(?:'|’)t\b|!/gi,
+  confident:
+    /\b(?:will|definitely|certainly|clearly|must|ensure|commit|committed|guarantee|proven|confident|deliver|always|undoubtedly)\b/gi,
+  hesitant:
+    /\b(?:maybe|perhaps|possibly|probably|hopefully|might|seems?|apparently|somewhat|i think|i guess|i feel|sort of|kind of|not sure|just wanted)\b/gi,
+};
+
+/* ----------------------------- Analysis ----------------------------- */
+
+export function analyzeStyle(text: string): StyleReport {
+  const sentences = splitSentences(text);
+  const words = wordsIn(text);
+  const wordCount = words.length;
+  const sentenceCount = Math.max(1, sentences.length);
+
+  let syllableCount = 0;
+  let complexWords = 0;
+  for (const w of words) {
+    const n = syllables(w);
+    syllableCount += n;
+    // Gunning Fog leaves out -es/-ed/-ing forms and hyphenated compounds.
+    if (n >= 3 && !/(?:es|ed|ing)$/i.test(w) && !w.includes('-')) complexWords++;
+  }
+
+  const perWord = wordCount || 1;
+  const wordsPerSentence = wordCount / sentenceCount;
+
+  const adverbs = words.filter(isAdverb);
+
+  const toneScores = {} as Record<Tone, number>;
+  for (const tone of Object.keys(TONE_MARKERS) as Tone[]) {
+    toneScores[tone] = round(((text.match(TONE_MARKERS[tone]) ?? []).length / perWord) * 100);
+  }
+  const strongest = (Object.keys(toneScores) as Tone[]).sort((a, b) => toneScores[b] - toneScores[a])[0];
+
+  const flagged: FlaggedSentence[] = [];
+  let passiveCount = 0;
+  for (const s of sentences) {
+    const reasons: FlagReason[] = [];
+    if (s.words > VERY_LONG_SENTENCE_WORDS) reasons.push('very-long');
+    else if (s.words > LONG_SENTENCE_WORDS) reasons.push('long');
+
+    const passive = s.text.match(PASSIVE)?.length ?? 0;
+    passiveCount += passive;
+    if (passive) reasons.push('passive');
+    if (new RegExp(TONE_MARKERS.hesitant.source, 'i').test(s.text)) reasons.push('hedging');
+    if (wordsIn(s.text).filter(isAdverb).length >= ADVERB_HEAVY) reasons.push('adverbs');
+    if (reasons.length) flagged.push({ ...s, reasons });
+  }
+
+  return {
+    words: wordCount,
+    sentences: sentences.length,
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * (syllableCount / perWord)),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * (syllableCount / perWord) - 15.59),
+    gunningFog: round(0.4 * (wordsPerSentence + 100 * (complexWords / perWord))),
+    avgSentenceLength: round(wordsPerSentence),
+    longSentences: sentences.filter((s) => s.words > LONG_SENTENCE_WORDS).length,
+    passiveCount,
+    adverbCount: adverbs.length,
+    adverbDensity: round((adverbs.length / perWord) * 100),
+    repeated: repeatedWords(text, wordCount),
+    toneScores,
+    tone: toneScores[strongest] > 0 ? strongest : null,
+    flagged,
+  };
+}
+
+/** Content words used noticeably often, most frequent first. */
+function repeatedWords(text: string, wordCount: number): RepeatedWord[] {
+  const min = Math.max(3, Math.ceil(wordCount / 100));
+  const seen = new Map<string, RepeatedWord>();
+  for (const m of text.matchAll(/[A-Za-z][A-Za-z'’-]*/g)) {
+    const word = m[0].toLowerCase();
+    if (word.length < 4 || STOPWORDS.has(word)) continue;
+    const entry = seen.get(word) ?? { word, count: 0, offsets: [] };
+    entry.count++;
+    entry.offsets.push(m.index!);
+    seen.set(word, entry);
+  }
+  return [...seen.values()]
+    .filter((r) => r.count >= min)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_REPEATED);
+}
+
+function round(n: number) {
+  return Number.isFinite(n) ? Math.round(n * 10) / 10 : 0;
+}
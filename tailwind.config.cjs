@@ -3,7 +3,17 @@ module.exports = {
   content: [
     './index.html',
     './App.tsx',
+    './CommandPalette.tsx',
+    './CommentThreads.tsx',
+    './DocList.tsx',
     './Editor.tsx',
+    './HistoryPanel.tsx',
+    './RichEditor.tsx',
+    './SettingsPanel.tsx',
+    './ShareDialog.tsx',
+    './SharedView.tsx',
+    './TemplatesPanel.tsx',
+    './TonePanel.tsx',
     './main.tsx',
     './functions/**/*.{ts,tsx}',
   ],
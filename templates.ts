@@ -0,0 +1,156 @@
+import { DocSettings, newId } from './docStore';
+
+/**
+ * Document templates: built-in starters plus the user's own, saved from any
+ * document. `{{field}}` placeholders in the title or body are asked for when
+ * a document is created from the template.
+ */
+
+export type Template = {
+  id: string;
+  name: string;
+  description: string;
+  title: string;
+  body: string;
+  // Rich content (HTML) for templates saved from a formatted document.
+  content?: string;
+  // Language and writing goals for documents created from the template.
+  settings?: DocSettings;
+  builtin?: boolean;
+};
+
+const TEMPLATES_KEY = 'upcube.templates.v1';
+
+// `{{ name }}`; letters, digits, spaces, `_`, `-` and `.` in the field name.
+const PLACEHOLDER = /\{\{\s*([\w][\w .-]*?)\s*\}\}/g;
+
+/* ----------------------------- Built-in templates ----------------------------- */
+
+export const BUILTIN_TEMPLATES: Template[] = [
+  {
+    id: 'builtin-email',
+    name: 'Email',
+    description: 'A short, friendly email with a clear ask.',
+    title: 'Email to {{recipient}}',
+    body:
+      'Hi {{recipient}},\n\n' +
+      'I hope you are well. I am writing about {{topic}}.\n\n' +
+      '{{details}}\n\n' +
+      'Could you let me know by {{deadline}}?\n\n' +
+      'Thanks,\n{{your name}}',
+    settings: { goals: { audience: 'general', formality: 'neutral', domain: 'business', intent: 'inform' } },
+    builtin: true,
+  },
+  {
+    id: 'builtin-cover-letter',
+    name: 'Cover letter',
+    description: 'One page on why you fit the role.',
+    title: 'Cover letter – {{company}}',
+    body:
+      'Dear {{hiring manager}},\n\n' +
+      'I am applying for the {{role}} position at {{company}}. ' +
+      'In my current role at {{current employer}}, I {{main achievement}}.\n\n' +
+      'What draws me to {{company}} is {{reason}}. I would bring {{strengths}} to the team.\n\n' +
+      'Thank you for your time. I would welcome the chance to talk further.\n\n' +
+      'Kind regards,\n{{your name}}',
+    settings: { goals: { audience: 'general', formality: 'formal', domain: 'business', intent: 'convince' } },
+    builtin: true,
+  },
+  {
+    id: 'builtin-bug-report',
+    name: 'Bug report',
+    description: 'Steps, expected and actual behaviour, environment.',
+    title: 'Bug: {{summary}}',
+    body:
+      'Summary\n{{summary}}\n\n' +
+      'Steps to reproduce\n1. \n2. \n3. \n\n' +
+      'Expected behaviour\n\n\n' +
+      'Actual behaviour\n\n\n' +
+      'Environment\nVersion: {{version}}\nBrowser / OS: {{environment}}',
+    settings: { goals: { audience: 'expert', formality: 'neutral', domain: 'general', intent: 'describe' } },
+    builtin: true,
+  },
+  {
+    id: 'builtin-release-notes',
+    name: 'Release notes',
+    description: 'What changed in a release, for the people using it.',
+    title: '{{product}} {{version}} release notes',
+    body:
+      '{{product}} {{version}} is out.\n\n' +
+      'Highlights\n- \n\n' +
+      'Improvements\n- \n\n' +
+      'Fixes\n- \n\n' +
+      'Upgrading\n{{upgrade notes}}',
+    settings: { goals: { audience: 'general', formality: 'neutral', domain: 'business', intent: 'inform' } },
+    builtin: true,
+  },
+];
+
+/* ----------------------------- Persistence ----------------------------- */
+
+export function loadTemplates(): Template[] {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Template[]) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTemplates(templates: Template[]) {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch {
+    // Storage full or disabled: the templates last until reload.
+  }
+}
+
+/** A user template from a document; its settings are copied only when `keepSettings`. */
+export function templateFromDoc(
+  doc: { title: string; body: string; content?: string; settings?: DocSettings },
+  name: string,
+  description: string,
+  keepSettings: boolean,
+): Template {
+  const { language, goals } = doc.settings ?? {};
+  return {
+    id: `template-${newId()}`,
+    name: name.trim() || doc.title || 'Untitled template',
+    description: description.trim(),
+    title: doc.title,
+    body: doc.body,
+    content: doc.content,
+    settings: keepSettings ? { language, goals } : undefined,
+  };
+}
+
+/* ----------------------------- Placeholders ----------------------------- */
+
+/** Field names in order of first use, title first. */
+export function placeholders(template: Pick<Template, 'title' | 'body'>): string[] {
+  const seen = new Set<string>();
+  for (const m of `${template.title}\n${template.body}`.matchAll(PLACEHOLDER)) seen.add(m[1]);
+  return [...seen];
+}
+
+/** "your name" → "Your name". */
+export function fieldLabel(field: string) {
+  const spaced = field.replace(/[_.-]+/g, ' ');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+/** Title, body and content with fields filled in; fields left blank keep their placeholder. */
+export function fillTemplate(template: Template, values: Record<string, string>) {
+  const fill = (s: string, escape: (v: string) => string = (v) => v) =>
+    s.replace(PLACEHOLDER, (whole, field: string) => (values[field]?.trim() ? escape(values[field].trim()) : whole));
+  return {
+    title: fill(template.title),
+    body: fill(template.body),
+    content: template.content && fill(template.content, escapeHtml),
+  };
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { prepareCheckText, toDocumentMatches, toDocumentOffset } from '../checkText';
+import type { LTMatch } from '../types';
+
+// A match for `word` in the sent text, the way LanguageTool reports it.
+function matchFor(sent: string, word: string, unit: 'utf16' | 'codepoint' = 'utf16'): LTMatch {
+  const at = sent.indexOf(word);
+  const offset = unit === 'utf16' ? at : Array.from(sent.slice(0, at)).length;
+  const length = unit === 'utf16' ? word.length : Array.from(word).length;
+  return {
+    message: 'Possible spelling mistake',
+    offset,
+    length,
+    replacements: [],
+    context: { text: sent, offset, length },
+  };
+}
+
+// What each mapped match covers in the document.
+function covered(doc: string, matches: LTMatch[]) {
+  return matches.map((m) => doc.slice(m.offset, m.offset + m.length));
+}
+
+describe('prepareCheckText', () => {
+  it('trims the text and remembers how much leading whitespace went', () => {
+    const prepared = prepareCheckText('  \n\t Hello wrld  ');
+    expect(prepared.text).toBe('Hello wrld');
+    expect(prepared.leading).toBe(5);
+  });
+
+  it('sends CRLF line endings as LF', () => {
+    const prepared = prepareCheckText('One\r\nTwo\r\nThree');
+    expect(prepared.text).toBe('One\nTwo\nThree');
+    expect(prepared.droppedCR).toEqual([3, 7]);
+  });
+
+  it('keeps a lone CR', () => {
+    expect(prepareCheckText('One\rTwo').text).toBe('One\rTwo');
+  });
+});
+
+describe('toDocumentOffset', () => {
+  it('adds back the leading whitespace and every CR before the offset', () => {
+    const prepared = prepareCheckText('  One\r\nTwo\r\nThree');
+    // "Three" starts at 8 in the sent text and at 12 in the document.
+    expect(toDocumentOffset(prepared, 8)).toBe(12);
+    expect(toDocumentOffset(prepared, 0)).toBe(2);
+  });
+});
+
+describe('toDocumentMatches', () => {
+  it('maps matches past leading whitespace back onto the document', () => {
+    const doc = '\n\n   Ths is a test.';
+    const prepared = prepareCheckText(doc);
+    expect(covered(doc, toDocumentMatches([matchFor(prepared.text, 'Ths')], prepared))).toEqual(['Ths']);
+  });
+
+  it('maps matches after CRLF line endings', () => {
+    const doc = 'First line.\r\nSecond lnie.\r\nThird lnie here.';
+    const prepared = prepareCheckText(doc);
+    const second = matchFor(prepared.text, 'lnie');
+    const third = matchFor(prepared.text, 'lnie here');
+    third.length = 4;
+    third.context!.length = 4;
+    expect(covered(doc, toDocumentMatches([second, third], prepared))).toEqual(['lnie', 'lnie']);
+    expect(toDocumentMatches([third], prepared)[0].offset).toBe(doc.lastIndexOf('lnie'));
+  });
+
+  it('maps UTF-16 offsets after astral characters', () => {
+    const doc = 'Great 🎉 news 😀 for evrybody';
+    const prepared = prepareCheckText(doc);
+    expect(covered(doc, toDocumentMatches([matchFor(prepared.text, 'evrybody')], prepared))).toEqual(['evrybody']);
+  });
+
+  it('detects servers that count code points and converts their offsets', () => {
+    const doc = '  Great 🎉 news 😀 for evrybody';
+    const prepared = prepareCheckText(doc);
+    const m = matchFor(prepared.text, 'evrybody', 'codepoint');
+    expect(covered(doc, toDocumentMatches([m], prepared))).toEqual(['evrybody']);
+  });
+
+  it('handles leading whitespace, CRLF and emoji together', () => {
+    const doc = ' \r\n👋 Hi!\r\nThe 🐈 sat on teh mat.';
+    const prepared = prepareCheckText(doc);
+    const matches = [matchFor(prepared.text, 'Hi'), matchFor(prepared.text, 'teh')];
+    expect(covered(doc, toDocumentMatches(matches, prepared))).toEqual(['Hi', 'teh']);
+  });
+
+  it('drops matches that no longer fit their context', () => {
+    const doc = 'Hello wrld';
+    const prepared = prepareCheckText(doc);
+    const m = matchFor(prepared.text, 'wrld');
+    m.offset += 1;
+    expect(toDocumentMatches([m], prepared)).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CheckOptions, checkDocument, createParagraphCache, splitChunks } from '../checker';
+
+const options: CheckOptions = {
+  language: 'en-US',
+  disabledRules: [],
+  dictionaries: { personal: 'me', team: 'default' },
+  maxConcurrency: 3,
+};
+
+// A document of `n` distinct paragraphs.
+const paragraphs = (n: number) => Array.from({ length: n }, (_, i) => `Paragraph number ${i} is here.`).join('\n');
+
+let sent: string[] = [];
+let answer: (text: string) => Response | Promise<Response>;
+
+beforeEach(() => {
+  // The rate-limit pause is module state; start every test well past any earlier one.
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(Date.now() + 3_600_000);
+  sent = [];
+  answer = () => Response.json({ ok: true, matches: [], language: null });
+  vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+    const { text } = JSON.parse(String(init.body)) as { text: string };
+    sent.push(text);
+    return answer(text);
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('splitChunks', () => {
+  it('groups many paragraphs into a few chunks that cover each of them once', () => {
+    const text = paragraphs(200);
+    const chunks = splitChunks(text);
+    expect(chunks.length).toBeLessThan(100);
+
+    const covered = chunks.flatMap((c) => c.text.split('\n'));
+    expect(covered).toEqual(text.split('\n'));
+    for (const c of chunks) expect(text.slice(c.start, c.start + c.text.length)).toBe(c.text);
+  });
+
+  it('keeps the other chunks when one paragraph changes', () => {
+    const before = paragraphs(200);
+    const after = before.replace('number 100 is', 'number 100 was');
+    const old = new Set(splitChunks(before).map((c) => c.text));
+    const changed = splitChunks(after).filter((c) => !old.has(c.text));
+    expect(changed.length).toBeLessThanOrEqual(2);
+  });
+
+  it('cuts a paragraph longer than a chunk at sentence ends', () => {
+    const long = 'A sentence that goes on. '.repeat(400).trim();
+    const chunks = splitChunks(long);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks) expect(c.text.length).toBeLessThanOrEqual(6000);
+    expect(chunks.map((c) => c.text).join('')).toBe(long);
+  });
+});
+
+describe('checkDocument', () => {
+  it('maps matches back to document offsets', async () => {
+    answer = (text) => {
+      const offset = text.indexOf('teh');
+      const matches = offset < 0 ? [] : [{ message: 'Typo', offset, length: 3, replacements: [] }];
+      return Response.json({ ok: true, matches, language: null });
+    };
+    const text = `${paragraphs(20)}\nFix teh typo.`;
+    const result = await checkDocument(text, options, createParagraphCache());
+    expect(result.matches.map((m) => text.slice(m.offset, m.offset + m.length))).toEqual(['teh']);
+  });
+
+  it('counts a chunk that throws as failed and keeps the rest', async () => {
+    const text = paragraphs(200);
+    const first = splitChunks(text)[0].text;
+    answer = (t) => {
+      if (t === first) throw new TypeError('Failed to fetch');
+      return Response.json({ ok: true, matches: [], language: null });
+    };
+    const result = await checkDocument(text, options, createParagraphCache());
+    expect(result.failed).toBe(1);
+    expect(result.total).toBe(splitChunks(text).length);
+  });
+
+  it('rethrows an abort', async () => {
+    const controller = new AbortController();
+    answer = () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    };
+    await expect(checkDocument(paragraphs(3), options, createParagraphCache(), controller.signal)).rejects.toThrow(
+      'Aborted',
+    );
+  });
+
+  it('pauses for retryAfter once rate limited, then checks again', async () => {
+    const text = paragraphs(200);
+    const error = { code: 'rate_limited', message: 'Too many', retryAfter: 20 };
+    answer = () => Response.json({ ok: false, error }, { status: 429 });
+    const cache = createParagraphCache();
+    const limited = await checkDocument(text, { ...options, maxConcurrency: 1 }, cache);
+    expect(sent).toHaveLength(1);
+    expect(limited.failed).toBe(limited.total);
+
+    await checkDocument(text, options, cache);
+    expect(sent).toHaveLength(1);
+
+    answer = () => Response.json({ ok: true, matches: [], language: null });
+    vi.setSystemTime(Date.now() + 21_000);
+    const later = await checkDocument(text, options, cache);
+    expect(later.failed).toBe(0);
+    expect(sent).toHaveLength(1 + later.total);
+  });
+});
@@ -0,0 +1,161 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join as joinPath } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Miniflare } from 'miniflare';
+import { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { COLLAB_FIELD, CollabSession, leaveSession, peersOf, roomText, seedRoom } from '../collab';
+import { editorSchema } from '../richText';
+import { localRooms } from './functions/pages';
+
+/*
+ * Rooms against CollabRoom (functions/lib/collabRoom.ts) running as a Durable
+ * Object in Miniflare: every tab below is its own Yjs doc and talks to the
+ * others only through the room.
+ */
+
+const persist = mkdtempSync(joinPath(tmpdir(), 'collab-rooms-'));
+let mf: Miniflare;
+let url: string;
+let sessions: CollabSession[] = [];
+
+beforeAll(async () => {
+  ({ mf, url } = await localRooms(persist));
+});
+
+afterEach(() => {
+  sessions.forEach(leaveSession);
+  sessions = [];
+});
+
+afterAll(async () => {
+  await mf.dispose();
+  rmSync(persist, { recursive: true, force: true });
+});
+
+// A tab with the document open, once it has synced with the room.
+async function join(docId: string, name = 'Ada') {
+  const ydoc = new Y.Doc();
+  // Tabs in one process would otherwise find each other over BroadcastChannel.
+  const provider = new WebsocketProvider(url, docId, ydoc, {
+    WebSocketPolyfill: WebSocket as unknown as typeof globalThis.WebSocket,
+    disableBc: true,
+  });
+  provider.awareness.setLocalStateField('user', { name, color: '#2563eb' });
+  const session = { docId, ydoc, provider };
+  sessions.push(session);
+  await vi.waitFor(() => expect(provider.synced).toBe(true));
+  return session;
+}
+
+// Start the rooms over from what they stored, the way an evicted Durable
+// Object would. Tabs still open are dropped without saying goodbye.
+async function restart() {
+  await mf.dispose();
+  sessions.forEach(leaveSession);
+  sessions = [];
+  ({ mf, url } = await localRooms(persist));
+}
+
+// Whether `tab` has received anything `other` wrote.
+const heardFrom = (tab: CollabSession, other: CollabSession) =>
+  Y.decodeStateVector(Y.encodeStateVector(tab.ydoc)).has(other.ydoc.clientID);
+
+const draft = (text: string) =>
+  editorSchema.nodeFromJSON({ type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('collab rooms', () => {
+  it('seeds an empty room once when two tabs join it at the same moment', async () => {
+    const docId = crypto.randomUUID();
+    const [a, b] = await Promise.all([join(docId), join(docId)]);
+
+    // Neither has heard from the other yet: both fill the room.
+    expect(seedRoom(a, draft('The quick brown fox.'))).toBe(true);
+    expect(seedRoom(b, draft('The quick brown fox.'))).toBe(true);
+
+    await vi.waitFor(() => {
+      expect(heardFrom(a, b) && heardFrom(b, a)).toBe(true);
+      for (const tab of [a, b]) {
+        expect(tab.ydoc.getXmlFragment(COLLAB_FIELD).length).toBe(1);
+        expect(roomText(tab)).toBe('The quick brown fox.');
+      }
+    });
+  });
+
+  it('leaves a room that already has a document alone', async () => {
+    const docId = crypto.randomUUID();
+    const a = await join(docId);
+    expect(seedRoom(a, draft('First copy.'))).toBe(true);
+
+    const b = await join(docId);
+    expect(roomText(b)).toBe('First copy.');
+    expect(seedRoom(b, draft('Second copy.'))).toBe(false);
+    expect(roomText(b)).toBe('First copy.');
+  });
+
+  it('relays edits and presence between tabs', async () => {
+    const docId = crypto.randomUUID();
+    const a = await join(docId, 'Ada');
+    const b = await join(docId, 'Grace');
+    seedRoom(a, draft('Hello.'));
+
+    await vi.waitFor(() => expect(roomText(b)).toBe('Hello.'));
+    expect(peersOf(a).map((p) => [p.name, p.self])).toEqual([
+      ['Ada', true],
+      ['Grace', false],
+    ]);
+
+    // Another paragraph typed in b reaches a.
+    const paragraph = new Y.XmlElement('paragraph');
+    paragraph.insert(0, [new Y.XmlText('World.')]);
+    b.ydoc.getXmlFragment(COLLAB_FIELD).push([paragraph]);
+    await vi.waitFor(() => expect(roomText(a)).toBe('Hello.\nWorld.'));
+  });
+
+  it('drops the cursor of a tab that leaves', async () => {
+    const docId = crypto.randomUUID();
+    const a = await join(docId, 'Ada');
+    const b = await join(docId, 'Grace');
+    await vi.waitFor(() => expect(peersOf(a).map((p) => p.name)).toEqual(['Ada', 'Grace']));
+
+    // The provider just closes its socket; it is up to the room to tell the others.
+    b.provider.disconnect();
+    await vi.waitFor(() => expect(peersOf(a).map((p) => p.name)).toEqual(['Ada']));
+  });
+
+  it('saves open rooms on the alarm, in chunks, and loads them back', { timeout: 20_000 }, async () => {
+    const docId = crypto.randomUUID();
+    const a = await join(docId);
+    // Well over the 100 KiB a storage chunk holds.
+    const long = 'All work and no play. '.repeat(8000);
+    seedRoom(a, draft(long));
+
+    await sleep(3000);
+    await restart();
+
+    const b = await join(docId);
+    expect(roomText(b)).toBe(long);
+  });
+
+  it('saves when the last tab leaves', { timeout: 20_000 }, async () => {
+    const docId = crypto.randomUUID();
+    const a = await join(docId);
+    seedRoom(a, draft('Saved on the way out.'));
+    await vi.waitFor(async () => {
+      // Once the room has it: a fresh tab syncs it down.
+      const peek = await join(docId);
+      expect(roomText(peek)).toBe('Saved on the way out.');
+    });
+
+    sessions.forEach(leaveSession);
+    sessions = [];
+    await sleep(500);
+    await restart();
+
+    expect(roomText(await join(docId))).toBe('Saved on the way out.');
+  });
+});
@@ -0,0 +1,80 @@
+// @vitest-environment happy-dom
+import { createRequire } from 'node:module';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocFormat, exportDoc, importFile } from '../docFiles';
+import { editorSchema, parseHtml, toHtml } from '../richText';
+
+// The app bundles mammoth's browser build, which reads the ArrayBuffer importFile passes.
+vi.mock('mammoth', () => ({ default: createRequire(import.meta.url)('mammoth/mammoth.browser.js') }));
+
+// A document with everything that has to survive a trip through a file.
+const DRAFT = editorSchema.nodeFromJSON({
+  type: 'doc',
+  content: [
+    { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Launch plan' }] },
+    {
+      type: 'paragraph',
+      content: [
+        { type: 'text', text: 'Ship it ' },
+        { type: 'text', text: 'carefully', marks: [{ type: 'italic' }] },
+        { type: 'text', text: ' and ' },
+        { type: 'text', text: 'soon', marks: [{ type: 'bold' }] },
+        { type: 'text', text: '.' },
+      ],
+    },
+    { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Steps' }] },
+    {
+      type: 'bulletList',
+      content: ['Write', 'Review'].map((text) => ({
+        type: 'listItem',
+        content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+      })),
+    },
+    {
+      type: 'orderedList',
+      attrs: { start: 1 },
+      content: ['Build', 'Release'].map((text) => ({
+        type: 'listItem',
+        content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+      })),
+    },
+  ],
+});
+
+// What exportDoc handed to the browser to download.
+let downloads: Blob[] = [];
+
+beforeEach(() => {
+  downloads = [];
+  vi.spyOn(URL, 'createObjectURL').mockImplementation((blob) => {
+    downloads.push(blob as Blob);
+    return 'blob:test';
+  });
+  vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function roundTrip(format: DocFormat) {
+  await exportDoc(format, { title: 'Launch plan', body: '', content: toHtml(DRAFT) });
+  expect(downloads).toHaveLength(1);
+  const file = new File([await downloads[0].arrayBuffer()], `Launch plan.${format}`);
+  return importFile(file);
+}
+
+describe('export and import', () => {
+  it.each<DocFormat>(['md', 'html', 'docx'])('keeps headings, lists and emphasis through %s', async (format) => {
+    const imported = await roundTrip(format);
+    expect(imported.title).toBe('Launch plan');
+    expect(parseHtml(imported.content).toJSON()).toEqual(DRAFT.toJSON());
+  });
+
+  it('writes Markdown a person would', async () => {
+    await exportDoc('md', { title: 'Launch plan', body: '', content: toHtml(DRAFT) });
+    expect(await downloads[0].text()).toBe(
+      '# Launch plan\n\nShip it *carefully* and **soon**.\n\n## Steps\n\n- Write\n- Review\n\n1. Build\n2. Release\n',
+    );
+  });
+});
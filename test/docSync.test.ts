@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from '../functions/api/lt/health';
+import * as item from '../functions/api/docs/[id]';
+import * as list from '../functions/api/docs/index';
+import type { Doc } from '../docStore';
+import { applyPatch, syncOnce } from '../docSync';
+import { saveOwnerKey } from '../owner';
+import { applyMigrations, call, localBindings } from './functions/pages';
+
+// What syncOnce asked the server for, and a server that knows no documents.
+let requests: { url: string; method: string; headers: Record<string, string> }[] = [];
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (k: string) => store.get(k) ?? null,
+    setItem: (k: string, v: string) => void store.set(k, v),
+    removeItem: (k: string) => void store.delete(k),
+  });
+  requests = [];
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    requests.push({ url, method, headers: (init.headers ?? {}) as Record<string, string> });
+    if (method === 'GET') return Response.json({ ok: true, docs: [] });
+    return Response.json({ ok: true, doc: { etag: '"1"' } }, { status: 201 });
+  });
+});
+
+const synced: Doc = {
+  id: 'one',
+  title: 'One',
+  body: 'Hello',
+  createdAt: 1,
+  updatedAt: 5,
+  remoteEtag: '"3"',
+  syncedAt: 5,
+};
+
+describe('syncOnce', () => {
+  it('sends the owner key with every request', async () => {
+    saveOwnerKey('k'.repeat(43));
+    await syncOnce([{ ...synced, remoteEtag: undefined, syncedAt: undefined }]);
+    expect(requests.map((r) => r.method)).toEqual(['GET', 'PUT']);
+    for (const r of requests) expect(r.headers.authorization).toBe(`Bearer ${'k'.repeat(43)}`);
+  });
+
+  it('pushes docs to a new owner instead of treating them as deleted there', async () => {
+    saveOwnerKey('k'.repeat(43));
+    await syncOnce([]);
+
+    saveOwnerKey('n'.repeat(43));
+    requests = [];
+    const result = await syncOnce([synced]);
+
+    expect(result.removed).toEqual([]);
+    expect(requests[1]).toMatchObject({ method: 'PUT', headers: { 'if-none-match': '*' } });
+    expect(result.patches).toEqual([
+      { id: 'one', base: 5, fields: { remoteEtag: '"1"', syncedAt: 5, conflict: undefined } },
+    ]);
+  });
+
+  it('keeps the sync state while the owner stays the same', async () => {
+    saveOwnerKey('k'.repeat(43));
+    await syncOnce([]);
+    const result = await syncOnce([synced]);
+    // Gone from the server and unchanged here: deleted on another device.
+    expect(result.removed).toEqual(['one']);
+  });
+});
+
+describe('syncOnce against /api/docs', () => {
+  const mf = localBindings({ d1: ['DOCS_DB'] });
+  let env: Env;
+
+  beforeAll(async () => {
+    env = { LT_BASE_URL: '', DOCS_DB: (await mf.getD1Database('DOCS_DB')) as unknown as D1Database };
+    await applyMigrations(env.DOCS_DB!);
+  });
+
+  afterAll(() => mf.dispose());
+
+  // Hand each request to the route the Pages runtime would pick.
+  beforeEach(() => {
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit = {}) => {
+      const request = new Request(`http://localhost${url}`, init);
+      const id = url.match(/^\/api\/docs\/([^/?]+)/)?.[1];
+      if (!id) return call(list.onRequestGet, request, env);
+      const handler = { GET: item.onRequestGet, PUT: item.onRequestPut, DELETE: item.onRequestDelete }[request.method]!;
+      return call(handler, request, env, { id: decodeURIComponent(id) });
+    });
+  });
+
+  const sync = async (docs: Doc[]) => {
+    const result = await syncOnce(docs);
+    return docs.map((doc) => result.patches.filter((p) => p.id === doc.id).reduce(applyPatch, doc));
+  };
+
+  it('pushes everything again after switching to another owner key', async () => {
+    saveOwnerKey('k'.repeat(43));
+    const [pushed] = await sync([{ ...synced, remoteEtag: undefined, syncedAt: undefined }]);
+    expect(pushed.remoteEtag).toBe('"1"');
+
+    // The same documents, on a device now using another key.
+    saveOwnerKey('n'.repeat(43));
+    const [moved] = await sync([{ ...pushed, title: 'Moved', updatedAt: 6 }]);
+    expect(moved).toMatchObject({ remoteEtag: '"1"', syncedAt: 6, conflict: undefined });
+
+    // And the sync after that still works.
+    const [edited] = await sync([{ ...moved, body: 'Edited', updatedAt: 7 }]);
+    expect(edited).toMatchObject({ remoteEtag: '"2"', syncedAt: 7 });
+  });
+});
@@ -0,0 +1,234 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from '../../functions/api/lt/health';
+import * as legacy from '../../functions/api/languagetool-check';
+import * as ltCheck from '../../functions/api/lt/check';
+import { onRequestPost } from '../../functions/api/v1/check';
+import { call, localBindings, localCaches } from './pages';
+
+/*
+ * The check routes against a stand-in LanguageTool: a local HTTP server that
+ * records each /v2/check form and answers with whatever the test queued.
+ */
+
+type Answer = { status: number; body: unknown; headers?: Record<string, string> };
+
+const mf = localBindings({ kv: ['LT_DICTIONARY'] });
+let server: Server;
+let env: Env;
+let received: URLSearchParams[] = [];
+let answers: Answer[] = [];
+
+const MATCH = {
+  message: 'Possible spelling mistake found.',
+  offset: 4,
+  length: 3,
+  replacements: [{ value: 'the' }],
+  rule: { id: 'MORFOLOGIK_RULE_EN_US', issueType: 'misspelling', category: { id: 'TYPOS' } },
+};
+
+beforeAll(async () => {
+  vi.stubGlobal('caches', await localCaches(mf));
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      if (req.url === '/v2/check') received.push(new URLSearchParams(raw));
+      const answer = answers.shift() ?? { status: 200, body: { matches: [], language: null } };
+      res.writeHead(answer.status, { 'content-type': 'application/json', ...answer.headers });
+      res.end(JSON.stringify(answer.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  env = {
+    LT_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    LT_DICTIONARY: (await mf.getKVNamespace('LT_DICTIONARY')) as unknown as KVNamespace,
+  };
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+  await mf.dispose();
+});
+
+beforeEach(() => {
+  received = [];
+  answers = [];
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function checkRequest(body: unknown, signal?: AbortSignal, ip: string = crypto.randomUUID()) {
+  return new Request('http://localhost/api/v1/check', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'cf-connecting-ip': ip },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+// Every test checks its own text, so nothing is answered from an earlier test's cache.
+const uniqueText = () => `Fix teh typo ${crypto.randomUUID()}.`;
+
+async function check(body: Record<string, unknown>, handler = onRequestPost, testEnv = env) {
+  const res = await call(handler, checkRequest({ text: uniqueText(), ...body }), testEnv);
+  return { res, json: (await res.json()) as any };
+}
+
+describe('/api/v1/check', () => {
+  it('sends LanguageTool the form it expects', async () => {
+    await check({
+      language: 'auto',
+      motherTongue: 'de-DE',
+      preferredVariants: ['en-GB'],
+      disabledRules: ['WHITESPACE_RULE'],
+      level: 'picky',
+      enabledCategories: ['PLAIN_ENGLISH'],
+      disabledCategories: ['TYPOS'],
+    });
+    expect(received).toHaveLength(1);
+    const form = Object.fromEntries(received[0]);
+    expect(form).toMatchObject({
+      language: 'auto',
+      motherTongue: 'de-DE',
+      preferredVariants: 'en-GB',
+      disabledRules: 'WHITESPACE_RULE',
+      level: 'picky',
+      enabledCategories: 'PLAIN_ENGLISH',
+      disabledCategories: 'TYPOS',
+    });
+    expect(form.text).toMatch(/^Fix teh typo/);
+    expect(form).not.toHaveProperty('username');
+  });
+
+  it('only sends preferred variants while auto-detecting, and credentials when premium', async () => {
+    await check({ language: 'en-US', preferredVariants: ['en-GB'] }, onRequestPost, {
+      ...env,
+      LT_USERNAME: 'me@example.com',
+      LT_API_KEY: 'secret',
+    });
+    const form = Object.fromEntries(received[0]);
+    expect(form).not.toHaveProperty('preferredVariants');
+    expect(form).toMatchObject({ username: 'me@example.com', apiKey: 'secret' });
+  });
+
+  it('answers with the matches, drops malformed ones and caches the result', async () => {
+    const text = uniqueText();
+    answers.push({ status: 200, body: { matches: [MATCH, { message: 'no offset' }], language: { code: 'en-US' } } });
+
+    const first = await call(onRequestPost, checkRequest({ text, language: 'en-US' }), env);
+    expect(first.headers.get('x-cache')).toBe('MISS');
+    expect(first.headers.get('x-ratelimit-limit')).toBe('120');
+    const body = (await first.json()) as any;
+    expect(body).toMatchObject({ ok: true, language: { code: 'en-US' } });
+    expect(body.matches).toEqual([MATCH]);
+
+    const second = await call(onRequestPost, checkRequest({ text, language: 'en-US' }), env);
+    expect(second.headers.get('x-cache')).toBe('HIT');
+    expect(((await second.json()) as any).matches).toEqual([MATCH]);
+    expect(received).toHaveLength(1);
+  });
+
+  it('drops misspellings of dictionary words', async () => {
+    await env.LT_DICTIONARY!.put('dict:personal:me', JSON.stringify(['teh']));
+    answers.push({ status: 200, body: { matches: [MATCH], language: null } });
+    const { json } = await check({ dictionaries: { personal: 'me' } });
+    expect(json.matches).toEqual([]);
+  });
+
+  it('retries a failing LanguageTool and then reports it unavailable', async () => {
+    for (let i = 0; i < 3; i++) answers.push({ status: 503, body: { error: 'busy' }, headers: { 'retry-after': '0' } });
+    const { res, json } = await check({});
+    expect(received).toHaveLength(3);
+    expect(res.status).toBe(503);
+    expect(json).toMatchObject({ ok: false, error: { code: 'upstream_unavailable' } });
+  });
+
+  it('reports a request LanguageTool rejects as an upstream error without retrying', async () => {
+    answers.push({ status: 400, body: 'Invalid language' });
+    const { res, json } = await check({});
+    expect(received).toHaveLength(1);
+    expect(res.status).toBe(502);
+    expect(json.error.code).toBe('upstream_error');
+  });
+
+  it('rejects an invalid body before calling LanguageTool', async () => {
+    const { res, json } = await check({ text: '' });
+    expect(res.status).toBe(400);
+    expect(json.error.code).toBe('invalid_request');
+    expect(received).toHaveLength(0);
+  });
+
+  it('only sends Retry-After when it refuses a check', async () => {
+    const limited = { ...env, LT_RATE_LIMIT: '1' };
+    const ip = crypto.randomUUID();
+    const text = uniqueText();
+
+    const first = await call(onRequestPost, checkRequest({ text }, undefined, ip), limited);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('x-ratelimit-remaining')).toBe('0');
+
+    // The bucket is empty, but a cached answer costs nothing.
+    const hit = await call(onRequestPost, checkRequest({ text }, undefined, ip), limited);
+    expect(hit.status).toBe(200);
+    expect(hit.headers.get('x-cache')).toBe('HIT');
+    expect(hit.headers.has('retry-after')).toBe(false);
+
+    const refused = await call(onRequestPost, checkRequest({ text: uniqueText() }, undefined, ip), limited);
+    expect(refused.status).toBe(429);
+    expect(Number(refused.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(received).toHaveLength(1);
+  });
+
+  it('cancels the LanguageTool request when the browser cancels the check', async () => {
+    // A LanguageTool that never answers, only gives up when its request is aborted.
+    const upstream: RequestInit[] = [];
+    vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init = {}) => {
+      upstream.push(init);
+      return new Promise((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    });
+
+    const controller = new AbortController();
+    const pending = call(onRequestPost, checkRequest({ text: uniqueText() }, controller.signal), env);
+    await vi.waitFor(() => expect(upstream).toHaveLength(1));
+    controller.abort();
+
+    const res = await pending;
+    expect(upstream[0].signal?.aborted).toBe(true);
+    expect(upstream).toHaveLength(1);
+    expect(((await res.json()) as { error: { code: string } }).error.code).toBe('upstream_unavailable');
+  });
+});
+
+describe('legacy check routes', () => {
+  it('/api/languagetool-check answers with LanguageTool’s own body', async () => {
+    answers.push({ status: 200, body: { matches: [MATCH], language: { code: 'en-US' } } });
+    const { res, json } = await check({}, legacy.onRequestPost);
+    expect(res.status).toBe(200);
+    expect(json).toEqual({ matches: [MATCH], language: { code: 'en-US' } });
+  });
+
+  it('/api/languagetool-check falls back to the public LanguageTool API', async () => {
+    const urls: string[] = [];
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      urls.push(String(url));
+      return Response.json({ matches: [], language: null });
+    });
+    const { json } = await check({}, legacy.onRequestPost, { ...env, LT_BASE_URL: '' });
+    expect(urls).toEqual(['https://api.languagetool.org/v2/check']);
+    expect(json).toEqual({ matches: [], language: null });
+  });
+
+  it('/api/lt/check wraps failures in a 200', async () => {
+    answers.push({ status: 400, body: 'Invalid language' });
+    const { res, json } = await check({}, ltCheck.onRequestPost);
+    expect(res.status).toBe(200);
+    expect(json).toMatchObject({ ok: false, status: 502 });
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Env } from '../../functions/api/lt/health';
+import * as room from '../../functions/api/collab/[id]';
+import * as ticketRoute from '../../functions/api/collab/[id]/ticket';
+import { TICKET_TTL_MS, signTicket } from '../../functions/lib/collabTicket';
+import { call, jsonRequest } from './pages';
+
+// Stands in for the rooms: records which one each forwarded upgrade went to.
+let rooms: string[] = [];
+const COLLAB = {
+  idFromName: (name: string) => name,
+  get: (name: string) => ({
+    fetch: async () => {
+      rooms.push(name);
+      return new Response(null, { status: 200 });
+    },
+  }),
+} as unknown as DurableObjectNamespace;
+
+const env: Env = { LT_BASE_URL: '', COLLAB, COLLAB_SECRET: 'test-secret' };
+
+beforeEach(() => {
+  rooms = [];
+});
+
+const ALICE = 'a'.repeat(43);
+const BOB = 'b'.repeat(43);
+
+async function ticketFor(key: string, id = 'doc-1') {
+  const req = jsonRequest(`/api/collab/${id}/ticket`, 'POST', undefined, { authorization: `Bearer ${key}` });
+  const res = await call(ticketRoute.onRequestPost, req, env, { id });
+  expect(res.status).toBe(200);
+  return ((await res.json()) as { ticket: string }).ticket;
+}
+
+function connect(id: string, ticket?: string) {
+  const query = ticket === undefined ? '' : `?ticket=${encodeURIComponent(ticket)}`;
+  const req = new Request(`http://localhost/api/collab/${id}${query}`, { headers: { upgrade: 'websocket' } });
+  return call(room.onRequestGet, req, env, { id });
+}
+
+describe('/api/collab', () => {
+  it('only hands out tickets for the owner key', async () => {
+    const res = await call(ticketRoute.onRequestPost, jsonRequest('/api/collab/doc-1/ticket', 'POST'), env, {
+      id: 'doc-1',
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it('refuses upgrades without a valid ticket for the document', async () => {
+    expect((await connect('doc-1')).status).toBe(401);
+    expect((await connect('doc-1', 'not.a-ticket')).status).toBe(401);
+    expect((await connect('doc-2', await ticketFor(ALICE, 'doc-1'))).status).toBe(401);
+
+    const expired = await signTicket('test-secret', 'doc-1', 'owner', Date.now() - TICKET_TTL_MS - 1);
+    expect((await connect('doc-1', expired)).status).toBe(401);
+    const forged = await signTicket('another-secret', 'doc-1', 'owner');
+    expect((await connect('doc-1', forged)).status).toBe(401);
+
+    expect(rooms).toEqual([]);
+  });
+
+  it('lets a ticket holder into the owner’s room for that document', async () => {
+    expect((await connect('doc-1', await ticketFor(ALICE))).status).toBe(200);
+    expect((await connect('doc-1', await ticketFor(ALICE))).status).toBe(200);
+    expect((await connect('doc-1', await ticketFor(BOB))).status).toBe(200);
+
+    // Alice twice in one room; Bob's doc-1 is a different document.
+    expect(rooms[0]).toBe(rooms[1]);
+    expect(rooms[2]).not.toBe(rooms[0]);
+    expect(rooms[0]).toMatch(/^[0-9a-f]{64}:doc-1$/);
+  });
+
+  it('is off without a secret to sign tickets with', async () => {
+    const req = new Request('http://localhost/api/collab/doc-1', { headers: { upgrade: 'websocket' } });
+    const res = await call(room.onRequestGet, req, { ...env, COLLAB_SECRET: undefined }, { id: 'doc-1' });
+    expect(res.status).toBe(501);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Env } from '../../functions/api/lt/health';
+import * as threads from '../../functions/api/comments/index';
+import * as thread from '../../functions/api/comments/[id]';
+import * as replies from '../../functions/api/comments/[id]/replies';
+import type { CommentThread } from '../../functions/lib/commentsApi';
+import { applyMigrations, call, jsonRequest, localBindings } from './pages';
+
+const mf = localBindings({ d1: ['DOCS_DB'] });
+let env: Env;
+
+beforeAll(async () => {
+  env = { LT_BASE_URL: '', DOCS_DB: (await mf.getD1Database('DOCS_DB')) as unknown as D1Database };
+  await applyMigrations(env.DOCS_DB!);
+});
+
+afterAll(() => mf.dispose());
+
+beforeEach(async () => {
+  const db = env.DOCS_DB!;
+  await db.batch([db.prepare('DELETE FROM comment_threads'), db.prepare('DELETE FROM comments')]);
+});
+
+const ALICE = 'a'.repeat(43);
+const BOB = 'b'.repeat(43);
+const as = (key?: string): Record<string, string> => (key ? { authorization: `Bearer ${key}` } : {});
+
+async function open(key: string, docId = 'doc-1') {
+  const body = { docId, offset: 4, length: 5, quote: 'quick', body: 'Too fast?' };
+  const res = await call(threads.onRequestPost, jsonRequest('/api/comments', 'POST', body, as(key)), env);
+  expect(res.status).toBe(201);
+  return ((await res.json()) as { thread: CommentThread }).thread;
+}
+
+async function listed(key: string, docId = 'doc-1') {
+  const req = jsonRequest(`/api/comments?docId=${docId}`, 'GET', undefined, as(key));
+  const res = await call(threads.onRequestGet, req, env);
+  return ((await res.json()) as { threads: CommentThread[] }).threads;
+}
+
+const patch = (key: string | undefined, id: string, body: unknown) =>
+  call(thread.onRequestPatch, jsonRequest(`/api/comments/${id}`, 'PATCH', body, as(key)), env, { id });
+const remove = (key: string | undefined, id: string) =>
+  call(thread.onRequestDelete, jsonRequest(`/api/comments/${id}`, 'DELETE', undefined, as(key)), env, { id });
+const reply = (key: string | undefined, id: string) => {
+  const req = jsonRequest(`/api/comments/${id}/replies`, 'POST', { body: 'Agreed.' }, as(key));
+  return call(replies.onRequestPost, req, env, { id });
+};
+
+describe('/api/comments', () => {
+  it('needs an owner key for every route', async () => {
+    expect((await call(threads.onRequestGet, jsonRequest('/api/comments?docId=doc-1', 'GET'), env)).status).toBe(401);
+    const post = jsonRequest('/api/comments', 'POST', { docId: 'doc-1', offset: 0, length: 1, quote: 'T', body: 'Hi' });
+    expect((await call(threads.onRequestPost, post, env)).status).toBe(401);
+
+    const { id } = await open(ALICE);
+    expect((await patch(undefined, id, { status: 'resolved' })).status).toBe(401);
+    expect((await reply(undefined, id)).status).toBe(401);
+    expect((await remove(undefined, id)).status).toBe(401);
+  });
+
+  it('lists only the caller’s threads, even on a document with the same id', async () => {
+    const mine = await open(ALICE);
+    await reply(ALICE, mine.id);
+    const theirs = await open(BOB);
+
+    const forAlice = await listed(ALICE);
+    expect(forAlice.map((t) => t.id)).toEqual([mine.id]);
+    expect(forAlice[0].comments.map((c) => c.body)).toEqual(['Too fast?', 'Agreed.']);
+    expect((await listed(BOB)).map((t) => t.id)).toEqual([theirs.id]);
+  });
+
+  it('does not let another owner resolve, move, reply to or delete a thread', async () => {
+    const { id } = await open(ALICE);
+
+    expect((await patch(BOB, id, { status: 'resolved', by: 'Bob' })).status).toBe(404);
+    expect((await patch(BOB, id, { offset: 0, length: 3, quote: 'The' })).status).toBe(404);
+    expect((await reply(BOB, id)).status).toBe(404);
+    expect((await remove(BOB, id)).status).toBe(404);
+
+    const [untouched] = await listed(ALICE);
+    expect(untouched).toMatchObject({ status: 'open', offset: 4, quote: 'quick' });
+    expect(untouched.comments).toHaveLength(1);
+
+    expect((await patch(ALICE, id, { status: 'resolved', by: 'Alice' })).status).toBe(200);
+    expect((await remove(ALICE, id)).status).toBe(204);
+    expect(await listed(ALICE)).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Env } from '../../functions/api/lt/health';
+import { onRequestDelete, onRequestGet, onRequestPost } from '../../functions/api/lt/dictionary';
+import { call, jsonRequest, localBindings } from './pages';
+
+const mf = localBindings({ kv: ['LT_DICTIONARY'] });
+let env: Env;
+
+beforeAll(async () => {
+  env = { LT_BASE_URL: '', LT_DICTIONARY: (await mf.getKVNamespace('LT_DICTIONARY')) as unknown as KVNamespace };
+});
+
+afterAll(() => mf.dispose());
+
+beforeEach(async () => {
+  const { keys } = await env.LT_DICTIONARY!.list();
+  await Promise.all(keys.map((k) => env.LT_DICTIONARY!.delete(k.name)));
+  env.LT_TEAM_KEY = 'team-secret';
+});
+
+const post = (body: unknown, headers?: Record<string, string>) =>
+  call(onRequestPost, jsonRequest('/api/lt/dictionary', 'POST', body, headers), env);
+const remove = (body: unknown, headers?: Record<string, string>) =>
+  call(onRequestDelete, jsonRequest('/api/lt/dictionary', 'DELETE', body, headers), env);
+
+async function words(scope: string, id: string) {
+  const res = await call(onRequestGet, jsonRequest(`/api/lt/dictionary?scope=${scope}&id=${id}`, 'GET'), env);
+  return ((await res.json()) as { words: string[] }).words;
+}
+
+describe('/api/lt/dictionary', () => {
+  it('adds and removes personal words, keeping the list sorted and unique', async () => {
+    for (const word of ['UpCube', 'Acme', 'UpCube']) {
+      expect((await post({ scope: 'personal', id: 'me', word })).status).toBe(200);
+    }
+    expect(await words('personal', 'me')).toEqual(['Acme', 'UpCube']);
+
+    await remove({ scope: 'personal', id: 'me', word: 'Acme' });
+    expect(await words('personal', 'me')).toEqual(['UpCube']);
+    expect(await words('personal', 'someone-else')).toEqual([]);
+  });
+
+  it('refuses team writes without the team key', async () => {
+    const add = { scope: 'team', id: 'default', word: 'Kubernetes' };
+    expect((await post(add)).status).toBe(403);
+    expect((await post(add, { 'x-team-key': 'guess' })).status).toBe(403);
+    expect(await words('team', 'default')).toEqual([]);
+
+    expect((await post(add, { 'x-team-key': 'team-secret' })).status).toBe(200);
+    expect(await words('team', 'default')).toEqual(['Kubernetes']);
+
+    expect((await remove(add)).status).toBe(403);
+    expect(await words('team', 'default')).toEqual(['Kubernetes']);
+  });
+
+  it('keeps team lists read-only when no team key is configured', async () => {
+    delete env.LT_TEAM_KEY;
+    const add = { scope: 'team', id: 'default', word: 'Kubernetes' };
+    expect((await post(add, { 'x-team-key': '' })).status).toBe(403);
+  });
+
+  it('rejects bad scopes, ids and words', async () => {
+    expect((await post({ scope: 'global', id: 'me', word: 'x' })).status).toBe(400);
+    expect((await post({ scope: 'personal', id: 'no spaces', word: 'x' })).status).toBe(400);
+    expect((await post({ scope: 'personal', id: 'me', word: 'two words' })).status).toBe(400);
+    expect((await post({ scope: 'personal', id: 'me', word: 'x'.repeat(65) })).status).toBe(400);
+  });
+
+  it('reports a missing KV binding', async () => {
+    const res = await call(onRequestGet, jsonRequest('/api/lt/dictionary?scope=personal&id=me', 'GET'), {
+      LT_BASE_URL: '',
+    });
+    expect(res.status).toBe(500);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Env } from '../../functions/api/lt/health';
+import * as item from '../../functions/api/docs/[id]';
+import * as list from '../../functions/api/docs/index';
+import { applyMigrations, call, jsonRequest, localBindings } from './pages';
+
+const mf = localBindings({ d1: ['DOCS_DB'] });
+let env: Env;
+
+beforeAll(async () => {
+  env = { LT_BASE_URL: '', DOCS_DB: (await mf.getD1Database('DOCS_DB')) as unknown as D1Database };
+  await applyMigrations(env.DOCS_DB!);
+});
+
+afterAll(() => mf.dispose());
+
+beforeEach(async () => {
+  await env.DOCS_DB!.prepare('DELETE FROM docs').run();
+});
+
+const ALICE = 'a'.repeat(43);
+const BOB = 'b'.repeat(43);
+const as = (key: string, headers: Record<string, string> = {}) => ({ authorization: `Bearer ${key}`, ...headers });
+const fields = (title: string) => ({ title, body: `${title} body` });
+
+async function listed(key: string) {
+  const res = await call(list.onRequestGet, jsonRequest('/api/docs', 'GET', undefined, as(key)), env);
+  return ((await res.json()) as { docs: { id: string }[] }).docs.map((d) => d.id);
+}
+
+const put = (key: string, id: string, body: unknown, headers: Record<string, string>) =>
+  call(item.onRequestPut, jsonRequest(`/api/docs/${id}`, 'PUT', body, as(key, headers)), env, { id });
+const get = (key: string, id: string) =>
+  call(item.onRequestGet, jsonRequest(`/api/docs/${id}`, 'GET', undefined, as(key)), env, { id });
+async function title(key: string, id: string) {
+  return ((await (await get(key, id)).json()) as { doc: { title: string } }).doc.title;
+}
+
+describe('/api/docs', () => {
+  it('needs an owner key', async () => {
+    expect((await call(list.onRequestGet, jsonRequest('/api/docs', 'GET'), env)).status).toBe(401);
+    const short = jsonRequest('/api/docs/one', 'GET', undefined, as('too-short'));
+    expect((await call(item.onRequestGet, short, env, { id: 'one' })).status).toBe(401);
+  });
+
+  it('lists and serves only the caller’s documents', async () => {
+    expect((await put(ALICE, 'one', fields('Alice'), { 'if-none-match': '*' })).status).toBe(201);
+    const post = jsonRequest('/api/docs', 'POST', { id: 'two', ...fields('Bob') }, as(BOB));
+    expect((await call(list.onRequestPost, post, env)).status).toBe(201);
+
+    expect(await listed(ALICE)).toEqual(['one']);
+    expect(await listed(BOB)).toEqual(['two']);
+    expect((await get(BOB, 'one')).status).toBe(404);
+    expect((await get(ALICE, 'one')).status).toBe(200);
+  });
+
+  it('does not let another owner overwrite or delete a document', async () => {
+    await put(ALICE, 'one', fields('Alice'), { 'if-none-match': '*' });
+
+    expect((await put(BOB, 'one', fields('Bob'), { 'if-match': '"1"' })).status).toBe(404);
+    const del = jsonRequest('/api/docs/one', 'DELETE', undefined, as(BOB, { 'if-match': '"1"' }));
+    expect((await call(item.onRequestDelete, del, env, { id: 'one' })).status).toBe(404);
+
+    expect(await title(ALICE, 'one')).toBe('Alice');
+  });
+
+  it('keeps ids per owner, so a device that switched keys can push the same id again', async () => {
+    await put(ALICE, 'one', fields('Alice'), { 'if-none-match': '*' });
+
+    expect((await put(BOB, 'one', fields('Bob'), { 'if-none-match': '*' })).status).toBe(201);
+    expect(await title(ALICE, 'one')).toBe('Alice');
+    expect(await title(BOB, 'one')).toBe('Bob');
+  });
+
+  it('updates with If-Match and answers a stale one with 412 and the current copy', async () => {
+    await put(ALICE, 'one', fields('v1'), { 'if-none-match': '*' });
+    expect((await put(ALICE, 'one', fields('v2'), { 'if-match': '"1"' })).status).toBe(200);
+
+    const stale = await put(ALICE, 'one', fields('v3'), { 'if-match': '"1"' });
+    expect(stale.status).toBe(412);
+    expect(((await stale.json()) as { doc: { title: string; etag: string } }).doc).toMatchObject({
+      title: 'v2',
+      etag: '"2"',
+    });
+  });
+
+  it('lets the first owner to push a document from before owners claim it', async () => {
+    await env
+      .DOCS_DB!.prepare("INSERT INTO docs (id, title, body, created_at, updated_at) VALUES ('old', 'Old', '', 1, 1)")
+      .run();
+    expect(await listed(ALICE)).toEqual([]);
+
+    const res = await put(ALICE, 'old', fields('Old'), { 'if-none-match': '*' });
+    expect(res.status).toBe(412);
+    expect(await listed(ALICE)).toEqual(['old']);
+    // Claimed: Bob's push is a new document of his own.
+    expect((await put(BOB, 'old', fields('New'), { 'if-none-match': '*' })).status).toBe(201);
+    expect(await title(ALICE, 'old')).toBe('Old');
+  });
+});
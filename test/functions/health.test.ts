@@ -0,0 +1,64 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Env, onRequestGet } from '../../functions/api/lt/health';
+import type { HealthReport } from '../../functions/lib/healthApi';
+import { call, jsonRequest, localBindings, localCaches } from './pages';
+
+const mf = localBindings({});
+let server: Server;
+let base: string;
+const hits: string[] = [];
+
+beforeAll(async () => {
+  vi.stubGlobal('caches', await localCaches(mf));
+  // A LanguageTool that knows one language and answers every check.
+  server = createServer((req, res) => {
+    hits.push(req.url ?? '');
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(
+      JSON.stringify(
+        req.url === '/v2/languages'
+          ? [{ name: 'English (US)', code: 'en', longCode: 'en-US' }]
+          : { software: { version: '6.5', buildDate: '2024-09-01' }, matches: [] },
+      ),
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+  await mf.dispose();
+});
+
+async function health(env: Env) {
+  const res = await call(onRequestGet, jsonRequest('/api/lt/health', 'GET'), env);
+  expect(res.headers.get('cache-control')).toBe('no-store');
+  return (await res.json()) as HealthReport;
+}
+
+describe('/api/lt/health', () => {
+  it('reports the engine and serves repeat polls from the edge cache', async () => {
+    const env = { LT_BASE_URL: base };
+    const first = await health(env);
+    expect(first).toMatchObject({ ok: true, status: 'online', version: '6.5', mode: 'free', languageCount: 1 });
+    expect(hits.filter((h) => h === '/v2/check')).toHaveLength(1);
+
+    expect(await health(env)).toEqual(first);
+    expect(await health(env)).toEqual(first);
+    expect(hits.filter((h) => h === '/v2/check')).toHaveLength(1);
+  });
+
+  it('keeps premium and free reports apart', async () => {
+    const premium = await health({ LT_BASE_URL: base, LT_USERNAME: 'me@example.com', LT_API_KEY: 'secret' });
+    expect(premium.mode).toBe('premium');
+    expect((await health({ LT_BASE_URL: base })).mode).toBe('free');
+  });
+
+  it('reports offline without a base URL', async () => {
+    expect(await health({ LT_BASE_URL: '' })).toMatchObject({ ok: false, status: 'offline' });
+  });
+});
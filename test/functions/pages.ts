@@ -0,0 +1,113 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { Miniflare, Request as MiniflareRequest, Response as MiniflareResponse } from 'miniflare';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '../..');
+
+/**
+ * Local stand-ins for the Workers bindings: Miniflare runs an empty worker
+ * and hands out its KV namespaces and D1 databases, backed by memory.
+ */
+export function localBindings(options: { kv?: string[]; d1?: string[] }) {
+  return new Miniflare({
+    modules: true,
+    script: 'export default { fetch: () => new Response(null, { status: 404 }) };',
+    kvNamespaces: options.kv,
+    d1Databases: options.d1,
+  });
+}
+
+/**
+ * The live editing Worker (workers/collab.ts), bundled the way wrangler
+ * would, with every room open at /<name> so tests can connect to it directly.
+ * Rooms keep their storage in `persist`, so a new instance picks it up the
+ * way an evicted Durable Object would.
+ */
+export async function localRooms(persist: string) {
+  const entry = `
+    export { CollabRoom } from './workers/collab';
+    export default {
+      fetch(request, env) {
+        const room = new URL(request.url).pathname.slice(1);
+        return env.COLLAB.get(env.COLLAB.idFromName(room)).fetch(request);
+      },
+    };`;
+  const { outputFiles } = await build({
+    stdin: { contents: entry, resolveDir: ROOT, loader: 'ts' },
+    bundle: true,
+    format: 'esm',
+    platform: 'browser',
+    write: false,
+  });
+  const mf = new Miniflare({
+    modules: true,
+    script: outputFiles[0].text,
+    compatibilityDate: '2024-09-23',
+    durableObjects: { COLLAB: 'CollabRoom' },
+    durableObjectsPersist: persist,
+  });
+  return { mf, url: (await mf.ready).href.replace(/^http/, 'ws').replace(/\/$/, '') };
+}
+
+/**
+ * Miniflare's `caches.default` as the Workers global. Its cache only takes
+ * Miniflare's own Request and Response, so both are copied across.
+ */
+export async function localCaches(mf: Miniflare) {
+  const cache = (await mf.getCaches()).default;
+  return {
+    default: {
+      async match(request: Request) {
+        const hit = await cache.match(new MiniflareRequest(request.url));
+        if (!hit) return undefined;
+        return new Response(await hit.arrayBuffer(), { status: hit.status, headers: [...hit.headers] });
+      },
+      async put(request: Request, response: Response) {
+        const init = { status: response.status, headers: [...response.headers] };
+        await cache.put(new MiniflareRequest(request.url), new MiniflareResponse(await response.arrayBuffer(), init));
+      },
+    },
+  };
+}
+
+/** Call a Pages Function the way the Pages runtime would. */
+export async function call<Env, P extends string = any>(
+  handler: PagesFunction<Env, P>,
+  request: Request,
+  env: Env,
+  params: Record<string, string> = {},
+) {
+  const pending: Promise<unknown>[] = [];
+  const res = await handler({
+    request,
+    env,
+    params,
+    data: {},
+    functionPath: new URL(request.url).pathname,
+    waitUntil: (p: Promise<unknown>) => pending.push(p),
+    passThroughOnException: () => {},
+    next: async () => new Response(null, { status: 404 }),
+  } as unknown as EventContext<Env, P, Record<string, unknown>>);
+  await Promise.all(pending);
+  return res;
+}
+
+export function jsonRequest(url: string, method: string, body?: unknown, headers: Record<string, string> = {}) {
+  return new Request(`http://localhost${url}`, {
+    method,
+    headers: { 'content-type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/** Run migrations/*.sql in order, the way `wrangler d1 migrations apply` would. */
+export async function applyMigrations(db: D1Database) {
+  const dir = join(ROOT, 'migrations');
+  for (const file of readdirSync(dir).sort()) {
+    const sql = readFileSync(join(dir, file), 'utf8').replace(/--.*$/gm, '');
+    const statements = sql.split(';').map((s) => s.trim()).filter(Boolean);
+    await db.batch(statements.map((s) => db.prepare(s)));
+  }
+}
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Env } from '../../functions/api/lt/health';
+import * as shares from '../../functions/api/share/index';
+import * as proposals from '../../functions/api/share/proposals';
+import * as shared from '../../functions/api/share/[token]';
+import * as sent from '../../functions/api/share/[token]/proposals';
+import type { Proposal, SentProposal, ShareLink } from '../../functions/lib/shareApi';
+import { applyMigrations, call, jsonRequest, localBindings } from './pages';
+
+const mf = localBindings({ d1: ['DOCS_DB'] });
+let env: Env;
+
+beforeAll(async () => {
+  env = {
+    LT_BASE_URL: '',
+    SHARE_SECRET: 'test-secret',
+    DOCS_DB: (await mf.getD1Database('DOCS_DB')) as unknown as D1Database,
+  };
+  await applyMigrations(env.DOCS_DB!);
+});
+
+afterAll(() => mf.dispose());
+
+beforeEach(async () => {
+  const db = env.DOCS_DB!;
+  await db.batch([db.prepare('DELETE FROM shares'), db.prepare('DELETE FROM share_proposals')]);
+});
+
+const ALICE = 'a'.repeat(43);
+const BOB = 'b'.repeat(43);
+const as = (key?: string): Record<string, string> => (key ? { authorization: `Bearer ${key}` } : {});
+
+async function share(key: string, docId = 'doc-1') {
+  const body = { docId, title: 'Draft', body: 'The quick brown fox.', permission: 'suggest' };
+  const res = await call(shares.onRequestPost, jsonRequest('/api/share', 'POST', body, as(key)), env);
+  expect(res.status).toBe(201);
+  return ((await res.json()) as { link: ShareLink }).link;
+}
+
+async function links(key?: string, docId = 'doc-1') {
+  return call(shares.onRequestGet, jsonRequest(`/api/share?docId=${docId}`, 'GET', undefined, as(key)), env);
+}
+
+async function review(key?: string) {
+  return call(proposals.onRequestGet, jsonRequest('/api/share/proposals?docId=doc-1', 'GET', undefined, as(key)), env);
+}
+
+async function propose(token: string) {
+  const body = { proposals: [{ kind: 'edit', offset: 4, length: 5, original: 'quick', replacement: 'slow' }] };
+  const req = jsonRequest(`/api/share/${token}/proposals`, 'POST', body);
+  const res = await call(sent.onRequestPost, req, env, { token });
+  return ((await res.json()) as { proposals: SentProposal[] }).proposals[0];
+}
+
+describe('/api/share', () => {
+  it('needs an owner key for every owner route', async () => {
+    expect((await links()).status).toBe(401);
+    const post = jsonRequest('/api/share', 'POST', { docId: 'doc-1', title: '', body: '', permission: 'view' });
+    expect((await call(shares.onRequestPost, post, env)).status).toBe(401);
+    expect((await call(shares.onRequestDelete, jsonRequest('/api/share?id=x', 'DELETE'), env)).status).toBe(401);
+    expect((await review()).status).toBe(401);
+    const patch = jsonRequest('/api/share/proposals', 'PATCH', { id: 'x', status: 'accepted' });
+    expect((await call(proposals.onRequestPatch, patch, env)).status).toBe(401);
+  });
+
+  it('lists and revokes only the caller’s links', async () => {
+    const link = await share(ALICE);
+
+    const mine = (await (await links(ALICE)).json()) as { links: ShareLink[] };
+    expect(mine.links.map((l) => l.id)).toEqual([link.id]);
+    expect(((await (await links(BOB)).json()) as { links: ShareLink[] }).links).toEqual([]);
+
+    const revoke = (key: string) =>
+      call(shares.onRequestDelete, jsonRequest(`/api/share?id=${link.id}`, 'DELETE', undefined, as(key)), env);
+    expect((await revoke(BOB)).status).toBe(404);
+    expect((await revoke(ALICE)).status).toBe(204);
+    expect(((await (await links(ALICE)).json()) as { links: ShareLink[] }).links).toEqual([]);
+  });
+
+  it('shows and resolves proposals only for the owner of the link they came through', async () => {
+    const link = await share(ALICE);
+    const proposal = await propose(link.token);
+
+    const forAlice = (await (await review(ALICE)).json()) as { proposals: Proposal[]; snapshots: object };
+    expect(forAlice.proposals.map((p) => p.id)).toEqual([proposal.id]);
+    expect(forAlice.snapshots).toEqual({ [link.id]: 'The quick brown fox.' });
+    expect(((await (await review(BOB)).json()) as { proposals: Proposal[] }).proposals).toEqual([]);
+
+    const resolve = (key: string) =>
+      call(
+        proposals.onRequestPatch,
+        jsonRequest('/api/share/proposals', 'PATCH', { id: proposal.id, status: 'accepted' }, as(key)),
+        env,
+      );
+    expect((await resolve(BOB)).status).toBe(404);
+    expect((await resolve(ALICE)).status).toBe(200);
+    expect(((await (await review(ALICE)).json()) as { proposals: Proposal[] }).proposals).toEqual([]);
+  });
+
+  it('tells reviewers nothing about the document or link behind their token', async () => {
+    const link = await share(ALICE);
+    const proposal = await propose(link.token);
+    // No shareId or docId; an empty note is left out.
+    expect(Object.keys(proposal).sort()).toEqual([
+      'author',
+      'createdAt',
+      'id',
+      'kind',
+      'length',
+      'offset',
+      'original',
+      'replacement',
+      'status',
+    ]);
+
+    const res = await call(shared.onRequestGet, jsonRequest(`/api/share/${link.token}`, 'GET'), env, {
+      token: link.token,
+    });
+    const body = (await res.json()) as { ok: boolean; doc: object; proposals: object[] };
+    expect(Object.keys(body).sort()).toEqual(['doc', 'ok', 'proposals']);
+    expect(body.doc).toEqual({
+      title: 'Draft',
+      body: 'The quick brown fox.',
+      permission: 'suggest',
+      expiresAt: link.expiresAt,
+    });
+    expect(body.proposals).toEqual([proposal]);
+    expect(JSON.stringify(body)).not.toContain('doc-1');
+    expect(JSON.stringify(body)).not.toContain(link.id);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GOALS, WritingGoals, rulesForGoals } from '../goals';
+import { BUILTIN_RULES, runRules } from '../rules';
+
+// The longest sentence, in words, that the goals let through without a note.
+function longestAllowed(goals: WritingGoals) {
+  const rules = rulesForGoals(BUILTIN_RULES, goals).filter((r) => r.id === 'long-sentence');
+  for (let words = 10; words < 60; words++) {
+    if (runRules(`${'word '.repeat(words).trim()}.`, rules).length) return words - 1;
+  }
+  return Infinity;
+}
+
+describe('rulesForGoals', () => {
+  it('keeps the built-in 30-word long-sentence limit for the default goals', () => {
+    expect(longestAllowed(DEFAULT_GOALS)).toBe(30);
+  });
+
+  it('only changes the limit for goals the user picked', () => {
+    expect(longestAllowed({ ...DEFAULT_GOALS, domain: 'business' })).toBe(25);
+    expect(longestAllowed({ ...DEFAULT_GOALS, domain: 'casual' })).toBe(25);
+    expect(longestAllowed({ ...DEFAULT_GOALS, audience: 'expert' })).toBe(35);
+    expect(longestAllowed({ ...DEFAULT_GOALS, domain: 'academic' })).toBe(35);
+    expect(longestAllowed({ ...DEFAULT_GOALS, domain: 'academic', audience: 'expert' })).toBe(45);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_RULES, CustomRuleDef, LocalRule, compileCustomRule, regexRule, runRules } from '../rules';
+
+// What a rule flags in `text`, with the first replacement for each.
+function flagged(rule: LocalRule, text: string) {
+  return runRules(text, [rule]).map((s) => [s.before, s.after]);
+}
+
+const builtin = (id: string) => BUILTIN_RULES.find((r) => r.id === id)!;
+
+describe('built-in rules', () => {
+  it('cap-i capitalizes a lone “i” but not “i.e.” or words containing i', () => {
+    expect(flagged(builtin('cap-i'), 'Then i left, and i think so.')).toEqual([
+      ['i', 'I'],
+      ['i', 'I'],
+    ]);
+    expect(flagged(builtin('cap-i'), 'It is fine, i.e. in italics. I agree.')).toEqual([]);
+  });
+
+  it('double-space collapses runs of spaces between words but leaves indentation', () => {
+    expect(flagged(builtin('double-space'), 'One  two   three.')).toEqual([
+      ['  ', ' '],
+      ['   ', ' '],
+    ]);
+    expect(flagged(builtin('double-space'), '    Indented line. End of line  ')).toEqual([]);
+  });
+
+  it('long-sentence flags sentences over 30 words only', () => {
+    const long = `${'word '.repeat(31).trim()}.`;
+    const short = `${'word '.repeat(30).trim()}.`;
+    const [match] = runRules(`${short} ${long}`, [builtin('long-sentence')]);
+    expect(match).toMatchObject({ offset: short.length + 1, length: long.length, replacements: [] });
+    expect(match.detail).toBe('This sentence has 31 words. Split it into two clear thoughts.');
+    expect(runRules(short, [builtin('long-sentence')])).toEqual([]);
+  });
+
+  it('opener flags a weak first word of the text, not one later on', () => {
+    expect(flagged(builtin('opener'), '  So, we shipped it.')).toEqual([['So', undefined]]);
+    expect(flagged(builtin('opener'), 'We shipped it. So, it works. Solve it.')).toEqual([]);
+  });
+
+  it('im-contraction fixes “im” in any case but not words starting with it', () => {
+    expect(flagged(builtin('im-contraction'), 'im here and IM ready.')).toEqual([
+      ['im', "I'm"],
+      ['IM', "I'm"],
+    ]);
+    expect(flagged(builtin('im-contraction'), 'An important image.')).toEqual([]);
+  });
+
+  it('exclaim reduces repeated exclamation marks', () => {
+    expect(flagged(builtin('exclaim'), 'Wow!!! Great!!')).toEqual([
+      ['!!!', '!'],
+      ['!!', '!'],
+    ]);
+    expect(flagged(builtin('exclaim'), 'Wow! Great!')).toEqual([]);
+  });
+});
+
+describe('regexRule', () => {
+  const base = { id: 'r', category: 'style' as const, severity: 'info' as const, title: 'T', detail: 'D' };
+
+  it('matches globally even without the g flag, with every replacement offered', () => {
+    const rule = regexRule({ ...base, pattern: /colou?r/i, replace: () => ['hue', 'shade'] });
+    const out = runRules('Color and colour.', [rule]);
+    expect(out.map((s) => [s.offset, s.length, s.replacements])).toEqual([
+      [0, 5, ['hue', 'shade']],
+      [10, 6, ['hue', 'shade']],
+    ]);
+  });
+
+  it('only flags when there is no replace, and skips empty matches', () => {
+    expect(flagged(regexRule({ ...base, pattern: /x*/ }), 'a xx b')).toEqual([['xx', undefined]]);
+    expect(flagged(regexRule({ ...base, pattern: /z+/ }), 'no match here')).toEqual([]);
+  });
+});
+
+describe('compileCustomRule', () => {
+  const def = (patch: Partial<CustomRuleDef>): CustomRuleDef => ({
+    id: 'custom-1',
+    title: 'House style',
+    pattern: 'e-?mail',
+    flags: 'i',
+    replacement: 'email',
+    severity: 'warning',
+    ...patch,
+  });
+
+  it('flags and replaces what the pattern matches, honouring the flags', () => {
+    const rule = compileCustomRule(def({}))!;
+    expect(flagged(rule, 'Send an E-mail or an email.')).toEqual([
+      ['E-mail', 'email'],
+      ['email', 'email'],
+    ]);
+    expect(flagged(compileCustomRule(def({ flags: '' }))!, 'Send an E-mail.')).toEqual([]);
+  });
+
+  it('expands $1 and $& in the replacement', () => {
+    const rule = compileCustomRule(def({ pattern: '(\\w+) (\\1)', replacement: '$1', flags: '' }))!;
+    expect(flagged(rule, 'the the end')).toEqual([['the the', 'the']]);
+    const quoted = compileCustomRule(def({ pattern: 'ACME', replacement: '“$&”', flags: '' }))!;
+    expect(flagged(quoted, 'By ACME.')).toEqual([['ACME', '“ACME”']]);
+  });
+
+  it('only flags with an empty replacement, and drops the g and y flags', () => {
+    const rule = compileCustomRule(def({ replacement: '', flags: 'gyi' }))!;
+    expect(runRules('email', [rule])[0]).toMatchObject({ replacements: [], severity: 'warning' });
+  });
+
+  it('returns null for a pattern that does not compile', () => {
+    expect(compileCustomRule(def({ pattern: '(' }))).toBeNull();
+    expect(compileCustomRule(def({ pattern: '' }))).toBeNull();
+  });
+});
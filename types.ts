@@ -0,0 +1,44 @@
+export type SuggestionSeverity = 'critical' | 'warning' | 'info';
+
+// Which engine produced a suggestion; 'reviewer' is a proposal sent through a share link.
+export type SuggestionSource = 'languagetool' | 'local' | 'reviewer';
+
+export type Suggestion = {
+  id: string;
+  severity: SuggestionSeverity;
+  source?: SuggestionSource;
+  title: string;
+  detail: string;
+  // Engine rule that produced this, e.g. LanguageTool's MORFOLOGIK_RULE_EN_US.
+  ruleId?: string;
+  issueType?: string;
+  before?: string;
+  after?: string;
+  // Range of the flagged text in the document, when the engine knows it.
+  offset?: number;
+  length?: number;
+  replacements?: string[];
+  apply?: (text: string) => string;
+};
+
+export type LTLanguage = { name: string; code: string; longCode: string };
+
+export type LTReplacement = { value: string };
+export type LTMatch = {
+  message: string;
+  shortMessage?: string;
+  offset: number;
+  length: number;
+  replacements: LTReplacement[];
+  rule?: {
+    id?: string;
+    description?: string;
+    issueType?: string; // e.g. "misspelling", "grammar", "style"
+    category?: { id?: string; name?: string }; // e.g. { id: "TYPOS" }
+  };
+  context?: {
+    text?: string;
+    offset?: number;
+    length?: number;
+  };
+};
@@ -7,6 +7,14 @@ export default defineConfig({
     outDir: "dist"
   },
   server: {
-    port: 5173
+    port: 5173,
+    proxy: {
+      // Live editing rooms; run `npm run collab` alongside the dev server.
+      '/api/collab': {
+        target: 'ws://localhost:1234',
+        ws: true,
+        rewrite: (path) => path.replace(/^\/api\/collab/, '')
+      }
+    }
   }
 })
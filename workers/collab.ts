@@ -0,0 +1,10 @@
+export { CollabRoom } from '../functions/lib/collabRoom';
+
+/**
+ * The Worker behind live editing (wrangler.collab.toml). Pages projects can't
+ * host Durable Objects, so this one only exists to export CollabRoom; the
+ * Pages project binds to it as COLLAB and reaches rooms through /api/collab/:id.
+ */
+export default {
+  fetch: () => new Response('Not found', { status: 404 }),
+} satisfies ExportedHandler;